@@ -1,15 +1,41 @@
 /* eslint-disable */
+const project = {
+  testEnvironment: 'node',
+  preset: 'ts-jest',
+  moduleFileExtensions: ['ts', 'js', 'html'],
+};
+
 export default {
-  displayName: 'class-metadata',
   collectCoverage: true,
   coverageReporters: ['text', 'lcov'],
   coverageDirectory: './dist/coverage',
-  testEnvironment: 'node',
-  preset: 'ts-jest',
-  transform: {
-    '^.+\\.[tj]s$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.spec.json' }],
-  },
-  moduleFileExtensions: ['ts', 'js', 'html'],
+  // ts-jest shares a single compiler per project, so the specs compiled with
+  // standard (TC39) decorators instead of the legacy ones run as a separate
+  // project.
+  projects: [
+    {
+      ...project,
+      displayName: 'class-metadata',
+      testPathIgnorePatterns: ['/node_modules/', '\\.standard\\.spec\\.ts$'],
+      transform: {
+        '^.+\\.[tj]s$': [
+          'ts-jest',
+          { tsconfig: '<rootDir>/tsconfig.spec.json' },
+        ],
+      },
+    },
+    {
+      ...project,
+      displayName: 'class-metadata:standard',
+      testMatch: ['<rootDir>/src/**/*.standard.spec.ts'],
+      transform: {
+        '^.+\\.[tj]s$': [
+          'ts-jest',
+          { tsconfig: '<rootDir>/tsconfig.standard.spec.json' },
+        ],
+      },
+    },
+  ],
   coverageThreshold: {
     global: {
       branches: 90,
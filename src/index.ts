@@ -1,4 +1,35 @@
 export * from './lib/array-metadata';
 export * from './lib/metadata';
 export * from './lib/map-metadata';
+export * from './lib/multi-map-metadata';
+export * from './lib/record-metadata';
 export * from './lib/set-metadata';
+export * from './lib/sorted-array-metadata';
+export * from './lib/metadata-target';
+export * from './lib/metadata-codec';
+export * from './lib/metadata-decorator';
+export * from './lib/metadata-event';
+export * from './lib/base-metadata';
+export * from './lib/collection-metadata';
+export * from './lib/derived-metadata';
+export * from './lib/lifecycle-hook-error';
+export * from './lib/lifecycle-hooks';
+export * from './lib/metadata-inheritance';
+export * from './lib/metadata-key-conflict';
+export * from './lib/metadata-lock';
+export * from './lib/metadata-order-error';
+export * from './lib/metadata-registry';
+export * from './lib/metadata-sealed-error';
+export * from './lib/metadata-scope';
+export * from './lib/metadata-snapshot';
+export * from './lib/metadata-storage';
+export * from './lib/metadata-validation-error';
+export * from './lib/metadata-validator';
+export * from './lib/symbol-property-storage';
+export * from './lib/weak-map-storage';
+export * from './lib/weak-target-set';
+export * from './lib/readonly-map-view';
+export * from './lib/readonly-set-view';
+export * from './lib/reflect-metadata';
+export * from './lib/property-metadata';
+export * from './lib/parameter-metadata';
@@ -1,4 +1,8 @@
+import { decorate, metadataSymbol } from '../testing/standard-decorators';
 import { ArrayMetadata } from './array-metadata';
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
+import { WeakMapStorage } from './weak-map-storage';
 
 describe('(Unit) ArrayMetadata', () => {
   describe('#constructor() - initialization', () => {
@@ -209,6 +213,95 @@ describe('(Unit) ArrayMetadata', () => {
     });
   });
 
+  describe('#delete() - value deleting', () => {
+    it('should delete every occurrence of a value', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 'b', 'a');
+      const listener = jest.fn();
+      testMetadata.subscribe(listener);
+      // Act
+      const deleted = testMetadata.delete(ChildClass, 'a');
+      const missing = testMetadata.delete(ChildClass, 'c');
+      // Assert
+      expect(deleted).toBe(true);
+      expect(missing).toBe(false);
+      expect(testMetadata.get(ChildClass)).toEqual(['b']);
+      expect(testMetadata.get(ParentClass)).toEqual(['a', 'b', 'a']);
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ type: 'init' }),
+        expect.objectContaining({ type: 'delete', key: 0, previousValue: 'a' }),
+        expect.objectContaining({ type: 'delete', key: 2, previousValue: 'a' }),
+      ]);
+    });
+
+    it('should tombstone an inherited value in the live mode', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.add(ParentClass, 'a', 'b');
+      testMetadata.add(ChildClass, 'a', 'c');
+      // Act
+      const deleted = testMetadata.delete(ChildClass, 'a');
+      testMetadata.add(ParentClass, 'a');
+      // Assert
+      expect(deleted).toBe(true);
+      expect(testMetadata.get(ChildClass)).toEqual(['b', 'c']);
+      expect(testMetadata.get(GrandChildClass)).toEqual(['b', 'c']);
+      expect(testMetadata.get(ParentClass)).toEqual(['a', 'b', 'a']);
+    });
+
+    it('should add a tombstoned value again as an own value', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 'b');
+      testMetadata.delete(ChildClass, 'a');
+      // Act
+      testMetadata.add(ChildClass, 'a');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['b', 'a']);
+      expect(testMetadata.getOwn(ChildClass)).toEqual(['a']);
+    });
+
+    it('should delete an own value of a detached array without a tombstone', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.set(ChildClass, ['a', 'b']);
+      // Act
+      testMetadata.delete(ChildClass, 'a');
+      testMetadata.add(ChildClass, 'a');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['b', 'a']);
+    });
+
+    it('should throw on a sealed class', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, 'a');
+      testMetadata.seal(TestClass);
+      // Act
+      const act = () => testMetadata.delete(TestClass, 'a');
+      // Assert
+      expect(act).toThrow(MetadataSealedError);
+    });
+  });
+
   describe('#getSize() - metadata size', () => {
     it('should return 0 if no metadata is set', () => {
       // Arrange
@@ -249,4 +342,505 @@ describe('(Unit) ArrayMetadata', () => {
       expect(metadataAfter).toEqual([]);
     });
   });
+
+  describe('standard decorators', () => {
+    it('should add a metadata through a decorator context', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      decorate(TestClass, (context) =>
+        testMetadata.add(context, String(context.name)),
+      );
+      const metadata = testMetadata.get(TestClass);
+      // Assert
+      expect(metadata).toEqual(['testProperty']);
+    });
+
+    it('should copy a parent metadata into a decorated child class', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      decorate(ParentClass, (context) => testMetadata.add(context, 'parent'));
+      decorate(ChildClass, (context) => testMetadata.add(context, 'child'));
+      // Assert
+      expect(testMetadata.get(ParentClass)).toEqual(['parent']);
+      expect(testMetadata.get(ChildClass)).toEqual(['parent', 'child']);
+    });
+  });
+
+  describe('storage', () => {
+    it('should store a metadata in a custom storage', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        storage: new WeakMapStorage(),
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.add(ParentClass, 'parent');
+      testMetadata.add(ChildClass, 'child');
+      // Assert
+      expect(Object.getOwnPropertySymbols(ChildClass)).toEqual([]);
+      expect(testMetadata.get(ParentClass)).toEqual(['parent']);
+      expect(testMetadata.get(ChildClass)).toEqual(['parent', 'child']);
+    });
+  });
+
+  describe('#decorator() - decorator factory', () => {
+    it('should add values through legacy class and member decorators', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      const Tag = (...tags: string[]) => testMetadata.decorator(...tags);
+      // Act
+      @Tag('a', 'b')
+      class TestClass {
+        @Tag('c')
+        public testProperty?: string;
+      }
+      // Assert
+      expect(testMetadata.get(TestClass)).toEqual(['c', 'a', 'b']);
+      expect(Tag('d').metadata).toBe(testMetadata);
+    });
+
+    it('should add values through a standard decorator', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      const metadata = Object.create(null);
+      class TestClass {}
+      // Act
+      testMetadata.decorator('a')(TestClass, {
+        kind: 'class',
+        name: 'TestClass',
+        metadata,
+        addInitializer: () => undefined,
+      });
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Assert
+      expect(testMetadata.get(TestClass)).toEqual(['a']);
+    });
+  });
+
+  describe('live resolution', () => {
+    it('should see parent changes made after the child was read', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.getSize(ChildClass);
+      // Act
+      testMetadata.add(ChildClass, 'c');
+      testMetadata.add(ParentClass, 'b');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['a', 'b', 'c']);
+      expect(testMetadata.get(ParentClass)).toEqual(['a', 'b']);
+    });
+
+    it('should not persist anything on reads', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      // Act
+      testMetadata.get(ChildClass).push('b');
+      testMetadata.getSize(ChildClass);
+      // Assert
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(false);
+      expect(testMetadata.get(ChildClass)).toEqual(['a']);
+    });
+
+    it('should replace parent values when set or cleared', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class OtherChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      // Act
+      testMetadata.set(ChildClass, ['b']);
+      testMetadata.clear(OtherChildClass);
+      testMetadata.add(ParentClass, 'c');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['b']);
+      expect(testMetadata.get(OtherChildClass)).toEqual([]);
+    });
+
+    it('should store an own layer on init', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      // Act
+      const metadata = testMetadata.init(ChildClass);
+      // Assert
+      expect(metadata).toEqual(['a']);
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(true);
+    });
+  });
+
+  describe('inherit option', () => {
+    it('should put own values first in the live child-first mode', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+        inherit: 'child-first',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      // Act
+      testMetadata.add(ChildClass, 'b');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['b', 'a']);
+    });
+
+    it('should merge parent and own values with a live custom merger', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+        inherit: (parentValue, ownValue) => [
+          ...(parentValue ?? []).map((value) => `${value}!`),
+          ...(ownValue ?? []),
+        ],
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      // Act
+      testMetadata.add(ChildClass, 'b');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toEqual(['a!', 'b']);
+      expect(testMetadata.get(ParentClass)).toEqual(['a']);
+    });
+
+    it.each([
+      ['child-first' as const, 'child-first'],
+      ['parent-first' as const, 'parent-first'],
+      ['deep-merge' as const, 'deep-merge'],
+      [(parentValue?: string[]) => parentValue, 'custom merger'],
+    ])(
+      'should require the live mode for a merging strategy (%s)',
+      (inherit, name) => {
+        // Arrange
+        // Act
+        const create = () =>
+          new ArrayMetadata<string>('test:testMetadata', { inherit });
+        // Assert
+        expect(create).toThrow(
+          new TypeError(
+            `Inheritance strategy "${name}" of "test:testMetadata" requires ` +
+              'the live resolution.',
+          ),
+        );
+      },
+    );
+  });
+
+  describe('validate option', () => {
+    it('should name the index of an invalid added value', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<number>('test:testMetadata', {
+        validate: (value) => value >= 0,
+      });
+      class TestClass {}
+      testMetadata.add(TestClass, 1);
+      // Act
+      const add = (): void => testMetadata.add(TestClass, 2, -3);
+      // Assert
+      expect(add).toThrow(expect.objectContaining({ key: 2, value: -3 }));
+      expect(testMetadata.get(TestClass)).toEqual([1]);
+    });
+
+    it('should validate every item of a set array', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<number>('test:testMetadata', {
+        validate: (value) => value >= 0,
+      });
+      class TestClass {}
+      // Act
+      const set = (): void => testMetadata.set(TestClass, [1, -2]);
+      // Assert
+      expect(set).toThrow(MetadataValidationError);
+      expect(set).toThrow(/under key "1"/);
+    });
+
+    it('should validate the values added in the live mode', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<number>('test:testMetadata', {
+        resolution: 'live',
+        validate: (value) => value >= 0,
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 1);
+      // Act
+      const add = (): void => testMetadata.add(ChildClass, -1);
+      // Assert
+      expect(add).toThrow(expect.objectContaining({ key: 1 }));
+      expect(testMetadata.get(ChildClass)).toEqual([1]);
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed array', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, 'testValue');
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(() => testMetadata.add(TestClass, 'value')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.set(TestClass, [])).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.clear(TestClass)).toThrow(MetadataSealedError);
+      expect(() => testMetadata.get(TestClass).push('value')).toThrow(
+        TypeError,
+      );
+      expect(testMetadata.get(TestClass)).toEqual(['testValue']);
+    });
+
+    it('should throw when the live layer is modified', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class TestClass {}
+      testMetadata.add(TestClass, 'testValue');
+      testMetadata.seal(TestClass);
+      // Act
+      const add = (): void => testMetadata.add(TestClass, 'value');
+      // Assert
+      expect(add).toThrow(MetadataSealedError);
+      expect(Object.isFrozen(testMetadata.get(TestClass))).toBe(true);
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about add, set and clear', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.add(TestClass, 'first');
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.add(TestClass, 'second', 'third');
+      testMetadata.set(TestClass, ['fourth']);
+      testMetadata.clear(TestClass);
+      // Assert
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events.map(({ type, key }) => [type, key])).toEqual([
+        ['add', 1],
+        ['add', 2],
+        ['set', undefined],
+        ['clear', undefined],
+      ]);
+      expect(events[2]).toMatchObject({
+        value: ['fourth'],
+        previousValue: ['first', 'second', 'third'],
+      });
+      expect(events[3].previousValue).toEqual(['fourth']);
+    });
+
+    it('should notify about the values added in the live mode', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      const listener = jest.fn();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parentValue');
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.add(ChildClass, 'childValue');
+      // Assert
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events[0]).toMatchObject({ type: 'init', value: ['parentValue'] });
+      expect(events[1]).toMatchObject({
+        type: 'add',
+        target: ChildClass,
+        key: 1,
+        value: 'childValue',
+      });
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should create a helper with a global key', () => {
+      // Arrange
+      // Act
+      const testMetadata = ArrayMetadata.global<string>('test.pkg:globalArray');
+      // Assert
+      expect(testMetadata).toBeInstanceOf(ArrayMetadata);
+      expect(testMetadata.metadataKey).toBe(Symbol.for('test.pkg:globalArray'));
+    });
+  });
+
+  describe('target option', () => {
+    it('should store the array of an instance apart from its class', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        target: 'instance',
+        resolution: 'live',
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.add(TestClass, 'class');
+      // Act
+      testMetadata.add(instance, 'instance');
+      // Assert
+      expect(testMetadata.get(instance)).toEqual(['class', 'instance']);
+      expect(testMetadata.get(new TestClass())).toEqual(['class']);
+      expect(testMetadata.get(TestClass)).toEqual(['class']);
+    });
+  });
+
+  describe('own and inherited metadata', () => {
+    it('should introspect the own arrays', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      // Act
+      const chain = testMetadata.getChain(ChildClass);
+      // Assert
+      expect(chain).toEqual([{ ctor: ParentClass, value: ['parent'] }]);
+      expect(testMetadata.getOwn(ParentClass)).toEqual(['parent']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+      expect(testMetadata.getOrigin(ChildClass)).toBe(ParentClass);
+    });
+  });
+
+  describe('iteration', () => {
+    it('should iterate own and inherited values without storing them', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 'b');
+      const callback = jest.fn();
+      // Act
+      testMetadata.forEach(ChildClass, callback);
+      const entries = [...testMetadata.entries(new ChildClass())];
+      const keys = [...testMetadata.keys(ChildClass)];
+      const values = [...testMetadata.values(ChildClass)];
+      const array = testMetadata.toArray(ChildClass);
+      // Assert
+      expect(callback.mock.calls).toEqual([
+        ['a', 0],
+        ['b', 1],
+      ]);
+      expect(entries).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+      ]);
+      expect(keys).toEqual([0, 1]);
+      expect(values).toEqual(['a', 'b']);
+      expect(array).toEqual(['a', 'b']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should search the values without storing them', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 'bb', 'a');
+      // Act
+      const found = testMetadata.find(ChildClass, (value) => value.length > 1);
+      const filtered = testMetadata.filter(ChildClass, (_, index) => index > 0);
+      const some = testMetadata.some(ChildClass, (value) => value === 'bb');
+      const none = testMetadata.some(ChildClass, (value) => value === 'c');
+      // Assert
+      expect(found).toBe('bb');
+      expect(filtered).toEqual(['bb', 'a']);
+      expect(some).toBe(true);
+      expect(none).toBe(false);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should not modify the metadata through the listed values', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, 'a');
+      // Act
+      testMetadata.toArray(TestClass).push('b');
+      // Assert
+      expect(testMetadata.get(TestClass)).toEqual(['a']);
+    });
+
+    it('should walk the layers like the resolved array in the live mode', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      class DetachedClass extends ChildClass {}
+      testMetadata.add(ParentClass, 'a', 'b', 'a');
+      testMetadata.delete(ChildClass, 'b');
+      testMetadata.add(ChildClass, 'a', 'b');
+      testMetadata.add(GrandChildClass, 'c');
+      testMetadata.clear(DetachedClass);
+      testMetadata.add(DetachedClass, 'd');
+      // Act
+      const entries = [...testMetadata.entries(GrandChildClass)];
+      // Assert
+      expect(entries).toEqual([
+        [0, 'a'],
+        [1, 'a'],
+        [2, 'a'],
+        [3, 'b'],
+        [4, 'c'],
+      ]);
+      [ParentClass, ChildClass, GrandChildClass, DetachedClass]
+        .map((ctor) => [testMetadata.toArray(ctor), testMetadata.get(ctor)])
+        .forEach(([walked, resolved]) => expect(walked).toEqual(resolved));
+    });
+
+    it('should iterate the array through the iterable', () => {
+      // Arrange
+      const testMetadata = new ArrayMetadata<string>('test:testMetadata', {
+        validate: (value) => value.length === 1,
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 'b');
+      const values: string[] = [];
+      // Act
+      for (const value of testMetadata.iterate(ChildClass)) {
+        values.push(value);
+      }
+      // Assert
+      expect(values).toEqual(['a', 'b']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+  });
 });
@@ -1,8 +1,24 @@
-import { Constructor } from 'type-fest';
+import {
+  CollectionMetadata,
+  CollectionMetadataOptions,
+} from './collection-metadata';
+import {
+  ClassOrMemberMetadataDecorator,
+  MetadataDecorator,
+} from './metadata-decorator';
+import { MetadataTarget } from './metadata-target';
 
 /**
  * Helper class to store metadata in an array.
- * The metadata can be stored on a class or an instance of a class.
+ * The metadata can be stored on a class or an instance of a class. A standard
+ * (TC39) decorator context or its `metadata` object can be used as a target
+ * as well.
+ *
+ * With the `resolution: 'live'` option, the parent array is not copied to the
+ * class. Reads resolve through the inheritance chain every time and only
+ * writes store own values on the class. Setting or clearing the array of
+ * a class replaces the inherited values, deleting a value tombstones its
+ * inherited occurrences.
  *
  * @template V - Metadata value type.
  *
@@ -19,17 +35,24 @@ import { Constructor } from 'type-fest';
  * console.log(testMetadata.get(testInstance)); // ['a', 'b', 'c']
  * ```
  */
-export class ArrayMetadata<V> {
-  /**
-   * Unique symbol used to store metadata on a class.
-   */
-  public readonly metadataKey: symbol;
+export class ArrayMetadata<V> extends CollectionMetadata<V[], V, V> {
+  public get kind(): 'array' {
+    return 'array';
+  }
   /**
-   * @param key - Metadata key used to store the metadata on a class.
-   *  If a string is passed, it will be converted to a symbol.
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
+   *
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
    */
-  constructor(key: string | symbol) {
-    this.metadataKey = typeof key === 'symbol' ? key : Symbol(key);
+  public static global<V>(
+    key: string,
+    options: Omit<CollectionMetadataOptions<V[], V>, 'global'> = {},
+  ): ArrayMetadata<V> {
+    return new ArrayMetadata<V>(key, { ...options, global: true });
   }
   /**
    * Initialize an empty metadata array on a class or an instance constructor.
@@ -39,25 +62,8 @@ export class ArrayMetadata<V> {
    * @returns Initialized metadata array.
    * @template T - Class instance type.
    */
-  public init<T extends object>(arg: T | Constructor<T>): V[] {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    const metadata: V[] = [];
-    // There are metadata already defined somewhere on the prototype chain.
-    // We will copy them to the new array and will disconnect the reference
-    // to the parent array. This way we will not accidentally modify the parent
-    // array when adding a new value to the metadata array. Later modification
-    // of the parent array will not affect the new array.
-    if (
-      !Object.prototype.hasOwnProperty.call(ctor, this.metadataKey) &&
-      Reflect.has(ctor, this.metadataKey)
-    ) {
-      const parentMetadata = Reflect.get(ctor, this.metadataKey) as V[];
-      metadata.push(...parentMetadata);
-    }
-
-    Reflect.set(ctor, this.metadataKey, metadata);
-
-    return metadata;
+  public init<T extends object>(arg: MetadataTarget<T>): V[] {
+    return this.initCollection(arg);
   }
   /**
    * Get the metadata array from a class or an instance constructor.
@@ -67,24 +73,23 @@ export class ArrayMetadata<V> {
    * copied to the new array. Later modification of the parent array will not
    * affect the new array.
    *
+   * In the live mode, the array is resolved from the own and the inherited
+   * values on every call and nothing is persisted. Changes of the returned
+   * array do not affect the metadata.
+   *
+   * The array of a sealed class is a frozen copy and it is not persisted.
+   *
    * @param arg - Class constructor or an instance of a class. The method
    *  will look for the metadata on the class itself or any parent class.
-   * @returns Metadata array. It is safe to call "push" on the returned array.
+   * @returns Metadata array. Unless the metadata is sealed, it is safe to call
+   *  "push" on the returned array.
    * @template T - Class instance type.
    */
-  public get<T extends object>(arg: T | Constructor<T>): V[] {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
+  public get<T extends object>(arg: MetadataTarget<T>): V[] {
     // Persist the empty array for future access. (It could happened that
     // someone will try to push a value to the array and will expect that
     // next `get` call will return the same array with the value.)
-    const metadata = Object.prototype.hasOwnProperty.call(
-      ctor,
-      this.metadataKey,
-    )
-      ? Reflect.get(ctor, this.metadataKey)
-      : this.init(arg);
-
-    return metadata;
+    return this.readCollection(arg, () => this.init(arg));
   }
   /**
    * Set a new metadata array on a class or an instance constructor.
@@ -94,12 +99,15 @@ export class ArrayMetadata<V> {
    * @param arg - Class constructor or an instance of a class. The metadata will
    *   be stored on the class itself or the instance's constructor.
    * @param value - Metadata array to store.
+   * @throws {MetadataValidationError} If an item does not pass the `validate`
+   *  option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public set<T extends object>(arg: T | Constructor<T>, value: V[]): void {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
+  public set<T extends object>(arg: MetadataTarget<T>, value: V[]): void {
+    const previousValue = this.replace(arg, value);
 
-    Reflect.set(ctor, this.metadataKey, value);
+    this.emit(arg, { type: 'set', key: undefined, value, previousValue });
   }
   /**
    * Add a new value to the metadata array on a class or an instance constructor.
@@ -112,14 +120,87 @@ export class ArrayMetadata<V> {
    * @param arg - Class constructor or an instance of a class. The metadata will
    *  be stored on the class itself or the instance's constructor.
    * @param value - Metadata value to add.
+   * @throws {MetadataValidationError} If a value does not pass the `validate`
+   *  option. No value is added in such a case.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public add<T extends object>(arg: MetadataTarget<T>, ...values: V[]): void {
+    this.assertNotSealed(arg);
+
+    const metadata = this.get(arg);
+    const size = metadata.length;
+
+    this.validateAdded(arg, values, size);
+
+    if (this.isLive) {
+      this.getOwnLayer(arg).entries.push(...values);
+    } else {
+      metadata.push(...values);
+      this.writeValue(arg, metadata);
+    }
+    values.forEach((value, index) =>
+      this.emit(arg, {
+        type: 'add',
+        key: size + index,
+        value,
+        previousValue: undefined,
+      }),
+    );
+  }
+  /**
+   * Delete every occurrence of a value from the metadata array on a class or
+   * an instance constructor.
+   *
+   * If no metadata is set, an empty array will be initialized and persisted.
+   * If the metadata array is already defined on a parent class, it will be
+   * copied to the new array. Later modification of the parent array will not
+   * affect the new array.
+   *
+   * In the live mode, a value inherited from a parent class is tombstoned on
+   * the class, so it is no longer visible to the class and its subclasses.
+   * Adding the value to the class again adds it as an own value.
+   *
+   * @param arg - Class constructor or an instance of a class. The metadata will
+   *  be stored on the class itself or the instance's constructor.
+   * @param value - Metadata value to delete.
+   * @returns `true` if the value was deleted, `false` if the array does not
+   *  contain it.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public add<T extends object>(arg: T | Constructor<T>, ...values: V[]): void {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    const metadata = this.get(ctor);
-    metadata.push(...values);
+  public delete<T extends object>(arg: MetadataTarget<T>, value: V): boolean {
+    this.assertNotSealed(arg);
+
+    const metadata = this.get(arg);
+    const indexes = [...metadata.keys()].filter(
+      (index) => metadata[index] === value,
+    );
+
+    if (indexes.length === 0) {
+      return false;
+    }
+    if (this.isLive) {
+      const [, ...parentLevels] = this.resolveChain(arg);
+      const layer = this.getOwnLayer(arg);
 
-    this.set(ctor, metadata);
+      layer.entries = layer.entries.filter((entry) => entry !== value);
+      if (!layer.detached && this.resolveLayers(parentLevels).includes(value)) {
+        layer.tombstones.add(value);
+      }
+    } else {
+      [...indexes].reverse().forEach((index) => metadata.splice(index, 1));
+      this.writeValue(arg, metadata);
+    }
+    indexes.forEach((index) =>
+      this.emit(arg, {
+        type: 'delete',
+        key: index,
+        value: undefined,
+        previousValue: value,
+      }),
+    );
+    return true;
   }
   /**
    * Get the size of the metadata array from a class or an instance constructor.
@@ -134,7 +215,7 @@ export class ArrayMetadata<V> {
    * @returns Size of the metadata array.
    * @template T - Class instance type.
    */
-  public getSize<T extends object>(arg: T | Constructor<T>): number {
+  public getSize<T extends object>(arg: MetadataTarget<T>): number {
     return this.get(arg).length;
   }
   /**
@@ -147,9 +228,240 @@ export class ArrayMetadata<V> {
    *
    * @param arg - Class constructor or an instance of a class. The metadata will
    *  be stored on the class itself or the instance's constructor.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public clear<T extends object>(arg: MetadataTarget<T>): void {
+    const previousValue = this.replace(arg, []);
+
+    this.emit(arg, {
+      type: 'clear',
+      key: undefined,
+      value: undefined,
+      previousValue,
+    });
+  }
+  /**
+   * Call a callback for every value of the metadata array of a class or an
+   * instance constructor, including the inherited values. Unlike `get`,
+   * nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @param callback - Callback receiving a value and its index.
+   * @template T - Class instance type.
+   */
+  public forEach<T extends object>(
+    arg: MetadataTarget<T>,
+    callback: (value: V, index: number) => void,
+  ): void {
+    for (const [index, value] of this.entries(arg)) {
+      callback(value, index);
+    }
+  }
+  /**
+   * Iterate the entries of the metadata array of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the `[index, value]` pairs.
+   * @template T - Class instance type.
+   */
+  public *entries<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<[number, V]> {
+    let index = 0;
+
+    for (const [, value] of this.walkEntries(arg)) {
+      yield [index++, value];
+    }
+  }
+  /**
+   * Iterate the indexes of the metadata array of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the indexes.
    * @template T - Class instance type.
    */
-  public clear<T extends object>(arg: T | Constructor<T>): void {
-    this.set(arg, []);
+  public *keys<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<number> {
+    for (const [index] of this.entries(arg)) {
+      yield index;
+    }
+  }
+  /**
+   * Iterate the values of the metadata array of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the values.
+   * @template T - Class instance type.
+   */
+  public *values<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<V> {
+    for (const [, value] of this.walkEntries(arg)) {
+      yield value;
+    }
+  }
+  /**
+   * Get an iterable of the metadata array of a class or an instance
+   * constructor, e.g. for a `for...of` loop or a spread. Each iteration walks
+   * the values lazily (see `values`).
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterable of the values.
+   * @template T - Class instance type.
+   */
+  public iterate<T extends object>(arg: MetadataTarget<T>): Iterable<V> {
+    return { [Symbol.iterator]: () => this.values(arg) };
+  }
+  /**
+   * List the values of the metadata array of a class or an instance
+   * constructor without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns A new array of the values.
+   * @template T - Class instance type.
+   */
+  public toArray<T extends object>(arg: MetadataTarget<T>): V[] {
+    return [...this.values(arg)];
+  }
+  /**
+   * Find the first value of the metadata array of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value and its index.
+   * @returns The first matching value or `undefined` if none matches.
+   * @template T - Class instance type.
+   */
+  public find<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, index: number) => boolean,
+  ): V | undefined {
+    for (const [index, value] of this.entries(arg)) {
+      if (predicate(value, index)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Select the values of the metadata array of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value and its index.
+   * @returns A new array of the matching values.
+   * @template T - Class instance type.
+   */
+  public filter<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, index: number) => boolean,
+  ): V[] {
+    return this.toArray(arg).filter((value, index) => predicate(value, index));
+  }
+  /**
+   * Check if any value of the metadata array of a class or an instance
+   * constructor matches a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value and its index.
+   * @returns `true` if a value matches, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public some<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, index: number) => boolean,
+  ): boolean {
+    for (const [index, value] of this.entries(arg)) {
+      if (predicate(value, index)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  /**
+   * Create a decorator adding values to the metadata array of the class. The
+   * decorator can decorate the class itself or any of its members and works
+   * both as a legacy and as a standard decorator.
+   *
+   * @param values - Metadata values to add.
+   * @returns Decorator exposing this metadata as `metadata` property.
+   */
+  public decorator(
+    ...values: V[]
+  ): MetadataDecorator<this, ClassOrMemberMetadataDecorator> {
+    return this.createDecorator(({ target }) => this.add(target, ...values));
+  }
+
+  protected createCollection(): V[] {
+    return [];
+  }
+
+  protected removeEntries(collection: V[], values: Set<V>): V[] {
+    return collection.filter((value) => !values.has(value));
+  }
+
+  protected appendEntries(collection: V[], entries: V[]): V[] {
+    return collection.concat(entries);
+  }
+
+  protected createReadonlyView(collection: V[]): V[] {
+    return Object.freeze([...collection]) as V[];
+  }
+
+  protected get isKeyed(): boolean {
+    return false;
+  }
+
+  protected *iterateCollection(collection: V[]): Iterable<[V, V]> {
+    for (const value of collection) {
+      yield [value, value];
+    }
+  }
+
+  protected findEntry(collection: V[], value: V): [V] | undefined {
+    return collection.includes(value) ? [value] : undefined;
+  }
+
+  protected forEachEntry(
+    collection: V[],
+    callback: (entry: V, key: unknown) => void,
+  ): void {
+    collection.forEach((value, index) => callback(value, index));
+  }
+  /**
+   * Replace the metadata array of a class.
+   *
+   * @returns The previous array if the helper is observed.
+   */
+  private replace(arg: object, value: V[]): V[] | undefined {
+    this.assertNotSealed(arg);
+    this.validateEntries(arg, value);
+
+    const previousValue = this.isObserved ? this.get(arg) : undefined;
+
+    if (this.isLive) {
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries = [...value];
+      layer.tombstones.clear();
+      layer.detached = true;
+    } else {
+      this.writeValue(arg, value);
+    }
+    return previousValue;
+  }
+  /**
+   * Check the values being added at the end of an array of the given size.
+   */
+  private validateAdded(arg: object, values: V[], size: number): void {
+    values.forEach((value, index) =>
+      this.validateValue(arg, value, size + index),
+    );
   }
 }
@@ -0,0 +1,720 @@
+import { AbstractConstructor, DistributedOmit } from 'type-fest';
+import { MetadataDecoration, MetadataDecorator } from './metadata-decorator';
+import {
+  MetadataEvent,
+  MetadataListener,
+  MetadataSubscribeOptions,
+} from './metadata-event';
+import { inheritValue, MetadataInheritance } from './metadata-inheritance';
+import { detectMetadataKeyConflict } from './metadata-key-conflict';
+import { isMetadataLocked } from './metadata-lock';
+import {
+  getDefaultMetadataRegistry,
+  MetadataKind,
+  MetadataRegistry,
+} from './metadata-registry';
+import { MetadataSealedError } from './metadata-sealed-error';
+import { findMetadataOverride, MetadataScope } from './metadata-scope';
+import { getDefaultMetadataStorage, MetadataStorage } from './metadata-storage';
+import {
+  findDecoratedClass,
+  getMetadataChain,
+  getMetadataLevelOwner,
+  isClassInstance,
+  isDecoratorContext,
+  isDecoratorMetadataObject,
+  MetadataTarget,
+} from './metadata-target';
+import { MetadataValidationError } from './metadata-validation-error';
+import { MetadataValidator, validateMetadataValue } from './metadata-validator';
+import { WeakMapStorage } from './weak-map-storage';
+import { WeakTargetSet } from './weak-target-set';
+
+/**
+ * What an instance of a class addresses (see the `target` option).
+ */
+export type MetadataTargetMode = 'class' | 'instance';
+/**
+ * Options shared by all metadata helpers.
+ *
+ * @template V - Type of the value stored on a single class.
+ * @template E - Type of a single metadata value (an entry of a collection).
+ */
+export interface MetadataOptions<V = unknown, E = V> {
+  /**
+   * Storage backend to persist the metadata in. If omitted, the process wide
+   * default storage is used (see `setDefaultMetadataStorage`).
+   */
+  storage?: MetadataStorage;
+  /**
+   * Strategy of combining the metadata inherited from parent classes with
+   * the own metadata of a class. Supported by `Metadata`, `MapMetadata`,
+   * `SetMetadata` and `ArrayMetadata`. If omitted, `Metadata` returns the
+   * nearest value (shared with the parent class) and the collection helpers
+   * inherit a shallow copy of the parent collection. The collection helpers
+   * accept the merging strategies in the live mode only.
+   */
+  inherit?: MetadataInheritance<V>;
+  /**
+   * Validator of the metadata values: a predicate, an assertion function or
+   * a Standard Schema compatible validator. It runs on every written value
+   * (each entry of a collection) and on the values a class inherits as
+   * a copy. An invalid value throws a `MetadataValidationError`.
+   */
+  validate?: MetadataValidator<E>;
+  /**
+   * What an instance of a class addresses. Supported by `Metadata`,
+   * `MapMetadata`, `SetMetadata` and `ArrayMetadata`.
+   *
+   * - `'class'` - the class of the instance (the default),
+   * - `'instance'` - the instance itself. The metadata of an instance is held
+   *   weakly, apart from the storage backend, and reads fall back to the
+   *   metadata of its class. Classes still address the class-level metadata.
+   */
+  target?: MetadataTargetMode;
+  /**
+   * Create the key with `Symbol.for`, so it is shared by all copies of the
+   * library defining the metadata loaded in the process (e.g. its ESM and CJS
+   * builds). A global key has to be namespaced, e.g. `'org.pkg:key'`.
+   */
+  global?: boolean;
+  /**
+   * Registry to register the metadata helper into. If omitted, the process
+   * wide default registry is used (see `setDefaultMetadataRegistry`), if any.
+   */
+  registry?: MetadataRegistry;
+  /**
+   * Name of the package owning the metadata, recorded in the registry.
+   */
+  package?: string;
+}
+/**
+ * Options of the class discovery.
+ */
+export interface DiscoveryOptions {
+  /**
+   * Include subclasses which do not have an own value and only inherit it.
+   * Such subclasses are found among the classes carrying any metadata of any
+   * helper.
+   */
+  inherited?: boolean;
+}
+/**
+ * Metadata defined by a single class of an inheritance chain, as listed by
+ * `getChain`.
+ *
+ * @template V - Type of the value.
+ */
+export interface MetadataChainEntry<V> {
+  /**
+   * The class defining the metadata. It is the decorator metadata object if
+   * the class is not known and the instance itself in the instance target
+   * mode.
+   */
+  ctor: object;
+  /**
+   * Own value of the class.
+   */
+  value: V;
+}
+/**
+ * Listener subscribed to a metadata helper.
+ */
+interface MetadataSubscription<S, E> {
+  /**
+   * Objects of the class level the listener is limited to, if any.
+   */
+  holders: object[] | undefined;
+  listener: MetadataListener<S, E>;
+}
+/**
+ * All classes any metadata helper has written to.
+ */
+const knownClasses = new WeakTargetSet<AbstractConstructor<unknown>>();
+/**
+ * Storage of the metadata of instances in the instance target mode.
+ */
+const instanceStorage = new WeakMapStorage();
+
+/**
+ * Create a global metadata key.
+ *
+ * @throws {TypeError} If the key is not namespaced.
+ */
+function createGlobalKey(key: string): symbol {
+  if (!/^[^:\s]+:\S/.test(key)) {
+    throw new TypeError(
+      `Global metadata key "${key}" has to be namespaced, e.g. "org.pkg:key".`,
+    );
+  }
+  return Symbol.for(key);
+}
+
+/**
+ * Common base of all metadata helpers. It owns the unique metadata key and
+ * the storage backend and resolves metadata targets to the objects the
+ * metadata is stored on.
+ *
+ * @template S - Type of the value stored on a single class.
+ * @template E - Type of a single metadata value (an entry of a collection).
+ */
+export abstract class BaseMetadata<S, E = S> {
+  /**
+   * Unique symbol used to store metadata on a class.
+   */
+  public readonly metadataKey: symbol;
+  /**
+   * Kind of the metadata helper.
+   */
+  public abstract readonly kind: MetadataKind;
+  /**
+   * Options the metadata helper was created with.
+   */
+  protected readonly options: MetadataOptions<S, E>;
+  /**
+   * Classes this helper has written to.
+   */
+  private readonly targets = new WeakTargetSet<AbstractConstructor<unknown>>();
+  /**
+   * Classes (and their decorator metadata objects) sealed by `seal`.
+   */
+  private readonly sealed = new WeakSet<object>();
+  /**
+   * Classes (and their decorator metadata objects) hiding the metadata of
+   * their parents.
+   */
+  private readonly masked = new WeakSet<object>();
+  /**
+   * `true` if the metadata of all classes is sealed by `sealAll`.
+   */
+  private sealedAll = false;
+  /**
+   * Listeners of the metadata changes.
+   */
+  private readonly subscriptions = new Set<MetadataSubscription<S, E>>();
+  /**
+   * Creates a metadata with a unique symbol key and exposes methods to
+   * interact with the metadata on a class or an instance.
+   *
+   * @param key - Metadata key used to store the metadata on a class.
+   *    If a string is passed, it will be converted to a symbol.
+   * @param options - Metadata options.
+   */
+  constructor(key: string | symbol, options: MetadataOptions<S, E> = {}) {
+    this.metadataKey =
+      typeof key === 'symbol'
+        ? key
+        : options.global
+          ? createGlobalKey(key)
+          : Symbol(key);
+    this.options = options;
+    (options.registry ?? getDefaultMetadataRegistry())?.register(
+      this,
+      options.package,
+    );
+  }
+  /**
+   * Storage backend the metadata is persisted in.
+   */
+  public get storage(): MetadataStorage {
+    return this.options.storage ?? getDefaultMetadataStorage();
+  }
+  /**
+   * List the classes carrying the metadata. The classes are held weakly, so
+   * listing them does not prevent them from being garbage collected.
+   *
+   * Classes decorated with standard decorators are listed once their
+   * decorator initializers run: a class decorated on the class itself or on
+   * a static member right after its definition, a class decorated on an
+   * instance member when its first instance is created.
+   *
+   * @param options - Discovery options.
+   * @returns Classes with an own value, in the order they were written to.
+   */
+  public getTargets(
+    options: DiscoveryOptions = {},
+  ): AbstractConstructor<unknown>[] {
+    const candidates = options.inherited
+      ? knownClasses.values()
+      : this.targets.values();
+
+    return candidates.filter((target) => {
+      const levels = this.resolveChain(target);
+
+      return (
+        this.findHolder(options.inherited ? levels : [levels[0]]) !== undefined
+      );
+    });
+  }
+  /**
+   * Find the classes carrying the metadata which match a predicate.
+   *
+   * @param predicate - Function selecting the classes. If omitted, all the
+   *  classes carrying the metadata are returned.
+   * @param options - Discovery options.
+   * @returns Matching classes (see `getTargets`).
+   */
+  public discover(
+    predicate: (target: AbstractConstructor<unknown>) => boolean = () => true,
+    options: DiscoveryOptions = {},
+  ): AbstractConstructor<unknown>[] {
+    return this.getTargets(options).filter(predicate);
+  }
+  /**
+   * Seal the metadata of a class. Sealed metadata can be read, but any
+   * attempt to modify it throws a `MetadataSealedError` and the collection
+   * helpers return read-only views of their collections. Subclasses are not
+   * sealed and can still define their own metadata.
+   *
+   * @param arg - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @template T - Class instance type.
+   */
+  public seal<T extends object>(arg: MetadataTarget<T>): void {
+    this.resolveChain(arg)[0].forEach((holder) => this.sealed.add(holder));
+  }
+  /**
+   * Seal the metadata of all classes, including the classes defined later.
+   * To lock the metadata of all helpers at once, use `setMetadataLocked`.
+   * The metadata of instances in the instance target mode is not sealed, as
+   * it changes at runtime (use `seal` with an instance instead).
+   */
+  public sealAll(): void {
+    this.sealedAll = true;
+  }
+  /**
+   * Check if the metadata of a class is sealed, either by `seal`, `sealAll`
+   * or the global lock (see `setMetadataLocked`). In the instance target
+   * mode, the metadata of an instance is sealed by `seal` only.
+   *
+   * @param arg - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @returns `true` if the metadata is sealed, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public isSealed<T extends object>(arg: MetadataTarget<T>): boolean {
+    const [ownLevel] = this.resolveChain(arg);
+
+    if (ownLevel.some((holder) => this.sealed.has(holder))) {
+      return true;
+    }
+    return (
+      !ownLevel.some((holder) => isClassInstance(holder)) &&
+      (this.sealedAll || isMetadataLocked())
+    );
+  }
+  /**
+   * Listen to the changes of the metadata of all classes. The listener is
+   * called synchronously after every change.
+   *
+   * @param listener - Listener of the changes.
+   * @param options - Subscription options.
+   * @returns Function ending the subscription.
+   */
+  public subscribe(
+    listener: MetadataListener<S, E>,
+    options?: MetadataSubscribeOptions,
+  ): () => void;
+  /**
+   * Listen to the changes of the metadata of a single class. Changes of its
+   * parent classes and subclasses are not reported.
+   *
+   * @param target - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @param listener - Listener of the changes.
+   * @param options - Subscription options.
+   * @returns Function ending the subscription.
+   * @template T - Class instance type.
+   */
+  public subscribe<T extends object>(
+    target: MetadataTarget<T>,
+    listener: MetadataListener<S, E>,
+    options?: MetadataSubscribeOptions,
+  ): () => void;
+  public subscribe(
+    targetOrListener: object,
+    listenerOrOptions?: MetadataListener<S, E> | MetadataSubscribeOptions,
+    options: MetadataSubscribeOptions = {},
+  ): () => void {
+    const subscription: MetadataSubscription<S, E> =
+      typeof listenerOrOptions === 'function'
+        ? {
+            holders: this.resolveChain(targetOrListener)[0],
+            listener: listenerOrOptions,
+          }
+        : {
+            holders: undefined,
+            listener: targetOrListener as MetadataListener<S, E>,
+          };
+    const { signal } =
+      typeof listenerOrOptions === 'function'
+        ? options
+        : listenerOrOptions ?? {};
+    const unsubscribe = (): void => {
+      this.subscriptions.delete(subscription);
+      signal?.removeEventListener('abort', unsubscribe);
+    };
+
+    if (!signal?.aborted) {
+      this.subscriptions.add(subscription);
+      signal?.addEventListener('abort', unsubscribe);
+    }
+    return unsubscribe;
+  }
+  /**
+   * Run a callback with the metadata of a class overridden. Inside the
+   * callback (and its async continuations, see `MetadataScope`) the helper
+   * reads the given value instead of the value stored on the class, the
+   * class itself is not modified.
+   *
+   * @param target - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @param value - Value the helper reads for the class inside the callback.
+   * @param callback - Callback to run.
+   * @returns Result of the callback.
+   * @template T - Class instance type.
+   * @template R - Type of the result.
+   */
+  public withOverride<T extends object, R>(
+    target: MetadataTarget<T>,
+    value: S,
+    callback: () => R,
+  ): R {
+    return new MetadataScope().override(this, target, value).run(callback);
+  }
+  /**
+   * Resolve a metadata target to its inheritance chain (see
+   * `getMetadataChain`). In the instance target mode, an instance gets its
+   * own level in front of the chain of its class.
+   *
+   * @param arg - Metadata target.
+   * @returns Levels of the inheritance chain.
+   */
+  protected resolveChain(arg: object): object[][] {
+    const levels = getMetadataChain(arg);
+
+    return this.options.target === 'instance' && isClassInstance(arg)
+      ? [[arg], ...levels]
+      : levels;
+  }
+  /**
+   * List the levels of the inheritance chain of a target which hold the
+   * metadata, starting with the target itself and ending with the first
+   * masked level.
+   *
+   * @param arg - Metadata target.
+   * @returns Levels holding the metadata.
+   */
+  protected findLevels(arg: object): object[][] {
+    const levels: object[][] = [];
+
+    for (const level of this.resolveChain(arg)) {
+      if (this.findHolder([level]) !== undefined) {
+        levels.push(level);
+      } else if (this.isLevelMasked(level)) {
+        break;
+      }
+    }
+    return levels;
+  }
+  /**
+   * Find the first object in the given chain levels owning the metadata. The
+   * lookup stops at the first masked level.
+   *
+   * @param levels - Levels of an inheritance chain (or a part of it).
+   * @returns The object owning the metadata or `undefined` if none does.
+   */
+  protected findHolder(levels: object[][]): object | undefined {
+    for (const level of levels) {
+      for (const holder of level) {
+        if (
+          this.readOverride(holder) !== undefined ||
+          this.getStorage(holder).has(holder, this.metadataKey)
+        ) {
+          return holder;
+        }
+      }
+      if (this.isLevelMasked(level)) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Check if a chain level hides the metadata of its parents. A masked level
+   * stops the lookup of the metadata through the inheritance chain.
+   *
+   * @param level - Level of an inheritance chain.
+   * @returns `true` if the level is masked, `false` otherwise.
+   */
+  protected isLevelMasked(level: object[]): boolean {
+    return level.some((holder) => this.masked.has(holder));
+  }
+  /**
+   * Mask or unmask the own level of the target class.
+   *
+   * @param arg - Metadata target.
+   * @param masked - `true` to mask the level, `false` to unmask it.
+   * @returns `true` if the level has changed, `false` otherwise.
+   */
+  protected setLevelMasked(arg: object, masked: boolean): boolean {
+    const [ownLevel] = this.resolveChain(arg);
+
+    if (this.isLevelMasked(ownLevel) === masked) {
+      return false;
+    }
+    ownLevel.forEach((holder) =>
+      masked ? this.masked.add(holder) : this.masked.delete(holder),
+    );
+    return true;
+  }
+  /**
+   * Read the value stored by the nearest holder in the given chain levels.
+   *
+   * @param levels - Levels of an inheritance chain (or a part of it).
+   * @returns Stored value or `undefined` if no level holds any.
+   */
+  protected readValue(levels: object[][]): S | undefined {
+    const holder = this.findHolder(levels);
+
+    return holder
+      ? this.readOverride(holder) ??
+          this.getStorage(holder).get<S>(holder, this.metadataKey)
+      : undefined;
+  }
+  /**
+   * Read the value of a holder overridden by the active metadata scopes.
+   *
+   * @param holder - Object the metadata is stored on.
+   * @returns Overridden value or `undefined` if it is not overridden.
+   */
+  protected readOverride(holder: object): S | undefined {
+    // Scopes override the class-level metadata only.
+    return isClassInstance(holder)
+      ? undefined
+      : findMetadataOverride(this, holder);
+  }
+  /**
+   * Resolve the value of the given chain levels with the `inherit` strategy,
+   * from the root class down to the first level. Nothing is persisted.
+   *
+   * @param levels - Levels of an inheritance chain (or a part of it).
+   * @param inheritance - Inheritance strategy.
+   * @returns Resolved value or `undefined` if there is none.
+   */
+  protected resolveValue(
+    levels: object[][],
+    inheritance: MetadataInheritance<S>,
+  ): S | undefined {
+    return [...levels].reverse().reduce<S | undefined>((parentValue, level) => {
+      const ownValue = this.readValue([level]);
+
+      if (ownValue === undefined && this.isLevelMasked(level)) {
+        return undefined;
+      }
+      return parentValue === undefined && ownValue === undefined
+        ? undefined
+        : inheritValue(
+            inheritance,
+            parentValue,
+            ownValue,
+            getMetadataLevelOwner(level),
+          );
+    }, undefined);
+  }
+  /**
+   * Store a value on the target class.
+   *
+   * @param arg - Metadata target.
+   * @param value - Value to store.
+   */
+  protected writeValue(arg: object, value: S): void {
+    this.assertNotSealed(arg);
+
+    const [holder] = this.resolveChain(arg)[0];
+
+    this.getStorage(holder).set(holder, this.metadataKey, value);
+    if (!isClassInstance(holder)) {
+      this.trackTarget(arg);
+    }
+    detectMetadataKeyConflict(
+      holder,
+      this.metadataKey,
+      getMetadataLevelOwner(this.resolveChain(arg)[0]),
+    );
+  }
+  /**
+   * `true` if any listener is subscribed to the metadata changes. Previous
+   * values of an event should be computed only when the helper is observed.
+   */
+  protected get isObserved(): boolean {
+    return this.subscriptions.size > 0;
+  }
+  /**
+   * Notify the listeners of the target class about a change.
+   *
+   * @param arg - Metadata target which was changed.
+   * @param event - The change, without its target class.
+   */
+  protected emit(
+    arg: object,
+    event: DistributedOmit<MetadataEvent<S, E>, 'target'>,
+  ): void {
+    if (!this.isObserved) {
+      return;
+    }
+    const [ownLevel] = this.resolveChain(arg);
+    const targetEvent = {
+      ...event,
+      target: getMetadataLevelOwner(ownLevel),
+    } as MetadataEvent<S, E>;
+
+    [...this.subscriptions].forEach(({ holders, listener }) => {
+      if (!holders || holders.some((holder) => ownLevel.includes(holder))) {
+        listener(targetEvent);
+      }
+    });
+  }
+  /**
+   * Make sure the metadata of the target class can be modified.
+   *
+   * @param arg - Metadata target.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  protected assertNotSealed(arg: object): void {
+    if (this.isSealed(arg)) {
+      throw new MetadataSealedError(
+        getMetadataLevelOwner(this.resolveChain(arg)[0]),
+        this.metadataKey.description ?? '',
+      );
+    }
+  }
+  /**
+   * Check a single metadata value with the `validate` option, if any.
+   *
+   * @param arg - Metadata target the value belongs to.
+   * @param value - Value to check.
+   * @param key - Key of the value within the metadata, if any.
+   * @throws {MetadataValidationError} If the value is invalid.
+   */
+  protected validateValue(arg: object, value: E, key?: unknown): void {
+    if (this.options.validate === undefined) {
+      return;
+    }
+    const { issues, cause } = validateMetadataValue(
+      this.options.validate,
+      value,
+    );
+
+    if (issues.length > 0) {
+      throw new MetadataValidationError({
+        target: getMetadataLevelOwner(this.resolveChain(arg)[0]),
+        description: this.metadataKey.description ?? '',
+        key,
+        value,
+        issues,
+        cause,
+      });
+    }
+  }
+  /**
+   * Delete the value stored on the target class itself.
+   *
+   * @param arg - Metadata target.
+   * @returns `true` if a value was deleted, `false` otherwise.
+   */
+  protected deleteOwnValue(arg: object): boolean {
+    this.assertNotSealed(arg);
+
+    const [ownLevel] = this.resolveChain(arg);
+    const holder = this.findHolder([ownLevel]);
+
+    return holder
+      ? this.getStorage(holder).delete(holder, this.metadataKey)
+      : false;
+  }
+  /**
+   * Create a decorator writing the metadata of the decorated element. The
+   * decorator accepts the arguments of both legacy and standard decorators
+   * and exposes this helper as its `metadata` property.
+   *
+   * @param apply - Callback writing the metadata of the decorated element.
+   * @returns Decorator bound to this helper.
+   * @template D - Type of the decorator function.
+   */
+  protected createDecorator<D>(
+    apply: (decoration: MetadataDecoration) => void,
+  ): MetadataDecorator<this, D> {
+    const decorator = (value: unknown, keyOrContext?: unknown): void =>
+      apply(this.resolveDecoration(value, keyOrContext));
+
+    return Object.defineProperty(decorator, 'metadata', {
+      value: this,
+    }) as unknown as MetadataDecorator<this, D>;
+  }
+  /**
+   * Resolve the decorated element from the decorator arguments. Standard
+   * decorators write to their context, except for class decorators running
+   * without `Symbol.metadata` support which write to the class itself.
+   */
+  private resolveDecoration(
+    value: unknown,
+    keyOrContext: unknown,
+  ): MetadataDecoration {
+    if (!isDecoratorContext(keyOrContext)) {
+      return {
+        target: value as object,
+        propertyKey: keyOrContext as PropertyKey | undefined,
+        value,
+      };
+    } else if (keyOrContext.kind === 'class') {
+      return {
+        target: keyOrContext.metadata ? keyOrContext : (value as object),
+        propertyKey: undefined,
+        value,
+      };
+    }
+    return { target: keyOrContext, propertyKey: keyOrContext.name, value };
+  }
+  /**
+   * Get the storage of a holder. Instances in the instance target mode are
+   * kept apart from the storage backend, so they are always held weakly.
+   */
+  private getStorage(holder: object): MetadataStorage {
+    return isClassInstance(holder) ? instanceStorage : this.storage;
+  }
+  /**
+   * Remember the class written to for the class discovery. A standard
+   * decorator context does not expose its class, so it is captured by
+   * a decorator initializer.
+   */
+  private trackTarget(arg: object): void {
+    const track = (target: AbstractConstructor<unknown>): void => {
+      this.targets.add(target);
+      knownClasses.add(target);
+    };
+
+    if (isDecoratorContext(arg)) {
+      try {
+        arg.addInitializer(function (this: unknown) {
+          // eslint-disable-next-line @typescript-eslint/ban-types
+          const ctor: Function =
+            this instanceof Function ? this : (this as object).constructor;
+
+          track(
+            ((arg.metadata && findDecoratedClass(ctor, arg.metadata)) ??
+              ctor) as AbstractConstructor<unknown>,
+          );
+        });
+      } catch {
+        // The decoration has already finished, the class can not be captured.
+      }
+    } else if (!isDecoratorMetadataObject(arg)) {
+      track(
+        (arg instanceof Function
+          ? arg
+          : arg.constructor) as AbstractConstructor<unknown>,
+      );
+    }
+  }
+}
@@ -0,0 +1,588 @@
+import {
+  BaseMetadata,
+  MetadataChainEntry,
+  MetadataOptions,
+} from './base-metadata';
+import { inheritValue, MetadataInheritance } from './metadata-inheritance';
+import { getMetadataLevelOwner, MetadataTarget } from './metadata-target';
+
+/**
+ * How a collection helper resolves the metadata inherited from parent
+ * classes:
+ *
+ * - `'snapshot'` - the parent collection is copied to the class the first
+ *   time the class metadata is accessed. Later changes of the parent are not
+ *   visible to the class.
+ * - `'live'` - reads resolve through the inheritance chain every time. Only
+ *   writes store an own layer of changes on the class, reads never persist
+ *   anything.
+ */
+export type InheritanceResolution = 'snapshot' | 'live';
+/**
+ * Options of the collection helpers (`MapMetadata`, `SetMetadata` and
+ * `ArrayMetadata`).
+ *
+ * @template C - Type of the collection.
+ * @template E - Type of the collection entries.
+ */
+export interface CollectionMetadataOptions<C, E = unknown>
+  extends MetadataOptions<C, E> {
+  /**
+   * Inheritance resolution mode. Defaults to `'snapshot'`.
+   */
+  resolution?: InheritanceResolution;
+}
+/**
+ * Own changes of a single class stored in the live inheritance mode.
+ *
+ * @template C - Type of the collection.
+ * @template K - Type of the collection keys (values for sets and arrays).
+ */
+export interface MetadataLayer<C, K> {
+  /**
+   * Entries added or overridden by the class.
+   */
+  entries: C;
+  /**
+   * Inherited entries removed by the class.
+   */
+  tombstones: Set<K>;
+  /**
+   * `true` if the class does not inherit any entry of its parents.
+   */
+  detached: boolean;
+}
+/**
+ * Check if an inheritance strategy copies the inherited collection, as
+ * opposed to merging it with the own entries of a class.
+ */
+function isCopyInheritance<C>(
+  inheritance: MetadataInheritance<C>,
+): inheritance is 'none' | 'shallow-copy' | 'deep-clone' {
+  return (
+    inheritance === 'none' ||
+    inheritance === 'shallow-copy' ||
+    inheritance === 'deep-clone'
+  );
+}
+
+/**
+ * Common base of the metadata helpers storing a collection per class. In the
+ * snapshot mode a plain collection is stored on each class, in the live mode
+ * a `MetadataLayer` of own changes.
+ *
+ * @template C - Type of the collection.
+ * @template K - Type of the collection keys (values for sets and arrays).
+ * @template E - Type of the collection entries.
+ */
+export abstract class CollectionMetadata<C, K, E = K> extends BaseMetadata<
+  C,
+  E
+> {
+  /**
+   * Inheritance resolution mode of the helper.
+   */
+  public readonly resolution: InheritanceResolution;
+  /**
+   * Creates a collection metadata helper.
+   *
+   * @param key - Metadata key used to store the metadata on a class.
+   *    If a string is passed, it will be converted to a symbol.
+   * @param options - Metadata options.
+   * @throws {TypeError} If a merging `inherit` strategy (`'child-first'`,
+   *  `'parent-first'`, `'deep-merge'` or a custom merger) is used without
+   *  the live resolution. The snapshot mode copies the parent collection
+   *  once, so it can not merge the entries written later.
+   */
+  constructor(
+    key: string | symbol,
+    options: CollectionMetadataOptions<C, E> = {},
+  ) {
+    const resolution = options.resolution ?? 'snapshot';
+    const inheritance = options.inherit ?? 'shallow-copy';
+
+    if (resolution !== 'live' && !isCopyInheritance(inheritance)) {
+      throw new TypeError(
+        `Inheritance strategy "${
+          typeof inheritance === 'function' ? 'custom merger' : inheritance
+        }" of "${
+          typeof key === 'symbol' ? key.description : key
+        }" requires the live resolution.`,
+      );
+    }
+    super(key, options);
+    this.resolution = resolution;
+  }
+  /**
+   * Get a copy of the collection stored on the class itself, ignoring the
+   * parent classes. In the snapshot mode it includes the entries copied from
+   * the parents, in the live mode it contains the own entries of the class
+   * only.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Own collection or `undefined` if the class does not define any.
+   * @template T - Class instance type.
+   */
+  public getOwn<T extends object>(arg: MetadataTarget<T>): C | undefined {
+    const [ownLevel] = this.resolveChain(arg);
+
+    return this.hasOwn(arg) ? this.readOwnCollection(ownLevel) : undefined;
+  }
+  /**
+   * Check if the collection is stored on the class itself, ignoring the
+   * parent classes. In the snapshot mode, any access to the collection of
+   * a class stores a copy of the inherited collection on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns `true` if the class defines own collection, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public hasOwn<T extends object>(arg: MetadataTarget<T>): boolean {
+    const [ownLevel] = this.resolveChain(arg);
+
+    return this.findHolder([ownLevel]) !== undefined;
+  }
+  /**
+   * Find the class supplying the collection, i.e. the class itself or its
+   * nearest ancestor defining the collection.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns The class defining the collection (see `MetadataChainEntry`) or
+   *  `undefined` if no class of the chain defines any.
+   * @template T - Class instance type.
+   */
+  public getOrigin<T extends object>(
+    arg: MetadataTarget<T>,
+  ): object | undefined {
+    const [level] = this.findLevels(arg);
+
+    return level ? getMetadataLevelOwner(level) : undefined;
+  }
+  /**
+   * List copies of the own collections of the class and all its ancestors
+   * defining the collection, starting with the class itself (see `getOwn`).
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Classes defining the collection with their own collections.
+   * @template T - Class instance type.
+   */
+  public getChain<T extends object>(
+    arg: MetadataTarget<T>,
+  ): MetadataChainEntry<C>[] {
+    return this.findLevels(arg).map((level) => ({
+      ctor: getMetadataLevelOwner(level),
+      value: this.readOwnCollection(level),
+    }));
+  }
+  /**
+   * `true` if the helper resolves inherited metadata live.
+   */
+  protected get isLive(): boolean {
+    return this.resolution === 'live';
+  }
+  /**
+   * `true` if a key identifies a single entry of the collection, so an own
+   * entry overrides the inherited entry of the same key (maps and sets).
+   */
+  protected get isKeyed(): boolean {
+    return true;
+  }
+  /**
+   * Create an empty collection.
+   */
+  protected abstract createCollection(): C;
+  /**
+   * Remove entries from a collection.
+   *
+   * @param collection - Collection to remove the entries from. It is a fresh
+   *  collection and can be modified.
+   * @param keys - Keys (or values) of the entries to remove.
+   * @returns The collection without the entries.
+   */
+  protected abstract removeEntries(collection: C, keys: Set<K>): C;
+  /**
+   * Append own entries of a class to an inherited collection. Own entries
+   * override inherited ones.
+   *
+   * @param collection - Inherited collection. It is a fresh collection and can
+   *  be modified.
+   * @param entries - Own entries of a class.
+   * @returns The collection with the own entries.
+   */
+  protected abstract appendEntries(collection: C, entries: C): C;
+  /**
+   * Create a read-only view of a collection returned for sealed metadata.
+   *
+   * @param collection - Collection to wrap.
+   * @returns A collection which throws on any modification.
+   */
+  protected abstract createReadonlyView(collection: C): C;
+  /**
+   * Call a callback for every entry of a collection.
+   *
+   * @param collection - Collection to iterate.
+   * @param callback - Callback receiving the entry and its key (the map key
+   *  or the array index, `undefined` for sets).
+   */
+  protected abstract forEachEntry(
+    collection: C,
+    callback: (entry: E, key: unknown) => void,
+  ): void;
+  /**
+   * Iterate the entries of a collection with their keys (the map keys, the
+   * values for sets and arrays).
+   *
+   * @param collection - Collection to iterate.
+   * @returns Iterable of the `[key, entry]` pairs.
+   */
+  protected abstract iterateCollection(collection: C): Iterable<[K, E]>;
+  /**
+   * Find the entry stored under a key of a keyed collection.
+   *
+   * @param collection - Collection to search.
+   * @param key - Key of the entry.
+   * @returns The entry wrapped in a tuple or `undefined` if there is none.
+   */
+  protected abstract findEntry(collection: C, key: K): [E] | undefined;
+  /**
+   * Lazily walk the entries of the target class, own and inherited, in the
+   * order of the resolved collection. The stored collections (the layers in
+   * the live mode) are read one entry at a time, nothing is copied and nothing
+   * is stored on the class. The `'deep-clone'` and the merging `inherit`
+   * strategies can not be resolved per entry, so the collection is resolved
+   * first for them (as well as for an inherited snapshot with the `validate`
+   * option, which checks all inherited entries).
+   *
+   * @param arg - Metadata target.
+   * @returns Generator of the `[key, entry]` pairs.
+   */
+  protected *walkEntries(arg: object): Generator<[K, E], void, undefined> {
+    const inheritance = this.options.inherit ?? 'shallow-copy';
+    const [ownLevel, ...parentLevels] = this.resolveChain(arg);
+
+    if (inheritance !== 'shallow-copy' && inheritance !== 'none') {
+      yield* this.iterateCollection(this.peekCollection(arg));
+    } else if (!this.isLive) {
+      if (this.findHolder([ownLevel])) {
+        yield* this.iterateCollection(this.readValue([ownLevel]) as C);
+      } else if (this.options.validate !== undefined) {
+        yield* this.iterateCollection(this.peekCollection(arg));
+      } else if (inheritance === 'shallow-copy') {
+        yield* this.iterateCollection(
+          this.readValue(parentLevels) ?? this.createCollection(),
+        );
+      }
+    } else if (inheritance === 'none') {
+      yield* this.iterateCollection(
+        this.readLayer([ownLevel])?.entries ?? this.createCollection(),
+      );
+    } else {
+      yield* this.walkLayers(
+        [ownLevel, ...parentLevels].map((level) => this.readLayer([level])),
+      );
+    }
+  }
+  /**
+   * Create the own collection of a class in the snapshot mode from the
+   * collection of its parent, according to the `inherit` option. The
+   * inherited entries are checked with the `validate` option.
+   *
+   * @param parentCollection - Collection of the parent class or `undefined`.
+   * @param ownLevel - Chain level of the class.
+   * @returns A new collection to store on the class.
+   */
+  protected inheritCollection(
+    parentCollection: C | undefined,
+    ownLevel: object[],
+  ): C {
+    const owner = getMetadataLevelOwner(ownLevel);
+    const inherited =
+      parentCollection === undefined
+        ? undefined
+        : inheritValue(
+            this.options.inherit ?? 'shallow-copy',
+            parentCollection,
+            undefined,
+            owner,
+          );
+
+    if (inherited === undefined) {
+      return this.createCollection();
+    }
+    this.validateEntries(owner, inherited);
+
+    return inherited;
+  }
+  /**
+   * Check every entry of a collection with the `validate` option, if any.
+   *
+   * @param arg - Metadata target the collection belongs to.
+   * @param collection - Collection to check.
+   * @throws {MetadataValidationError} If an entry is invalid.
+   */
+  protected validateEntries(arg: object, collection: C): void {
+    if (this.options.validate !== undefined) {
+      this.forEachEntry(collection, (entry, key) =>
+        this.validateValue(arg, entry, key),
+      );
+    }
+  }
+  /**
+   * Initialize the own collection of the target class (see the `init` method
+   * of the collection helpers) and emit an `'init'` event.
+   *
+   * @param arg - Metadata target.
+   * @returns The initialized collection.
+   */
+  protected initCollection(arg: object): C {
+    const [ownLevel, ...parentLevels] = this.resolveChain(arg);
+
+    if (this.isLive) {
+      this.getOwnLayer(arg);
+
+      return this.resolveLayers([ownLevel, ...parentLevels]);
+    }
+    // There are metadata already defined somewhere on the prototype chain.
+    // We will copy them to the new array and will disconnect the reference
+    // to the parent array. This way we will not accidentally modify the parent
+    // array when adding a new value to the metadata array. Later modification
+    // of the parent array will not affect the new array. The `inherit` option
+    // decides how the parent metadata are copied.
+    const previousValue = this.readValue([ownLevel]);
+    const parentMetadata =
+      previousValue === undefined ? this.readValue(parentLevels) : undefined;
+    const metadata = this.inheritCollection(parentMetadata, ownLevel);
+
+    this.writeValue(arg, metadata);
+    this.emit(arg, {
+      type: 'init',
+      key: undefined,
+      value: metadata,
+      previousValue,
+    });
+    return metadata;
+  }
+  /**
+   * Get the collection of the target class as returned by the collection
+   * getters. In the live mode it is resolved through the inheritance chain,
+   * in the snapshot mode the own collection is initialized with `init` if it
+   * does not exist yet. Sealed metadata is never initialized, a read-only
+   * view is returned instead.
+   *
+   * @param arg - Metadata target.
+   * @param init - Callback initializing the own collection of the class.
+   * @returns Collection of the target class.
+   */
+  protected readCollection(arg: object, init: () => C): C {
+    const [ownLevel] = this.resolveChain(arg);
+    const sealed = this.isSealed(arg);
+
+    if (!this.isLive && !sealed && !this.findHolder([ownLevel])) {
+      return init();
+    }
+    const collection = this.peekCollection(arg);
+
+    return sealed ? this.createReadonlyView(collection) : collection;
+  }
+  /**
+   * Get the collection of the target class without storing anything on the
+   * class. In the live mode it is resolved through the inheritance chain, in
+   * the snapshot mode the own collection is returned if it exists, otherwise
+   * the collection the class would inherit is created.
+   *
+   * @param arg - Metadata target.
+   * @returns Collection of the target class. It can be the collection stored
+   *  on the class, so it should not be modified.
+   */
+  protected peekCollection(arg: object): C {
+    const [ownLevel, ...parentLevels] = this.resolveChain(arg);
+
+    if (this.isLive) {
+      return this.resolveLayers([ownLevel, ...parentLevels]);
+    }
+    if (this.findHolder([ownLevel])) {
+      return this.readValue([ownLevel]) as C;
+    }
+    return this.inheritCollection(this.readValue(parentLevels), ownLevel);
+  }
+  /**
+   * Assert the helper resolves the inheritance live, as masking requires.
+   * A snapshot copied by a subclass keeps an entry hidden after the class
+   * removes its mask, so the mask could not be reliably removed.
+   *
+   * @throws {TypeError} If the helper uses the snapshot mode.
+   */
+  protected assertMaskable(): void {
+    if (!this.isLive) {
+      throw new TypeError(
+        `Masking of "${
+          this.metadataKey.description ?? ''
+        }" requires the live resolution.`,
+      );
+    }
+  }
+  /**
+   * Read the collection of a holder overridden by the active metadata scopes.
+   * In the live mode, the collection is wrapped in a detached layer, so it
+   * replaces the inherited entries as well.
+   */
+  protected readOverride(holder: object): C | undefined {
+    const collection = super.readOverride(holder);
+
+    if (!this.isLive || collection === undefined) {
+      return collection;
+    }
+    const layer: MetadataLayer<C, K> = {
+      entries: collection,
+      tombstones: new Set(),
+      detached: true,
+    };
+
+    return layer as C;
+  }
+  /**
+   * Read the layer stored in the live mode by the nearest holder in the
+   * given chain levels.
+   */
+  protected readLayer(levels: object[][]): MetadataLayer<C, K> | undefined {
+    return this.readValue(levels) as MetadataLayer<C, K> | undefined;
+  }
+  /**
+   * Get the own layer of the target class. The layer is created and stored
+   * on the class if it does not exist yet, which emits an `'init'` event.
+   *
+   * @param arg - Metadata target.
+   * @returns Own layer of the target class.
+   */
+  protected getOwnLayer(arg: object): MetadataLayer<C, K> {
+    const [ownLevel] = this.resolveChain(arg);
+    let layer = this.readLayer([ownLevel]);
+
+    if (!layer) {
+      layer = {
+        entries: this.createCollection(),
+        tombstones: new Set(),
+        detached: false,
+      };
+      this.writeValue(arg, layer as C);
+
+      if (this.isObserved) {
+        this.emit(arg, {
+          type: 'init',
+          key: undefined,
+          value: this.resolveLayers(this.resolveChain(arg)),
+          previousValue: undefined,
+        });
+      }
+    }
+    return layer;
+  }
+  /**
+   * Resolve the collection of the given chain levels by applying the layers
+   * from the root class down to the first level. The `inherit` option applies
+   * to the levels without a layer as well. Nothing is persisted.
+   *
+   * @param levels - Levels of an inheritance chain (or a part of it).
+   * @returns A fresh resolved collection.
+   */
+  protected resolveLayers(levels: object[][]): C {
+    return [...levels].reverse().reduce((inherited, level) => {
+      const layer = this.readLayer([level]);
+      const owner = getMetadataLevelOwner(level);
+
+      if (!layer) {
+        return this.mergeLayer(inherited, undefined, owner);
+      }
+      return this.mergeLayer(
+        layer.detached
+          ? this.createCollection()
+          : this.removeEntries(inherited, layer.tombstones),
+        layer.entries,
+        owner,
+      );
+    }, this.createCollection());
+  }
+  /**
+   * Lazily walk the entries of the layers of a chain, from the root class
+   * down to the first layer, as `resolveLayers` would resolve them with the
+   * `'shallow-copy'` strategy. An entry is skipped if a layer below it
+   * tombstones its key, a keyed entry is listed at its first position with
+   * the value of the nearest layer overriding it.
+   *
+   * @param layers - Layers of the chain levels, starting with the class.
+   */
+  private *walkLayers(
+    layers: (MetadataLayer<C, K> | undefined)[],
+  ): Generator<[K, E], void, undefined> {
+    const detached = layers.findIndex((layer) => layer?.detached);
+    const listed = new Set<K>();
+
+    for (
+      let index = detached === -1 ? layers.length - 1 : detached;
+      index >= 0;
+      index--
+    ) {
+      const below = layers.slice(0, index);
+
+      for (const [key, entry] of this.iterateCollection(
+        layers[index]?.entries ?? this.createCollection(),
+      )) {
+        if (
+          listed.has(key) ||
+          below.some((layer) => layer?.tombstones.has(key))
+        ) {
+          continue;
+        }
+        if (!this.isKeyed) {
+          yield [key, entry];
+          continue;
+        }
+        const [override] = below
+          .map((layer) => layer && this.findEntry(layer.entries, key))
+          .filter((found) => found !== undefined) as [E][];
+
+        listed.add(key);
+        yield [key, override ? override[0] : entry];
+      }
+    }
+  }
+  /**
+   * Read a copy of the collection (or the own entries of the layer in the
+   * live mode) stored by a chain level.
+   */
+  private readOwnCollection(level: object[]): C {
+    const stored = this.isLive
+      ? this.readLayer([level])?.entries
+      : this.readValue([level]);
+
+    return this.appendEntries(this.createCollection(), stored as C);
+  }
+  /**
+   * Merge the own entries of a layer (if any) with the inherited collection
+   * according to the `inherit` option.
+   */
+  private mergeLayer(inherited: C, entries: C | undefined, ctor: object): C {
+    const inheritance = this.options.inherit ?? 'shallow-copy';
+
+    if (isCopyInheritance(inheritance)) {
+      const collection =
+        inheritValue(inheritance, inherited, undefined, ctor) ??
+        this.createCollection();
+
+      return entries ? this.appendEntries(collection, entries) : collection;
+    }
+    // The own entries are stored on the class, so the merger gets a copy.
+    const ownEntries =
+      entries && this.appendEntries(this.createCollection(), entries);
+    const merged = inheritValue(inheritance, inherited, ownEntries, ctor);
+
+    if (merged === undefined) {
+      return this.createCollection();
+    }
+    // A custom merger can produce entries which were never written.
+    if (typeof inheritance === 'function') {
+      this.validateEntries(ctor, merged);
+    }
+    return merged;
+  }
+}
@@ -0,0 +1,228 @@
+import { defineDerived, DerivedMetadata } from './derived-metadata';
+import { MapMetadata } from './map-metadata';
+import { Metadata } from './metadata';
+import { MetadataScope } from './metadata-scope';
+import { SetMetadata } from './set-metadata';
+
+describe('(Unit) DerivedMetadata', () => {
+  describe('#get() - memoization', () => {
+    it('should compute the value once per class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const compute = jest.fn((ctor: object) => testMetadata.get(ctor));
+      const derived = defineDerived([testMetadata], compute);
+      class TestClass {}
+      class OtherClass {}
+      testMetadata.set(TestClass, 'test');
+      // Act
+      const values = [
+        derived.get(TestClass),
+        derived.get(TestClass),
+        derived.get(new TestClass()),
+        derived.get(OtherClass),
+      ];
+      // Assert
+      expect(derived).toBeInstanceOf(DerivedMetadata);
+      expect(values).toEqual(['test', 'test', 'test', undefined]);
+      expect(compute).toHaveBeenCalledTimes(2);
+      expect(compute).toHaveBeenNthCalledWith(1, TestClass);
+      expect(compute).toHaveBeenNthCalledWith(2, OtherClass);
+    });
+
+    it('should not memoize the value while a scope is active', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const compute = jest.fn((ctor: object) => testMetadata.get(ctor));
+      const derived = defineDerived([testMetadata], compute);
+      class TestClass {}
+      testMetadata.set(TestClass, 'original');
+      derived.get(TestClass);
+      const scope = new MetadataScope().override(
+        testMetadata,
+        TestClass,
+        'overridden',
+      );
+      // Act
+      const scoped = scope.run(() => derived.get(TestClass));
+      const value = derived.get(TestClass);
+      // Assert
+      expect(scoped).toBe('overridden');
+      expect(value).toBe('original');
+      expect(compute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('#get() - invalidation', () => {
+    it('should recompute the value after a change of any input', () => {
+      // Arrange
+      const mapMetadata = new MapMetadata<string, number>('test:mapMetadata');
+      const setMetadata = new SetMetadata<string>('test:setMetadata');
+      const compute = jest.fn((ctor: object) => [
+        ...mapMetadata.getMap(ctor).keys(),
+        ...setMetadata.getSet(ctor),
+      ]);
+      const derived = defineDerived([mapMetadata, setMetadata], compute);
+      class TestClass {}
+      mapMetadata.set(TestClass, 'a', 1);
+      const first = derived.get(TestClass);
+      // Act
+      setMetadata.add(TestClass, 'b');
+      const second = derived.get(TestClass);
+      mapMetadata.delete(TestClass, 'a');
+      const third = derived.get(TestClass);
+      setMetadata.clear(TestClass);
+      const fourth = derived.get(TestClass);
+      // Assert
+      expect([first, second, third, fourth]).toEqual([
+        ['a'],
+        ['a', 'b'],
+        ['b'],
+        [],
+      ]);
+      expect(compute).toHaveBeenCalledTimes(4);
+    });
+
+    it('should recompute the value of a subclass after a change of an ancestor', () => {
+      // Arrange
+      const setMetadata = new SetMetadata<string>('test:setMetadata', {
+        resolution: 'live',
+      });
+      const compute = jest.fn((ctor: object) => [...setMetadata.getSet(ctor)]);
+      const derived = defineDerived([setMetadata], compute);
+      class GrandParentClass {}
+      class ParentClass extends GrandParentClass {}
+      class ChildClass extends ParentClass {}
+      setMetadata.add(ChildClass, 'child');
+      derived.get(ChildClass);
+      // Act
+      setMetadata.add(GrandParentClass, 'grandparent');
+      const value = derived.get(ChildClass);
+      // Assert
+      expect(value).toEqual(['grandparent', 'child']);
+      expect(compute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the value after a change of an unrelated class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const compute = jest.fn((ctor: object) => testMetadata.get(ctor));
+      const derived = defineDerived([testMetadata], compute);
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class OtherClass {}
+      testMetadata.set(ParentClass, 'parent');
+      derived.get(ParentClass);
+      // Act
+      testMetadata.set(ChildClass, 'child');
+      testMetadata.set(OtherClass, 'other');
+      const value = derived.get(ParentClass);
+      // Assert
+      expect(value).toBe('parent');
+      expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should recompute the value after the metadata is initialized', () => {
+      // Arrange
+      const setMetadata = new SetMetadata<string>('test:setMetadata');
+      const derived = defineDerived([setMetadata], (ctor) =>
+        setMetadata.hasOwn(ctor),
+      );
+      class TestClass {}
+      const before = derived.get(TestClass);
+      // Act
+      setMetadata.init(TestClass);
+      const after = derived.get(TestClass);
+      // Assert
+      expect(before).toBe(false);
+      expect(after).toBe(true);
+    });
+
+    it('should keep the value if the computation initializes the metadata', () => {
+      // Arrange
+      const setMetadata = new SetMetadata<string>('test:setMetadata');
+      const compute = jest.fn((ctor: object) => setMetadata.init(ctor));
+      const derived = defineDerived([setMetadata], compute);
+      class TestClass {}
+      // Act
+      derived.get(TestClass);
+      derived.get(TestClass);
+      // Assert
+      expect(compute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('#invalidate() - manual invalidation', () => {
+    it('should recompute the value of the class and its subclasses', () => {
+      // Arrange
+      const source = new Map<object, string>();
+      const compute = jest.fn((ctor: object) => source.get(ctor));
+      const derived = defineDerived([], compute);
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class OtherClass {}
+      derived.get(ChildClass);
+      derived.get(OtherClass);
+      // Act
+      derived.invalidate(ParentClass);
+      derived.get(ChildClass);
+      derived.get(OtherClass);
+      // Assert
+      expect(compute).toHaveBeenCalledTimes(3);
+      expect(compute).toHaveBeenLastCalledWith(ChildClass);
+    });
+
+    it('should recompute the values of all classes', () => {
+      // Arrange
+      const compute = jest.fn((ctor: object) => ctor);
+      const derived = defineDerived([], compute);
+      class TestClass {}
+      class OtherClass {}
+      derived.get(TestClass);
+      derived.get(OtherClass);
+      // Act
+      derived.invalidate();
+      derived.get(TestClass);
+      derived.get(OtherClass);
+      // Assert
+      expect(compute).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('#dispose() - disposal', () => {
+    it('should compute the value on every call after the disposal', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const compute = jest.fn((ctor: object) => testMetadata.get(ctor));
+      const derived = defineDerived([testMetadata], compute);
+      class TestClass {}
+      derived.get(TestClass);
+      // Act
+      derived.dispose();
+      testMetadata.set(TestClass, 'test');
+      const values = [derived.get(TestClass), derived.get(TestClass)];
+      // Assert
+      expect(values).toEqual(['test', 'test']);
+      expect(compute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop the invalidation once the signal is aborted', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const controller = new AbortController();
+      const derived = defineDerived(
+        [testMetadata],
+        (ctor) => testMetadata.get(ctor),
+        { signal: controller.signal },
+      );
+      class TestClass {}
+      testMetadata.set(TestClass, 'original');
+      derived.get(TestClass);
+      // Act
+      controller.abort();
+      testMetadata.set(TestClass, 'changed');
+      const value = derived.get(TestClass);
+      // Assert
+      expect(value).toBe('original');
+    });
+  });
+});
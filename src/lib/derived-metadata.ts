@@ -0,0 +1,185 @@
+import { MetadataSubscribeOptions } from './metadata-event';
+import { getMetadataScopeContext } from './metadata-scope';
+import {
+  getMetadataChain,
+  getMetadataLevelOwner,
+  MetadataTarget,
+} from './metadata-target';
+
+/**
+ * Metadata helper a derived value is computed from, as seen by
+ * `DerivedMetadata`. All metadata helpers satisfy it.
+ */
+export interface DerivedMetadataInput {
+  /**
+   * Listen to the changes of the metadata of all classes.
+   */
+  subscribe(
+    listener: (event: { target: object }) => void,
+    options?: MetadataSubscribeOptions,
+  ): () => void;
+}
+/**
+ * Value derived for a single class together with the versions of the classes
+ * of its inheritance chain it was computed from.
+ */
+interface DerivedEntry<R> {
+  value: R;
+  stamp: number[];
+}
+
+/**
+ * Value computed from the metadata of a class, memoized per class. The value
+ * is recomputed once any of its input metadata changes on the class or one of
+ * its ancestors through the methods of the input helpers (`set`, `add`,
+ * `delete`, `clear`, `init`, ...). Changes made directly to a collection
+ * returned by a helper are not detected, use `invalidate` after them.
+ *
+ * Values are not memoized while a `MetadataScope` is active, as scopes change
+ * the metadata without any notification.
+ *
+ * @template R - Type of the derived value.
+ *
+ * @example
+ *
+ * ```ts
+ * const serializerPlan = defineDerived([columns, excluded], (ctor) =>
+ *   compileSerializer(columns.getMap(ctor), excluded.getSet(ctor)),
+ * );
+ *
+ * serializerPlan.get(User); // computed once, until the metadata changes
+ * ```
+ */
+export class DerivedMetadata<R> {
+  /**
+   * Function computing the value of a class.
+   */
+  private readonly compute: (ctor: object) => R;
+  /**
+   * Memoized values by the classes.
+   */
+  private entries = new WeakMap<object, DerivedEntry<R>>();
+  /**
+   * Number of changes of the input metadata by the metadata holders.
+   */
+  private readonly versions = new WeakMap<object, number>();
+  /**
+   * Functions ending the subscriptions to the inputs.
+   */
+  private readonly unsubscribes: (() => void)[];
+  /**
+   * `true` once the value stopped listening to the changes of the inputs.
+   */
+  private disposed = false;
+  /**
+   * Creates a derived metadata value.
+   *
+   * @param inputs - Metadata helpers the value is computed from.
+   * @param compute - Function computing the value of a class.
+   * @param options - Subscription options. Aborting the signal stops the
+   *  invalidation, like `dispose`.
+   */
+  constructor(
+    inputs: readonly DerivedMetadataInput[],
+    compute: (ctor: object) => R,
+    options: MetadataSubscribeOptions = {},
+  ) {
+    this.compute = compute;
+    this.unsubscribes = inputs.map((input) =>
+      input.subscribe(({ target }) => this.bump([target]), options),
+    );
+  }
+  /**
+   * Get the value derived for a class. It is computed on the first call and
+   * after any change of the input metadata of the class or its ancestors.
+   *
+   * @param arg - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @returns The derived value.
+   * @template T - Class instance type.
+   */
+  public get<T extends object>(arg: MetadataTarget<T>): R {
+    const levels = getMetadataChain(arg);
+    const ctor = getMetadataLevelOwner(levels[0]);
+
+    if (this.disposed || getMetadataScopeContext().getStore()?.length) {
+      return this.compute(ctor);
+    }
+    const entry = this.entries.get(ctor);
+
+    if (entry && this.isCurrent(entry.stamp, this.stamp(levels))) {
+      return entry.value;
+    }
+    const value = this.compute(ctor);
+
+    // The computation itself can initialize the metadata of the class.
+    this.entries.set(ctor, { value, stamp: this.stamp(levels) });
+
+    return value;
+  }
+  /**
+   * Drop the memoized values.
+   *
+   * @param arg - Class whose value (and the values of its subclasses) should
+   *  be recomputed. If omitted, the values of all classes are dropped.
+   * @template T - Class instance type.
+   */
+  public invalidate<T extends object>(arg?: MetadataTarget<T>): void {
+    if (arg === undefined) {
+      this.entries = new WeakMap();
+    } else {
+      this.bump(getMetadataChain(arg)[0]);
+    }
+  }
+  /**
+   * Stop listening to the changes of the inputs and drop the memoized values.
+   * Later calls of `get` compute the value every time.
+   */
+  public dispose(): void {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.entries = new WeakMap();
+    this.disposed = true;
+  }
+  /**
+   * Record a change of the metadata of the given holders.
+   */
+  private bump(holders: object[]): void {
+    holders.forEach((holder) =>
+      this.versions.set(holder, (this.versions.get(holder) ?? 0) + 1),
+    );
+  }
+  /**
+   * Get the versions of the levels of an inheritance chain.
+   */
+  private stamp(levels: object[][]): number[] {
+    return levels.map((level) =>
+      level.reduce((sum, holder) => sum + (this.versions.get(holder) ?? 0), 0),
+    );
+  }
+  /**
+   * Check if a memoized value was computed from the current versions.
+   */
+  private isCurrent(stamp: number[], current: number[]): boolean {
+    return (
+      stamp.length === current.length &&
+      stamp.every((version, index) => version === current[index])
+    );
+  }
+}
+/**
+ * Define a value computed from the metadata of a class and memoized per class
+ * (see `DerivedMetadata`).
+ *
+ * @param inputs - Metadata helpers the value is computed from.
+ * @param compute - Function computing the value of a class.
+ * @param options - Subscription options.
+ * @returns The derived metadata value.
+ * @template R - Type of the derived value.
+ */
+export function defineDerived<R>(
+  inputs: readonly DerivedMetadataInput[],
+  compute: (ctor: object) => R,
+  options?: MetadataSubscribeOptions,
+): DerivedMetadata<R> {
+  return new DerivedMetadata(inputs, compute, options);
+}
@@ -0,0 +1,34 @@
+import { LifecycleHookError } from './lifecycle-hook-error';
+
+describe('(Unit) LifecycleHookError', () => {
+  describe('#constructor() - initialization', () => {
+    it('should name the hook and the class of the instance', () => {
+      // Arrange
+      class TestClass {}
+      const target = new TestClass();
+      const errors = [new Error('failed')];
+      // Act
+      const error = new LifecycleHookError(target, 'onInit', errors);
+      // Assert
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.name).toBe('LifecycleHookError');
+      expect(error.message).toBe(
+        'Lifecycle hook "onInit" of "TestClass" instance failed in ' +
+          '1 method(s).',
+      );
+      expect(error).toMatchObject({ target, hook: 'onInit', errors });
+    });
+
+    it('should describe an instance without a prototype', () => {
+      // Arrange
+      const target = Object.create(null);
+      // Act
+      const error = new LifecycleHookError(target, 'onInit', []);
+      // Assert
+      expect(error.message).toBe(
+        'Lifecycle hook "onInit" of "anonymous" instance failed in ' +
+          '0 method(s).',
+      );
+    });
+  });
+});
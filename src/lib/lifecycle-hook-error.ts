@@ -0,0 +1,29 @@
+/**
+ * Error thrown when methods of a lifecycle hook fail (see `LifecycleHooks`).
+ * The errors thrown by the methods are listed in `errors`, in the order the
+ * methods were invoked.
+ */
+export class LifecycleHookError extends AggregateError {
+  /**
+   * The instance the hook was run on.
+   */
+  public readonly target: object;
+  /**
+   * Name of the hook.
+   */
+  public readonly hook: string;
+
+  constructor(target: object, hook: string, errors: unknown[]) {
+    const className =
+      Object.getPrototypeOf(target)?.constructor?.name ?? 'anonymous';
+
+    super(
+      errors,
+      `Lifecycle hook "${hook}" of "${className}" instance failed in ` +
+        `${errors.length} method(s).`,
+    );
+    this.name = 'LifecycleHookError';
+    this.target = target;
+    this.hook = hook;
+  }
+}
@@ -0,0 +1,322 @@
+import { LifecycleHookError } from './lifecycle-hook-error';
+import { LifecycleHooks } from './lifecycle-hooks';
+import { MetadataRegistry } from './metadata-registry';
+import { SetMetadata } from './set-metadata';
+import { WeakMapStorage } from './weak-map-storage';
+
+describe('(Unit) LifecycleHooks', () => {
+  describe('#hook() - method decorator', () => {
+    it('should register the decorated methods for the hook', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', {
+        onInit: {},
+        onDestroy: {},
+      });
+      // Act
+      class TestClass {
+        @lifecycle.hook('onInit')
+        public init() {}
+
+        @lifecycle.hook('onInit')
+        public load() {}
+
+        @lifecycle.hook('onDestroy')
+        public destroy() {}
+      }
+      // Assert
+      expect(lifecycle.getMethods(TestClass, 'onInit')).toEqual([
+        'init',
+        'load',
+      ]);
+      expect(lifecycle.getMethods(new TestClass(), 'onDestroy')).toEqual([
+        'destroy',
+      ]);
+    });
+
+    it('should expose the metadata of the hook', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      // Act
+      const decorator = lifecycle.hook('onInit');
+      // Assert
+      expect(decorator.metadata).toBeInstanceOf(SetMetadata);
+      expect(decorator.metadata).toBe(lifecycle.getMetadata('onInit'));
+      expect(decorator.metadata.resolution).toBe('live');
+    });
+
+    it('should pass the options to the metadata of the hooks', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const registry = new MetadataRegistry();
+      const lifecycle = new LifecycleHooks(
+        'test:lifecycle',
+        { onInit: {}, onDestroy: {} },
+        { storage, registry, global: true },
+      );
+      const metadata = lifecycle.getMetadata('onInit');
+      // Act
+      class TestClass {
+        @lifecycle.hook('onInit')
+        public init() {}
+      }
+      // Assert
+      expect(metadata.storage).toBe(storage);
+      expect(storage.has(TestClass, metadata.metadataKey)).toBe(true);
+      expect(metadata.metadataKey).toBe(Symbol.for('test:lifecycle:onInit'));
+      expect(registry.list().map((entry) => entry.metadata)).toEqual([
+        metadata,
+        lifecycle.getMetadata('onDestroy'),
+      ]);
+    });
+
+    it('should throw an error for an undeclared hook', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks<string>('test:lifecycle', {
+        onInit: {},
+      });
+      // Act
+      const act = () => lifecycle.hook('onMissing');
+      // Assert
+      expect(act).toThrow('Lifecycle hook "onMissing" is not declared.');
+    });
+  });
+
+  describe('#getMethods() - method ordering', () => {
+    it('should order the methods parent-first by default', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      class ParentClass {
+        @lifecycle.hook('onInit')
+        public initParent() {}
+      }
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onInit')
+        public initChild() {}
+      }
+      // Act
+      const methods = lifecycle.getMethods(ChildClass, 'onInit');
+      // Assert
+      expect(methods).toEqual(['initParent', 'initChild']);
+    });
+
+    it('should order the methods child-first', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', {
+        onDestroy: { order: 'child-first' },
+      });
+      class GrandParentClass {
+        @lifecycle.hook('onDestroy')
+        public destroyGrandParent() {}
+      }
+      class ParentClass extends GrandParentClass {}
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onDestroy')
+        public destroyChild() {}
+
+        @lifecycle.hook('onDestroy')
+        public destroyOther() {}
+      }
+      // Act
+      const methods = lifecycle.getMethods(ChildClass, 'onDestroy');
+      // Assert
+      expect(methods).toEqual([
+        'destroyChild',
+        'destroyOther',
+        'destroyGrandParent',
+      ]);
+    });
+
+    it('should list an overridden method once', () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', {
+        onInit: {},
+        onDestroy: { order: 'child-first' },
+      });
+      class ParentClass {
+        @lifecycle.hook('onInit')
+        @lifecycle.hook('onDestroy')
+        public handle() {}
+
+        @lifecycle.hook('onInit')
+        @lifecycle.hook('onDestroy')
+        public other() {}
+      }
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onInit')
+        @lifecycle.hook('onDestroy')
+        public handle() {}
+      }
+      // Act
+      const initMethods = lifecycle.getMethods(ChildClass, 'onInit');
+      const destroyMethods = lifecycle.getMethods(ChildClass, 'onDestroy');
+      // Assert
+      expect(initMethods).toEqual(['handle', 'other']);
+      expect(destroyMethods).toEqual(['handle', 'other']);
+    });
+  });
+
+  describe('#run() - hook execution', () => {
+    it('should invoke the methods on the instance with the arguments', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      const calls: unknown[][] = [];
+      class ParentClass {
+        @lifecycle.hook('onInit')
+        public initParent(...args: unknown[]) {
+          calls.push(['parent', this, ...args]);
+        }
+      }
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onInit')
+        public async initChild(...args: unknown[]) {
+          calls.push(['child', this, ...args]);
+        }
+      }
+      const instance = new ChildClass();
+      // Act
+      await lifecycle.run(instance, 'onInit', 'a', 1);
+      // Assert
+      expect(calls).toEqual([
+        ['parent', instance, 'a', 1],
+        ['child', instance, 'a', 1],
+      ]);
+    });
+
+    it('should run an overridden method once', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      const calls: string[] = [];
+      class ParentClass {
+        @lifecycle.hook('onInit')
+        public init() {
+          calls.push('parent');
+        }
+      }
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onInit')
+        public init() {
+          super.init();
+          calls.push('child');
+        }
+      }
+      // Act
+      await lifecycle.run(new ChildClass(), 'onInit');
+      // Assert
+      expect(calls).toEqual(['parent', 'child']);
+    });
+
+    it('should await each method before the next one sequentially', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      const calls: string[] = [];
+      class TestClass {
+        @lifecycle.hook('onInit')
+        public async first() {
+          calls.push('first:start');
+          await Promise.resolve();
+          calls.push('first:end');
+        }
+
+        @lifecycle.hook('onInit')
+        public second() {
+          calls.push('second');
+        }
+      }
+      // Act
+      await lifecycle.run(new TestClass(), 'onInit');
+      // Assert
+      expect(calls).toEqual(['first:start', 'first:end', 'second']);
+    });
+
+    it('should invoke all methods at once in parallel', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', {
+        onInit: { execution: 'parallel' },
+      });
+      const calls: string[] = [];
+      class TestClass {
+        @lifecycle.hook('onInit')
+        public async first() {
+          calls.push('first:start');
+          await Promise.resolve();
+          calls.push('first:end');
+        }
+
+        @lifecycle.hook('onInit')
+        public second() {
+          calls.push('second');
+        }
+      }
+      // Act
+      await lifecycle.run(new TestClass(), 'onInit');
+      // Assert
+      expect(calls).toEqual(['first:start', 'second', 'first:end']);
+    });
+
+    it.each(['sequential', 'parallel'] as const)(
+      'should run all methods and aggregate the errors (%s)',
+      async (execution) => {
+        // Arrange
+        const lifecycle = new LifecycleHooks('test:lifecycle', {
+          onDestroy: { execution },
+        });
+        const syncError = new Error('sync');
+        const asyncError = new Error('async');
+        const calls: string[] = [];
+        class TestClass {
+          @lifecycle.hook('onDestroy')
+          public first() {
+            throw syncError;
+          }
+
+          @lifecycle.hook('onDestroy')
+          public async second() {
+            throw asyncError;
+          }
+
+          @lifecycle.hook('onDestroy')
+          public third() {
+            calls.push('third');
+          }
+        }
+        const instance = new TestClass();
+        // Act
+        const result = lifecycle.run(instance, 'onDestroy');
+        // Assert
+        await expect(result).rejects.toThrow(LifecycleHookError);
+        await expect(result).rejects.toMatchObject({
+          message:
+            'Lifecycle hook "onDestroy" of "TestClass" instance failed in ' +
+            '2 method(s).',
+          target: instance,
+          hook: 'onDestroy',
+          errors: [syncError, asyncError],
+        });
+        expect(calls).toEqual(['third']);
+      },
+    );
+
+    it('should report a decorated member which is not a function', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      class TestClass {}
+      lifecycle.getMetadata('onInit').add(TestClass, 'missing');
+      // Act
+      const result = lifecycle.run(new TestClass(), 'onInit');
+      // Assert
+      await expect(result).rejects.toMatchObject({
+        errors: [new TypeError('Method "missing" is not a function.')],
+      });
+    });
+
+    it('should resolve if no method is registered', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      class TestClass {}
+      // Act
+      const result = lifecycle.run(new TestClass(), 'onInit');
+      // Assert
+      await expect(result).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { MetadataOptions } from './base-metadata';
+import { LifecycleHookError } from './lifecycle-hook-error';
+import {
+  MetadataDecorator,
+  MethodMetadataDecorator,
+} from './metadata-decorator';
+import { SetMetadata } from './set-metadata';
+
+/**
+ * Order the methods of a hook declared across the inheritance chain run in:
+ *
+ * - `'parent-first'` - methods declared by a parent class run before the
+ *   methods declared by its subclasses, e.g. for initialization.
+ * - `'child-first'` - methods declared by a subclass run before the methods
+ *   declared by its parents, e.g. for disposal.
+ *
+ * Methods declared by the same class run in the order they were decorated.
+ */
+export type LifecycleHookOrder = 'parent-first' | 'child-first';
+/**
+ * How the methods of a hook are invoked:
+ *
+ * - `'sequential'` - each method is awaited before the next one is invoked.
+ * - `'parallel'` - all methods are invoked at once and awaited together.
+ */
+export type LifecycleHookExecution = 'sequential' | 'parallel';
+/**
+ * Options of a single lifecycle hook.
+ */
+export interface LifecycleHookOptions {
+  /**
+   * Inheritance order of the methods. Defaults to `'parent-first'`.
+   */
+  order?: LifecycleHookOrder;
+  /**
+   * Execution mode of the methods. Defaults to `'sequential'`.
+   */
+  execution?: LifecycleHookExecution;
+}
+/**
+ * Options of `LifecycleHooks` passed to the metadata helpers of the hooks.
+ */
+export type LifecycleHooksOptions = Pick<
+  MetadataOptions,
+  'storage' | 'registry' | 'global'
+>;
+
+/**
+ * LifecycleHooks declares named lifecycle hooks (`onInit`, `onDestroy`, ...),
+ * provides method decorators registering methods for them and runs the
+ * registered methods of an instance across its inheritance chain.
+ *
+ * The methods of each hook are collected by a `SetMetadata` of method names
+ * in the live mode (see `getMetadata`). A method is invoked by its name, so
+ * a method overridden in a subclass runs once, as the override, even if both
+ * the parent and the subclass decorate it. It runs at the position of the
+ * first declaration in the hook order.
+ *
+ * All methods run even if some of them fail. The errors are thrown together
+ * as a `LifecycleHookError` once all methods have finished.
+ *
+ * @template H - Names of the hooks.
+ *
+ * @example
+ *
+ * ```ts
+ * const lifecycle = new LifecycleHooks('app:lifecycle', {
+ *   onInit: { order: 'parent-first' },
+ *   onDestroy: { order: 'child-first', execution: 'parallel' },
+ * });
+ *
+ * class Service {
+ *   @lifecycle.hook('onInit')
+ *   public async connect() {}
+ *
+ *   @lifecycle.hook('onDestroy')
+ *   public async disconnect() {}
+ * }
+ *
+ * await lifecycle.run(service, 'onInit');
+ * ```
+ */
+export class LifecycleHooks<H extends string> {
+  /**
+   * Options of the hooks.
+   */
+  private readonly hooks: Readonly<Record<H, LifecycleHookOptions>>;
+  /**
+   * Method names registered for the hooks.
+   */
+  private readonly metadata = new Map<H, SetMetadata<PropertyKey>>();
+  /**
+   * Creates the lifecycle hooks.
+   *
+   * @param key - Prefix of the metadata keys of the hooks, the key of a hook
+   *  is `<key>:<hook>`.
+   * @param hooks - Options of the hooks by their names.
+   * @param options - Storage, registry and the `global` option of the
+   *  metadata helpers of the hooks.
+   */
+  constructor(
+    key: string,
+    hooks: Record<H, LifecycleHookOptions>,
+    options: LifecycleHooksOptions = {},
+  ) {
+    this.hooks = hooks;
+    (Object.keys(hooks) as H[]).forEach((hook) =>
+      this.metadata.set(
+        hook,
+        new SetMetadata<PropertyKey>(`${key}:${hook}`, {
+          ...options,
+          resolution: 'live',
+        }),
+      ),
+    );
+  }
+  /**
+   * Get the metadata helper collecting the method names of a hook, e.g. to
+   * seal it or to register it in a `MetadataRegistry`.
+   *
+   * @param hook - Name of the hook.
+   * @returns Metadata helper of the hook.
+   */
+  public getMetadata(hook: H): SetMetadata<PropertyKey> {
+    const metadata = this.metadata.get(hook);
+
+    if (!metadata) {
+      throw new TypeError(`Lifecycle hook "${hook}" is not declared.`);
+    }
+    return metadata;
+  }
+  /**
+   * Create a method decorator registering the decorated method for a hook.
+   * The decorator works both as a legacy and as a standard decorator.
+   *
+   * @param hook - Name of the hook.
+   * @returns Method decorator exposing the metadata of the hook as `metadata`
+   *  property.
+   */
+  public hook(
+    hook: H,
+  ): MetadataDecorator<SetMetadata<PropertyKey>, MethodMetadataDecorator> {
+    return this.getMetadata(hook).methodDecorator();
+  }
+  /**
+   * Get the names of the methods registered for a hook on a class and its
+   * ancestors, in the order they run.
+   *
+   * @param target - Class constructor or an instance of a class.
+   * @param hook - Name of the hook.
+   * @returns Names of the methods, each name listed once.
+   */
+  public getMethods(target: object, hook: H): PropertyKey[] {
+    const chain = this.getMetadata(hook).getChain(target);
+    const levels =
+      this.hooks[hook].order === 'child-first' ? chain : chain.reverse();
+
+    return [...new Set(levels.flatMap(({ value }) => [...value]))];
+  }
+  /**
+   * Run the methods registered for a hook on an instance.
+   *
+   * @param instance - Instance of a class.
+   * @param hook - Name of the hook.
+   * @param args - Arguments passed to the methods.
+   * @returns A promise resolved once all methods have finished.
+   * @throws {LifecycleHookError} If any method fails. The promise is rejected
+   *  once all methods have finished.
+   */
+  public async run(
+    instance: object,
+    hook: H,
+    ...args: unknown[]
+  ): Promise<void> {
+    const methods = this.getMethods(instance, hook);
+    const errors: unknown[] = [];
+
+    if (this.hooks[hook].execution === 'parallel') {
+      const results = await Promise.allSettled(
+        methods.map((name) => this.invoke(instance, name, args)),
+      );
+
+      results.forEach((result) => {
+        if (result.status === 'rejected') {
+          errors.push(result.reason);
+        }
+      });
+    } else {
+      for (const name of methods) {
+        try {
+          await this.invoke(instance, name, args);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new LifecycleHookError(instance, hook, errors);
+    }
+  }
+  /**
+   * Invoke a method of an instance. A synchronous failure rejects the
+   * returned promise as well.
+   */
+  private async invoke(
+    instance: object,
+    name: PropertyKey,
+    args: unknown[],
+  ): Promise<void> {
+    const method = (instance as Record<PropertyKey, unknown>)[name];
+
+    if (typeof method !== 'function') {
+      throw new TypeError(`Method "${String(name)}" is not a function.`);
+    }
+    await method.apply(instance, args);
+  }
+}
@@ -1,4 +1,8 @@
+import { decorate, metadataSymbol } from '../testing/standard-decorators';
 import { MapMetadata } from './map-metadata';
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
+import { WeakMapStorage } from './weak-map-storage';
 
 describe('(Unit) MapMetadata', () => {
   describe('#constructor() - initialization', () => {
@@ -444,4 +448,911 @@ describe('(Unit) MapMetadata', () => {
       expect(size).toBe(1);
     });
   });
+
+  describe('standard decorators', () => {
+    it('should set a metadata through a decorator context', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      decorate(TestClass, (context) =>
+        testMetadata.set(context, String(context.name), 'testValue'),
+      );
+      const value = testMetadata.get(TestClass, 'testProperty');
+      // Assert
+      expect(value).toBe('testValue');
+    });
+
+    it('should copy a parent metadata into a decorated child class', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      decorate(ParentClass, (context) =>
+        testMetadata.set(context, 'parentKey', 'parentValue'),
+      );
+      decorate(ChildClass, (context) =>
+        testMetadata.set(context, 'childKey', 'childValue'),
+      );
+      // Assert
+      expect(testMetadata.getSize(ParentClass)).toBe(1);
+      expect(testMetadata.getMap(ChildClass)).toEqual(
+        new Map([
+          ['parentKey', 'parentValue'],
+          ['childKey', 'childValue'],
+        ]),
+      );
+    });
+  });
+
+  describe('storage', () => {
+    it('should store a metadata in a custom storage', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        {
+          storage: new WeakMapStorage(),
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass, 'parentKey', 'parentValue');
+      testMetadata.set(ChildClass, 'childKey', 'childValue');
+      // Assert
+      expect(Object.getOwnPropertySymbols(ChildClass)).toEqual([]);
+      expect(testMetadata.getSize(ParentClass)).toBe(1);
+      expect(testMetadata.getSize(ChildClass)).toBe(2);
+    });
+  });
+
+  describe('#propertyDecorator() - decorator factory', () => {
+    it('should store values through legacy member decorators', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<PropertyKey, string>(
+        'test:testMetadata',
+      );
+      const Column = testMetadata.propertyDecorator((propertyKey) =>
+        String(propertyKey).toUpperCase(),
+      );
+      // Act
+      class TestClass {
+        @Column
+        public testProperty?: string;
+
+        @Column
+        public testMethod() {}
+
+        @Column
+        public static testStatic?: string;
+      }
+      // Assert
+      expect([...testMetadata.getMap(TestClass)]).toEqual([
+        ['testProperty', 'TESTPROPERTY'],
+        ['testMethod', 'TESTMETHOD'],
+        ['testStatic', 'TESTSTATIC'],
+      ]);
+      expect(Column.metadata).toBe(testMetadata);
+    });
+
+    it('should store a value through a standard member decorator', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<PropertyKey, string>(
+        'test:testMetadata',
+      );
+      const metadata = Object.create(null);
+      class TestClass {}
+      // Act
+      testMetadata.propertyDecorator(() => 'testValue')(undefined, {
+        kind: 'field',
+        name: 'testProperty',
+        static: false,
+        private: false,
+        metadata,
+        addInitializer: () => undefined,
+      } as unknown as ClassFieldDecoratorContext);
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Assert
+      expect(testMetadata.get(TestClass, 'testProperty')).toBe('testValue');
+    });
+  });
+
+  describe('live resolution', () => {
+    it('should see parent changes made after the child was read', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'firstKey', 'first');
+      testMetadata.getSize(ChildClass);
+      // Act
+      testMetadata.set(ParentClass, 'secondKey', 'second');
+      // Assert
+      expect(testMetadata.resolution).toBe('live');
+      expect([...testMetadata.getMap(ChildClass).keys()]).toEqual([
+        'firstKey',
+        'secondKey',
+      ]);
+    });
+
+    it('should not persist anything on reads', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'testValue');
+      // Act
+      testMetadata.get(ChildClass, 'testKey');
+      testMetadata.has(ChildClass, 'testKey');
+      testMetadata.getSize(ChildClass);
+      testMetadata.getMap(ChildClass).set('otherKey', 'otherValue');
+      testMetadata.delete(ChildClass, 'unknownKey');
+      // Assert
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(false);
+      expect(testMetadata.has(ChildClass, 'otherKey')).toBe(false);
+    });
+
+    it('should override and tombstone parent entries', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, 'overriddenKey', 'parent');
+      testMetadata.set(ParentClass, 'deletedKey', 'parent');
+      // Act
+      testMetadata.set(ChildClass, 'overriddenKey', 'child');
+      const wasDeleted = testMetadata.delete(ChildClass, 'deletedKey');
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect([...testMetadata.getMap(GrandChildClass)]).toEqual([
+        ['overriddenKey', 'child'],
+      ]);
+      expect([...testMetadata.getMap(ParentClass)]).toEqual([
+        ['overriddenKey', 'parent'],
+        ['deletedKey', 'parent'],
+      ]);
+    });
+
+    it('should restore a tombstoned entry when set again', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'parent');
+      testMetadata.delete(ChildClass, 'testKey');
+      // Act
+      testMetadata.set(ChildClass, 'testKey', 'child');
+      // Assert
+      expect(testMetadata.get(ChildClass, 'testKey')).toBe('child');
+    });
+
+    it('should stop inheriting parent entries when cleared', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'parent');
+      // Act
+      testMetadata.clear(ChildClass);
+      testMetadata.set(ParentClass, 'otherKey', 'parent');
+      testMetadata.set(ChildClass, 'childKey', 'child');
+      testMetadata.delete(ChildClass, 'childKey');
+      // Assert
+      expect(testMetadata.getSize(ChildClass)).toBe(0);
+      expect(testMetadata.getSize(ParentClass)).toBe(2);
+    });
+
+    it('should store an own layer on init', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'parent');
+      // Act
+      const metadata = testMetadata.init(ChildClass);
+      // Assert
+      expect([...metadata]).toEqual([['testKey', 'parent']]);
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(true);
+    });
+  });
+
+  describe('inherit option', () => {
+    it('should not copy the parent map with the none strategy', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { inherit: 'none' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'testValue');
+      // Act
+      const size = testMetadata.getSize(ChildClass);
+      // Assert
+      expect(size).toBe(0);
+    });
+
+    it('should copy deep clones of the parent values', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, { value: number }>(
+        'test:testMetadata',
+        { inherit: 'deep-clone' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', { value: 1 });
+      // Act
+      testMetadata.get(ChildClass, 'testKey')!.value = 2;
+      // Assert
+      expect(testMetadata.get(ParentClass, 'testKey')).toEqual({ value: 1 });
+    });
+
+    it('should let parent entries win in the live parent-first mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live', inherit: 'parent-first' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'sharedKey', 'parent');
+      // Act
+      testMetadata.set(ChildClass, 'sharedKey', 'child');
+      testMetadata.set(ChildClass, 'childKey', 'child');
+      // Assert
+      expect([...testMetadata.getMap(ChildClass)]).toEqual([
+        ['sharedKey', 'parent'],
+        ['childKey', 'child'],
+      ]);
+    });
+
+    it('should require the live mode for a merging strategy', () => {
+      // Arrange
+      const key = Symbol('test:testMetadata');
+      // Act
+      const createParentFirst = () =>
+        new MapMetadata<string, string>(key, { inherit: 'parent-first' });
+      const createSnapshot = () =>
+        new MapMetadata<string, string>(key, {
+          resolution: 'snapshot',
+          inherit: (parentValue, ownValue) => ownValue ?? parentValue,
+        });
+      // Assert
+      expect(createParentFirst).toThrow(
+        'Inheritance strategy "parent-first" of "test:testMetadata" requires ' +
+          'the live resolution.',
+      );
+      expect(createSnapshot).toThrow(/"custom merger"/);
+    });
+
+    it('should merge nested values in the live deep-merge mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, Record<string, number>>(
+        'test:testMetadata',
+        { resolution: 'live', inherit: 'deep-merge' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'limits', { min: 0, max: 10 });
+      // Act
+      testMetadata.set(ChildClass, 'limits', { max: 5 });
+      // Assert
+      expect(testMetadata.get(ChildClass, 'limits')).toEqual({
+        min: 0,
+        max: 5,
+      });
+      expect(testMetadata.get(ParentClass, 'limits')).toEqual({
+        min: 0,
+        max: 10,
+      });
+    });
+  });
+
+  describe('validate option', () => {
+    it('should name the key of an invalid value', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        { validate: (value) => Number.isInteger(value) },
+      );
+      class TestClass {}
+      // Act
+      const set = (): void => testMetadata.set(TestClass, 'testKey', 0.5);
+      // Assert
+      expect(set).toThrow(MetadataValidationError);
+      expect(set).toThrow(
+        expect.objectContaining({ key: 'testKey', value: 0.5 }),
+      );
+      expect(testMetadata.has(TestClass, 'testKey')).toBe(false);
+    });
+
+    it('should validate the values copied from a parent class', () => {
+      // Arrange
+      const validate = jest.fn(() => true);
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        { validate },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 1);
+      // Act
+      testMetadata.init(ChildClass);
+      // Assert
+      expect(validate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate the result of a live custom merger', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          resolution: 'live',
+          inherit: (parent, own) =>
+            new Map([...(parent ?? []), ...(own ?? [])].map(([k]) => [k, -1])),
+          validate: (value) => value >= 0,
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ChildClass, 'testKey', 1);
+      // Act
+      const getMap = (): unknown => testMetadata.getMap(ChildClass);
+      // Assert
+      expect(getMap).toThrow(expect.objectContaining({ target: ChildClass }));
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed map', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'testKey', 'testValue');
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(() => testMetadata.set(TestClass, 'testKey', 'value')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.delete(TestClass, 'testKey')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.clear(TestClass)).toThrow(MetadataSealedError);
+      expect(() => testMetadata.getMap(TestClass).set('a', 'b')).toThrow(
+        TypeError,
+      );
+      expect(testMetadata.get(TestClass, 'testKey')).toBe('testValue');
+    });
+
+    it('should not persist the inherited map of a sealed class', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testKey', 'testValue');
+      testMetadata.seal(ChildClass);
+      // Act
+      const map = testMetadata.getMap(ChildClass);
+      // Assert
+      expect([...map]).toEqual([['testKey', 'testValue']]);
+      expect(Object.getOwnPropertySymbols(ChildClass)).toEqual([]);
+    });
+
+    it('should return a read-only view in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class TestClass {}
+      testMetadata.set(TestClass, 'testKey', 'testValue');
+      testMetadata.sealAll();
+      // Act
+      const map = testMetadata.getMap(TestClass);
+      // Assert
+      expect(() => map.clear()).toThrow(TypeError);
+      expect(() => testMetadata.set(TestClass, 'testKey', 'value')).toThrow(
+        MetadataSealedError,
+      );
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about init, set, delete and clear', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>('test:testMetadata');
+      const listener = jest.fn();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parentKey', 'parentValue');
+      testMetadata.subscribe(ChildClass, listener);
+      // Act
+      testMetadata.set(ChildClass, 'testKey', 'first');
+      testMetadata.set(ChildClass, 'testKey', 'second');
+      testMetadata.delete(ChildClass, 'testKey');
+      testMetadata.delete(ChildClass, 'testKey');
+      testMetadata.clear(ChildClass);
+      // Assert
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events.map(({ type, key }) => [type, key])).toEqual([
+        ['init', undefined],
+        ['set', 'testKey'],
+        ['set', 'testKey'],
+        ['delete', 'testKey'],
+        ['clear', undefined],
+      ]);
+      expect(events[0].value).toBe(testMetadata.getMap(ChildClass));
+      expect(events[2].previousValue).toBe('first');
+      expect(events[3].previousValue).toBe('second');
+      expect([...events[4].previousValue]).toEqual([
+        ['parentKey', 'parentValue'],
+      ]);
+    });
+
+    it('should notify about the changes in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, string>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      const listener = jest.fn();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parentKey', 'parentValue');
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.delete(ChildClass, 'parentKey');
+      testMetadata.clear(ChildClass);
+      // Assert
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events.map(({ type }) => type)).toEqual([
+        'init',
+        'delete',
+        'clear',
+      ]);
+      expect(events[1].previousValue).toBe('parentValue');
+      expect([...events[2].previousValue]).toEqual([]);
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should create a helper with a global key', () => {
+      // Arrange
+      // Act
+      const testMetadata = MapMetadata.global<string, number>(
+        'test.pkg:globalMap',
+        { resolution: 'live' },
+      );
+      // Assert
+      expect(testMetadata).toBeInstanceOf(MapMetadata);
+      expect(testMetadata.metadataKey).toBe(Symbol.for('test.pkg:globalMap'));
+      expect(testMetadata.resolution).toBe('live');
+    });
+  });
+
+  describe('target option', () => {
+    it('should resolve the map of an instance from the class in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          target: 'instance',
+          resolution: 'live',
+        },
+      );
+      class TestClass {}
+      const instance = new TestClass();
+      const otherInstance = new TestClass();
+      testMetadata.set(TestClass, 'class', 1);
+      testMetadata.set(instance, 'instance', 2);
+      // Act
+      testMetadata.set(TestClass, 'later', 3);
+      testMetadata.delete(instance, 'class');
+      // Assert
+      expect([...testMetadata.getMap(instance)]).toEqual([
+        ['later', 3],
+        ['instance', 2],
+      ]);
+      expect([...testMetadata.getMap(otherInstance)]).toEqual([
+        ['class', 1],
+        ['later', 3],
+      ]);
+    });
+
+    it('should copy the class map to an instance in the snapshot mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          target: 'instance',
+        },
+      );
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.set(TestClass, 'class', 1);
+      // Act
+      testMetadata.set(instance, 'instance', 2);
+      // Assert
+      expect([...testMetadata.getMap(instance)]).toEqual([
+        ['class', 1],
+        ['instance', 2],
+      ]);
+      expect([...testMetadata.getMap(TestClass)]).toEqual([['class', 1]]);
+    });
+  });
+
+  describe('own and inherited metadata', () => {
+    it('should introspect the own maps in the snapshot mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, 'parent', 1);
+      testMetadata.set(ChildClass, 'child', 2);
+      // Act
+      const ownMap = testMetadata.getOwn(ChildClass);
+      const chain = testMetadata.getChain(GrandChildClass);
+      // Assert
+      expect([...(ownMap ?? [])]).toEqual([
+        ['parent', 1],
+        ['child', 2],
+      ]);
+      expect(ownMap).not.toBe(testMetadata.getMap(ChildClass));
+      expect(testMetadata.getOwn(GrandChildClass)).toBeUndefined();
+      expect(testMetadata.hasOwn(GrandChildClass)).toBe(false);
+      expect(testMetadata.getOrigin(GrandChildClass)).toBe(ChildClass);
+      expect(chain.map(({ ctor }) => ctor)).toEqual([ChildClass, ParentClass]);
+    });
+
+    it('should introspect the own entries in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          resolution: 'live',
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parent', 1);
+      testMetadata.set(ChildClass, 'child', 2);
+      // Act
+      const chain = testMetadata.getChain(ChildClass);
+      // Assert
+      expect(chain.map(({ ctor, value }) => [ctor, [...value]])).toEqual([
+        [ChildClass, [['child', 2]]],
+        [ParentClass, [['parent', 1]]],
+      ]);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(true);
+      expect(testMetadata.getOrigin(new ChildClass())).toBe(ChildClass);
+    });
+
+    it('should return undefined if no class defines the map', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const origin = testMetadata.getOrigin(TestClass);
+      // Assert
+      expect(origin).toBeUndefined();
+      expect(testMetadata.getChain(TestClass)).toEqual([]);
+    });
+  });
+
+  describe('#mask() - inherited entry hiding', () => {
+    it('should hide an inherited entry in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          resolution: 'live',
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ChildClass, 'child', 2);
+      // Act
+      testMetadata.mask(ChildClass, 'parent');
+      testMetadata.mask(ChildClass, 'child');
+      testMetadata.set(ParentClass, 'parent', 1);
+      testMetadata.set(ParentClass, 'other', 3);
+      // Assert
+      expect([...testMetadata.getMap(GrandChildClass)]).toEqual([['other', 3]]);
+      expect(testMetadata.has(ChildClass, 'parent')).toBe(false);
+    });
+
+    it('should restore an inherited entry in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          resolution: 'live',
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      const listener = jest.fn();
+      testMetadata.set(ParentClass, 'parent', 1);
+      testMetadata.mask(ChildClass, 'parent');
+      testMetadata.subscribe(listener);
+      // Act
+      const unmasked = testMetadata.unmask(ChildClass, 'parent');
+      // Assert
+      expect(unmasked).toBe(true);
+      expect(testMetadata.unmask(ChildClass, 'parent')).toBe(false);
+      expect(testMetadata.get(ChildClass, 'parent')).toBe(1);
+      expect(listener).toHaveBeenCalledWith({
+        type: 'set',
+        target: ChildClass,
+        key: 'parent',
+        value: 1,
+        previousValue: undefined,
+      });
+    });
+
+    it('should restore an entry to a descendant read while masked', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, 'parent', 1);
+      testMetadata.mask(ChildClass, 'parent');
+      const masked = testMetadata.has(GrandChildClass, 'parent');
+      // Act
+      testMetadata.unmask(ChildClass, 'parent');
+      // Assert
+      expect(masked).toBe(false);
+      expect(testMetadata.get(GrandChildClass, 'parent')).toBe(1);
+    });
+
+    it('should require the live resolution', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const mask = () => testMetadata.mask(TestClass, 'key');
+      const unmask = () => testMetadata.unmask(TestClass, 'key');
+      // Assert
+      expect(mask).toThrow(
+        new TypeError(
+          'Masking of "test:testMetadata" requires the live resolution.',
+        ),
+      );
+      expect(unmask).toThrow(TypeError);
+      expect(testMetadata.getOwn(TestClass)).toBeUndefined();
+    });
+  });
+
+  describe('iteration', () => {
+    it('should iterate own and inherited entries without storing them', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      testMetadata.set(ParentClass, 'b', 2);
+      const callback = jest.fn();
+      // Act
+      testMetadata.forEach(ChildClass, callback);
+      const entries = [...testMetadata.entries(ChildClass)];
+      const keys = [...testMetadata.keys(new ChildClass())];
+      const values = [...testMetadata.values(ChildClass)];
+      const array = testMetadata.toArray(ChildClass);
+      // Assert
+      expect(callback.mock.calls).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+      expect(entries).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      expect(keys).toEqual(['a', 'b']);
+      expect(values).toEqual([1, 2]);
+      expect(array).toEqual(entries);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should search the entries without storing them', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      testMetadata.set(ParentClass, 'b', 2);
+      // Act
+      const found = testMetadata.find(ChildClass, (value) => value > 1);
+      const missing = testMetadata.find(ChildClass, (_, key) => key === 'c');
+      const filtered = testMetadata.filter(ChildClass, (_, key) => key !== 'a');
+      const some = testMetadata.some(ChildClass, (value) => value === 1);
+      const none = testMetadata.some(ChildClass, (value) => value > 2);
+      // Assert
+      expect(found).toBe(2);
+      expect(missing).toBeUndefined();
+      expect([...filtered]).toEqual([['b', 2]]);
+      expect(some).toBe(true);
+      expect(none).toBe(false);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should iterate the own entries of a class', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      testMetadata.set(ChildClass, 'b', 2);
+      testMetadata.delete(ChildClass, 'a');
+      // Act
+      const entries = testMetadata.toArray(ChildClass);
+      // Assert
+      expect(entries).toEqual([['b', 2]]);
+    });
+
+    it('should iterate the resolved entries in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        {
+          resolution: 'live',
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      testMetadata.set(ChildClass, 'b', 2);
+      // Act
+      const before = testMetadata.toArray(ChildClass);
+      testMetadata.set(ParentClass, 'c', 3);
+      const after = testMetadata.toArray(ChildClass);
+      // Assert
+      expect(before).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      expect(after).toEqual([
+        ['a', 1],
+        ['c', 3],
+        ['b', 2],
+      ]);
+    });
+
+    it('should walk the layers like the resolved map in the live mode', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class RootClass {}
+      class ParentClass extends RootClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      class DetachedClass extends ChildClass {}
+      testMetadata.set(RootClass, 'a', 1);
+      testMetadata.set(RootClass, 'b', 2);
+      testMetadata.set(RootClass, 'c', 3);
+      testMetadata.set(ParentClass, 'b', 20);
+      testMetadata.delete(ParentClass, 'c');
+      testMetadata.set(ChildClass, 'c', 30);
+      testMetadata.set(ChildClass, 'a', 10);
+      testMetadata.set(GrandChildClass, 'd', 4);
+      testMetadata.clear(DetachedClass);
+      testMetadata.set(DetachedClass, 'e', 5);
+      // Act
+      const entries = testMetadata.toArray(GrandChildClass);
+      // Assert
+      expect(entries).toEqual([
+        ['a', 10],
+        ['b', 20],
+        ['c', 30],
+        ['d', 4],
+      ]);
+      [RootClass, ParentClass, ChildClass, GrandChildClass, DetachedClass]
+        .map((ctor) => [
+          testMetadata.toArray(ctor),
+          [...testMetadata.getMap(ctor)],
+        ])
+        .forEach(([walked, resolved]) => expect(walked).toEqual(resolved));
+    });
+
+    it('should walk the entries lazily', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>(
+        'test:testMetadata',
+        { resolution: 'live' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      testMetadata.set(ParentClass, 'b', 2);
+      const iterator = testMetadata.entries(ChildClass);
+      // Act
+      const first = iterator.next().value;
+      testMetadata.set(ParentClass, 'c', 3);
+      const rest = [...iterator];
+      // Assert
+      expect(first).toEqual(['a', 1]);
+      expect(rest).toEqual([
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should iterate the map through the iterable', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<string, number>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'a', 1);
+      const iterable = testMetadata.iterate(ChildClass);
+      // Act
+      const first = [...iterable];
+      testMetadata.set(ParentClass, 'b', 2);
+      const second = new Map(iterable);
+      // Assert
+      expect(first).toEqual([['a', 1]]);
+      expect([...second]).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it.each([
+      ['snapshot', 'none'],
+      ['live', 'none'],
+      ['snapshot', 'deep-clone'],
+      ['live', 'child-first'],
+    ] as const)(
+      'should iterate like the resolved map (%s, %s)',
+      (resolution, inherit) => {
+        // Arrange
+        const testMetadata = new MapMetadata<string, { value: number }>(
+          'test:testMetadata',
+          { resolution, inherit },
+        );
+        class ParentClass {}
+        class ChildClass extends ParentClass {}
+        class GrandChildClass extends ChildClass {}
+        testMetadata.set(ParentClass, 'a', { value: 1 });
+        testMetadata.set(ChildClass, 'b', { value: 2 });
+        // Act
+        const entries = testMetadata.toArray(GrandChildClass);
+        // Assert
+        expect(entries).toEqual([...testMetadata.getMap(GrandChildClass)]);
+      },
+    );
+  });
 });
@@ -1,9 +1,27 @@
-import { Constructor } from 'type-fest';
+import {
+  CollectionMetadata,
+  CollectionMetadataOptions,
+} from './collection-metadata';
+import {
+  MemberMetadataDecorator,
+  MetadataDecorator,
+} from './metadata-decorator';
+import { MetadataTarget } from './metadata-target';
+import { ReadonlyMapView } from './readonly-map-view';
 
 /**
  * MapMetadata is a helper class that allows to store metadata in form of a Map
  * on a class.
  *
+ * A standard (TC39) decorator context or its `metadata` object can be used
+ * as a target as well, e.g. from a field or method decorator which never
+ * receives the class constructor.
+ *
+ * With the `resolution: 'live'` option, the parent map is not copied to the
+ * class. Reads resolve through the inheritance chain every time and only
+ * writes store own entries (and tombstones of deleted parent entries) on the
+ * class.
+ *
  * @template K - Type of the key in the metadata map.
  * @template V - Type of the value in the metadata map.
  *
@@ -16,17 +34,24 @@ import { Constructor } from 'type-fest';
  * console.log(myMetadata.get(MyClass, 'myKey')); // 42
  * ```
  */
-export class MapMetadata<K, V> {
-  /**
-   * Unique symbol used to store metadata on a class.
-   */
-  public readonly metadataKey: symbol;
+export class MapMetadata<K, V> extends CollectionMetadata<Map<K, V>, K, V> {
+  public get kind(): 'map' {
+    return 'map';
+  }
   /**
-   * @param key - Metadata key used to store the metadata on a class.
-   *  If a string is passed, it will be converted to a symbol.
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
+   *
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
    */
-  constructor(key: string | symbol) {
-    this.metadataKey = typeof key === 'symbol' ? key : Symbol(key);
+  public static global<K, V>(
+    key: string,
+    options: Omit<CollectionMetadataOptions<Map<K, V>, V>, 'global'> = {},
+  ): MapMetadata<K, V> {
+    return new MapMetadata<K, V>(key, { ...options, global: true });
   }
   /**
    * Initializes an empty map on a class or an instance constructor.
@@ -35,31 +60,17 @@ export class MapMetadata<K, V> {
    * the new map. The method will not modify the parent map. Later modification
    * of the parent map will not affect the new map.
    *
+   * In the live mode, an empty own layer is stored on the class instead and
+   * the resolved map is returned.
+   *
    * @param arg - Class constructor or an instance of a class. The method
    *  will look for the metadata on the class itself or any parent class.
    * @returns Metadata map. The map will be persisted on the class and it is
    *  safe to store values in it.
    * @template T - Class instance type.
    */
-  public init<T extends object>(arg: T | Constructor<T>): Map<K, V> {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    const metadata = new Map();
-    // There are metadata already defined somewhere on the prototype chain.
-    // We will copy them to the new array and will disconnect the reference
-    // to the parent array. This way we will not accidentally modify the parent
-    // array when adding a new value to the metadata array. Later modification
-    // of the parent array will not affect the new array.
-    if (
-      !Object.prototype.hasOwnProperty.call(ctor, this.metadataKey) &&
-      Reflect.has(ctor, this.metadataKey)
-    ) {
-      const parentMetadata = Reflect.get(ctor, this.metadataKey) as Map<K, V>;
-      parentMetadata.forEach((value, key) => metadata.set(key, value));
-    }
-
-    Reflect.set(ctor, this.metadataKey, metadata);
-
-    return metadata;
+  public init<T extends object>(arg: MetadataTarget<T>): Map<K, V> {
+    return this.initCollection(arg);
   }
   /**
    * Get the metadata map from a class or an instance constructor.
@@ -68,23 +79,20 @@ export class MapMetadata<K, V> {
    * the new map. The method will not modify the parent map. Later modification
    * of the parent map will not affect the new map.
    *
+   * In the live mode, the map is resolved from the own and the inherited
+   * entries on every call and nothing is persisted. Changes of the returned
+   * map do not affect the metadata.
+   *
+   * The map of a sealed class is a read-only view and it is not persisted.
+   *
    * @param arg - Class constructor or an instance of a class. The method
    *  will look for the metadata on the class itself or any parent class.
    * @returns Metadata map. The map will be persisted on the class and it is
    *  safe to store values in it.
    * @template T - Class instance type.
    */
-  public getMap<T extends object>(arg: T | Constructor<T>): Map<K, V> {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    // Check if the metadata is already defined on the parent class.
-    const metadata = Object.prototype.hasOwnProperty.call(
-      ctor,
-      this.metadataKey,
-    )
-      ? Reflect.get(ctor, this.metadataKey)
-      : this.init(arg);
-
-    return metadata;
+  public getMap<T extends object>(arg: MetadataTarget<T>): Map<K, V> {
+    return this.readCollection(arg, () => this.init(arg));
   }
   /**
    * Get the metadata value from a class or an instance constructor.
@@ -100,7 +108,7 @@ export class MapMetadata<K, V> {
    *  key.
    * @template T - Class instance type.
    */
-  public get<T extends object>(arg: T | Constructor<T>, key: K): V | undefined {
+  public get<T extends object>(arg: MetadataTarget<T>, key: K): V | undefined {
     return this.getMap(arg).get(key);
   }
   /**
@@ -114,14 +122,26 @@ export class MapMetadata<K, V> {
    *  be stored on the class itself or the instance's constructor.
    * @param key - Key in the metadata map.
    * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public set<T extends object>(
-    arg: T | Constructor<T>,
-    key: K,
-    value: V,
-  ): void {
-    this.getMap(arg).set(key, value);
+  public set<T extends object>(arg: MetadataTarget<T>, key: K, value: V): void {
+    this.assertNotSealed(arg);
+    this.validateValue(arg, value, key);
+
+    const previousValue = this.isObserved ? this.get(arg, key) : undefined;
+
+    if (this.isLive) {
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.set(key, value);
+      layer.tombstones.delete(key);
+    } else {
+      this.getMap(arg).set(key, value);
+    }
+    this.emit(arg, { type: 'set', key, value, previousValue });
   }
   /**
    * Delete the metadata value from a class or an instance constructor.
@@ -133,13 +153,97 @@ export class MapMetadata<K, V> {
    * the new map. The method will not modify the parent map. Later modification
    * of the parent map will not affect the new map.
    *
+   * In the live mode, a key inherited from a parent class is tombstoned on
+   * the class, so it is no longer visible to the class and its subclasses.
+   *
    * @param arg - Class constructor or an instance of a class.
    * @param key - Key in the metadata map to delete.
    * @returns `true` if the key was deleted, `false` if the key was not present.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public delete<T extends object>(arg: MetadataTarget<T>, key: K): boolean {
+    this.assertNotSealed(arg);
+
+    const metadata = this.getMap(arg);
+
+    if (!metadata.has(key)) {
+      return false;
+    }
+    const previousValue = metadata.get(key);
+
+    if (this.isLive) {
+      const [, ...parentLevels] = this.resolveChain(arg);
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.delete(key);
+      if (!layer.detached && this.resolveLayers(parentLevels).has(key)) {
+        layer.tombstones.add(key);
+      }
+    } else {
+      metadata.delete(key);
+    }
+    this.emit(arg, { type: 'delete', key, value: undefined, previousValue });
+
+    return true;
+  }
+  /**
+   * Hide a key of the metadata map from a class and its subclasses. The own
+   * entry of the class is deleted and the entry of its parents is no longer
+   * inherited. Setting the key on the class removes the mask.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param key - Key in the metadata map to hide.
+   * @throws {TypeError} If the helper does not use the live resolution.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public mask<T extends object>(arg: MetadataTarget<T>, key: K): void {
+    this.assertMaskable();
+    this.assertNotSealed(arg);
+
+    const metadata = this.getMap(arg);
+    const hadKey = metadata.has(key);
+    const previousValue = metadata.get(key);
+    const layer = this.getOwnLayer(arg);
+
+    layer.entries.delete(key);
+    if (!layer.detached) {
+      layer.tombstones.add(key);
+    }
+    if (hadKey) {
+      this.emit(arg, { type: 'delete', key, value: undefined, previousValue });
+    }
+  }
+  /**
+   * Remove the mask of a key, so the class and its subclasses inherit the
+   * entry of its parents again.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param key - Masked key in the metadata map.
+   * @returns `true` if the key was masked, `false` otherwise.
+   * @throws {TypeError} If the helper does not use the live resolution.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public delete<T extends object>(arg: T | Constructor<T>, key: K): boolean {
-    return this.getMap(arg).delete(key);
+  public unmask<T extends object>(arg: MetadataTarget<T>, key: K): boolean {
+    this.assertMaskable();
+    this.assertNotSealed(arg);
+
+    const [ownLevel] = this.resolveChain(arg);
+
+    if (!this.readLayer([ownLevel])?.tombstones.delete(key)) {
+      return false;
+    }
+    if (this.isObserved && this.has(arg, key)) {
+      this.emit(arg, {
+        type: 'set',
+        key,
+        value: this.get(arg, key) as V,
+        previousValue: undefined,
+      });
+    }
+    return true;
   }
   /**
    * Check if the metadata under given key is set on a class or an instance constructor.
@@ -149,23 +253,45 @@ export class MapMetadata<K, V> {
    * @returns `true` if the metadata is set, `false` otherwise.
    * @template T - Class instance type.
    */
-  public has<T extends object>(arg: T | Constructor<T>, key: K): boolean {
+  public has<T extends object>(arg: MetadataTarget<T>, key: K): boolean {
     return this.getMap(arg).has(key);
   }
   /**
    * Clear the metadata map on a class or an instance constructor.
    *
-   * The parent metadata map will not be affected.
+   * The parent metadata map will not be affected. In the live mode, the class
+   * stops inheriting the entries of its parents.
    *
    * If the metadata is already defined on a parent class, it will be copied to
    * the new map. The method will not modify the parent map. Later modification
    * of the parent map will not affect the new map.
    *
    * @param arg - Class constructor
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public clear<T extends object>(arg: T | Constructor<T>): void {
-    this.getMap(arg).clear();
+  public clear<T extends object>(arg: MetadataTarget<T>): void {
+    this.assertNotSealed(arg);
+
+    const previousValue = this.isObserved
+      ? new Map(this.getMap(arg))
+      : undefined;
+
+    if (this.isLive) {
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.clear();
+      layer.tombstones.clear();
+      layer.detached = true;
+    } else {
+      this.getMap(arg).clear();
+    }
+    this.emit(arg, {
+      type: 'clear',
+      key: undefined,
+      value: undefined,
+      previousValue,
+    });
   }
   /**
    * Get the size of the metadata map on a class or an instance constructor.
@@ -178,7 +304,199 @@ export class MapMetadata<K, V> {
    * @returns Number of entries in the metadata map.
    * @template T - Class instance type.
    */
-  public getSize<T extends object>(arg: T | Constructor<T>): number {
+  public getSize<T extends object>(arg: MetadataTarget<T>): number {
     return this.getMap(arg).size;
   }
+  /**
+   * Call a callback for every entry of the metadata map of a class or an
+   * instance constructor, including the inherited entries. Unlike `getMap`,
+   * nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @param callback - Callback receiving the value and the key of an entry.
+   * @template T - Class instance type.
+   */
+  public forEach<T extends object>(
+    arg: MetadataTarget<T>,
+    callback: (value: V, key: K) => void,
+  ): void {
+    for (const [key, value] of this.walkEntries(arg)) {
+      callback(value, key);
+    }
+  }
+  /**
+   * Iterate the entries of the metadata map of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the `[key, value]` pairs.
+   * @template T - Class instance type.
+   */
+  public *entries<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<[K, V]> {
+    yield* this.walkEntries(arg);
+  }
+  /**
+   * Iterate the keys of the metadata map of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the keys.
+   * @template T - Class instance type.
+   */
+  public *keys<T extends object>(arg: MetadataTarget<T>): IterableIterator<K> {
+    for (const [key] of this.walkEntries(arg)) {
+      yield key;
+    }
+  }
+  /**
+   * Iterate the values of the metadata map of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the values.
+   * @template T - Class instance type.
+   */
+  public *values<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<V> {
+    for (const [, value] of this.walkEntries(arg)) {
+      yield value;
+    }
+  }
+  /**
+   * Get an iterable of the metadata map of a class or an instance
+   * constructor, e.g. for a `for...of` loop or a spread. Each iteration walks
+   * the entries lazily (see `entries`).
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterable of the `[key, value]` pairs.
+   * @template T - Class instance type.
+   */
+  public iterate<T extends object>(arg: MetadataTarget<T>): Iterable<[K, V]> {
+    return { [Symbol.iterator]: () => this.entries(arg) };
+  }
+  /**
+   * List the entries of the metadata map of a class or an instance
+   * constructor without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns A new array of the `[key, value]` pairs.
+   * @template T - Class instance type.
+   */
+  public toArray<T extends object>(arg: MetadataTarget<T>): [K, V][] {
+    return [...this.entries(arg)];
+  }
+  /**
+   * Find the first value of the metadata map of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving the value and the key of an entry.
+   * @returns The first matching value or `undefined` if none matches.
+   * @template T - Class instance type.
+   */
+  public find<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, key: K) => boolean,
+  ): V | undefined {
+    for (const [key, value] of this.entries(arg)) {
+      if (predicate(value, key)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Select the entries of the metadata map of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving the value and the key of an entry.
+   * @returns A new map of the matching entries.
+   * @template T - Class instance type.
+   */
+  public filter<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, key: K) => boolean,
+  ): Map<K, V> {
+    return new Map(
+      this.toArray(arg).filter(([key, value]) => predicate(value, key)),
+    );
+  }
+  /**
+   * Check if any entry of the metadata map of a class or an instance
+   * constructor matches a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving the value and the key of an entry.
+   * @returns `true` if an entry matches, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public some<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V, key: K) => boolean,
+  ): boolean {
+    for (const [key, value] of this.entries(arg)) {
+      if (predicate(value, key)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  /**
+   * Create a class member decorator storing a value in the metadata map of
+   * the class under the name of the decorated member. The decorator works
+   * both as a legacy and as a standard decorator.
+   *
+   * @param valueFactory - Function creating the value from the member name.
+   * @returns Member decorator exposing this metadata as `metadata` property.
+   */
+  public propertyDecorator(
+    valueFactory: (propertyKey: K) => V,
+  ): MetadataDecorator<this, MemberMetadataDecorator> {
+    return this.createDecorator(({ target, propertyKey }) =>
+      this.set(target, propertyKey as K, valueFactory(propertyKey as K)),
+    );
+  }
+
+  protected createCollection(): Map<K, V> {
+    return new Map();
+  }
+
+  protected removeEntries(collection: Map<K, V>, keys: Set<K>): Map<K, V> {
+    keys.forEach((key) => collection.delete(key));
+
+    return collection;
+  }
+
+  protected appendEntries(
+    collection: Map<K, V>,
+    entries: Map<K, V>,
+  ): Map<K, V> {
+    entries.forEach((value, key) => collection.set(key, value));
+
+    return collection;
+  }
+
+  protected createReadonlyView(collection: Map<K, V>): Map<K, V> {
+    return new ReadonlyMapView(collection);
+  }
+
+  protected iterateCollection(collection: Map<K, V>): Iterable<[K, V]> {
+    return collection.entries();
+  }
+
+  protected findEntry(collection: Map<K, V>, key: K): [V] | undefined {
+    return collection.has(key) ? [collection.get(key) as V] : undefined;
+  }
+
+  protected forEachEntry(
+    collection: Map<K, V>,
+    callback: (entry: V, key: unknown) => void,
+  ): void {
+    collection.forEach((value, key) => callback(value, key));
+  }
 }
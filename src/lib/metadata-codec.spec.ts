@@ -0,0 +1,88 @@
+import {
+  classCodec,
+  createReferenceCodec,
+  dateCodec,
+  MetadataDecodeContext,
+  MetadataEncodeContext,
+  regExpCodec,
+} from './metadata-codec';
+
+describe('(Unit) MetadataCodec', () => {
+  class TestClass {}
+  const encodeContext: MetadataEncodeContext = {
+    encode: (value) => value as string,
+    getClassName: () => 'TestName',
+  };
+  const decodeContext: MetadataDecodeContext = {
+    decode: (data) => data,
+    resolveClass: () => TestClass,
+  };
+
+  describe('dateCodec', () => {
+    it('should store dates as ISO strings', () => {
+      // Arrange
+      const date = new Date('2024-01-02T03:04:05.000Z');
+      // Act
+      const data = dateCodec.encode(date, encodeContext);
+      const decoded = dateCodec.decode(data, decodeContext);
+      // Assert
+      expect(dateCodec.test(date)).toBe(true);
+      expect(dateCodec.test('2024-01-02')).toBe(false);
+      expect(data).toBe('2024-01-02T03:04:05.000Z');
+      expect(decoded).toEqual(date);
+    });
+  });
+
+  describe('regExpCodec', () => {
+    it('should store regular expressions with their flags', () => {
+      // Arrange
+      const regExp = /^[a-z]+$/giu;
+      // Act
+      const data = regExpCodec.encode(regExp, encodeContext);
+      const decoded = regExpCodec.decode(data, decodeContext);
+      // Assert
+      expect(regExpCodec.test(regExp)).toBe(true);
+      expect(data).toEqual({ source: '^[a-z]+$', flags: 'giu' });
+      expect(decoded).toEqual(regExp);
+    });
+  });
+
+  describe('classCodec', () => {
+    it('should store classes by their names', () => {
+      // Arrange
+      // Act
+      const data = classCodec.encode(TestClass, encodeContext);
+      const decoded = classCodec.decode(data, decodeContext);
+      // Assert
+      expect(classCodec.test(TestClass)).toBe(true);
+      expect(classCodec.test(() => undefined)).toBe(false);
+      expect(data).toBe('TestName');
+      expect(decoded).toBe(TestClass);
+    });
+  });
+
+  describe('#createReferenceCodec() - referenced values', () => {
+    it('should store the values by their names', () => {
+      // Arrange
+      const trim = (value: string): string => value.trim();
+      const codec = createReferenceCodec('Transformer', { trim });
+      // Act
+      const data = codec.encode(trim, encodeContext);
+      const decoded = codec.decode(data, decodeContext);
+      // Assert
+      expect(codec.test(trim)).toBe(true);
+      expect(codec.test(() => undefined)).toBe(false);
+      expect(data).toBe('trim');
+      expect(decoded).toBe(trim);
+    });
+
+    it('should throw on an unknown reference', () => {
+      // Arrange
+      const codec = createReferenceCodec('Transformer', {});
+      // Act
+      const decode = (): unknown => codec.decode('toString', decodeContext);
+      // Assert
+      expect(decode).toThrow('Unknown "Transformer" reference "toString".');
+    });
+  });
+});
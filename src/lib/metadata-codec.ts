@@ -0,0 +1,153 @@
+import { JsonValue } from 'type-fest';
+
+/**
+ * Context of a value being encoded into a metadata snapshot.
+ */
+export interface MetadataEncodeContext {
+  /**
+   * Encode a nested value with the codecs of the snapshot.
+   *
+   * @param value - Value to encode.
+   * @returns JSON representation of the value.
+   */
+  encode(value: unknown): JsonValue;
+  /**
+   * Get the name a class is stored under in the snapshot.
+   *
+   * @param ctor - Class constructor.
+   * @returns Name of the class.
+   */
+  getClassName(ctor: object): string;
+}
+/**
+ * Context of a value being decoded from a metadata snapshot.
+ */
+export interface MetadataDecodeContext {
+  /**
+   * Decode a nested value with the codecs of the snapshot.
+   *
+   * @param data - JSON representation of the value.
+   * @returns Decoded value.
+   */
+  decode(data: JsonValue): unknown;
+  /**
+   * Resolve a class stored in the snapshot by its name.
+   *
+   * @param name - Name of the class.
+   * @returns Class constructor.
+   */
+  resolveClass(name: string): object;
+}
+/**
+ * Codec of values which can not be represented in JSON as they are. Encoded
+ * values are stored in a snapshot as `{ "$codec": name, "data": data }`.
+ *
+ * @template T - Type of the values handled by the codec.
+ */
+export interface MetadataCodec<T = unknown> {
+  /**
+   * Unique name of the codec stored along with the encoded values.
+   */
+  readonly name: string;
+  /**
+   * Check if the codec handles a value.
+   *
+   * @param value - Value to check.
+   * @returns `true` if the codec encodes the value, `false` otherwise.
+   */
+  test(value: unknown): boolean;
+  /**
+   * Encode a value into JSON.
+   *
+   * @param value - Value to encode.
+   * @param context - Encoding context.
+   * @returns JSON representation of the value.
+   */
+  encode(value: T, context: MetadataEncodeContext): JsonValue;
+  /**
+   * Decode a value from JSON.
+   *
+   * @param data - JSON representation of the value.
+   * @param context - Decoding context.
+   * @returns Decoded value.
+   */
+  decode(data: JsonValue, context: MetadataDecodeContext): T;
+}
+/**
+ * Codec of `Date` values, stored as ISO strings.
+ */
+export const dateCodec: MetadataCodec<Date> = {
+  name: 'Date',
+  test: (value) => value instanceof Date,
+  encode: (value) => value.toISOString(),
+  decode: (data) => new Date(data as string),
+};
+/**
+ * Codec of `RegExp` values, stored with their source and flags.
+ */
+export const regExpCodec: MetadataCodec<RegExp> = {
+  name: 'RegExp',
+  test: (value) => value instanceof RegExp,
+  encode: (value) => ({ source: value.source, flags: value.flags }),
+  decode: (data) => {
+    const { source, flags } = data as { source: string; flags: string };
+
+    return new RegExp(source, flags);
+  },
+};
+/**
+ * Codec of class references, stored by the class names. Classes are named
+ * and resolved the same way as the classes of the snapshot itself.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const classCodec: MetadataCodec<Function> = {
+  name: 'Class',
+  test: (value) =>
+    typeof value === 'function' &&
+    Function.prototype.toString.call(value).startsWith('class'),
+  encode: (value, context) => context.getClassName(value),
+  decode: (data, context) =>
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    context.resolveClass(data as string) as Function,
+};
+/**
+ * Create a codec of values which can only be referenced, such as functions.
+ * The values are stored under their names in the given record.
+ *
+ * @param name - Unique name of the codec.
+ * @param references - Values by their names.
+ * @returns Codec of the referenced values.
+ * @example
+ *
+ * ```ts
+ * const transformers = createReferenceCodec('Transformer', { trim, lowerCase });
+ * ```
+ */
+export function createReferenceCodec(
+  name: string,
+  references: Record<string, unknown>,
+): MetadataCodec {
+  const names = new Map(
+    Object.entries(references).map(([refName, value]) => [value, refName]),
+  );
+
+  return {
+    name,
+    test: (value) => names.has(value),
+    encode: (value) => names.get(value) as string,
+    decode: (data) => {
+      if (!Object.prototype.hasOwnProperty.call(references, data as string)) {
+        throw new TypeError(`Unknown "${name}" reference "${String(data)}".`);
+      }
+      return references[data as string];
+    },
+  };
+}
+/**
+ * Codecs used by the metadata snapshots if none are given.
+ */
+export const defaultMetadataCodecs: ReadonlyArray<MetadataCodec> = [
+  dateCodec,
+  regExpCodec,
+  classCodec,
+];
@@ -0,0 +1,142 @@
+import { metadataSymbol } from '../testing/standard-decorators';
+import { LifecycleHooks } from './lifecycle-hooks';
+import { MapMetadata } from './map-metadata';
+import { Metadata } from './metadata';
+import { SetMetadata } from './set-metadata';
+
+// Compiled without `experimentalDecorators`, so the decorators below run as
+// native standard decorators with real decorator contexts.
+describe('(Unit) Standard decorators', () => {
+  describe('#classDecorator() - class decorator', () => {
+    it('should store the value on the decorated class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      // Act
+      @testMetadata.classDecorator('testValue')
+      class TestClass {}
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+      expect(testMetadata.get(new TestClass())).toBe('testValue');
+      expect(Object.getOwnPropertySymbols(TestClass)).toContain(metadataSymbol);
+    });
+
+    it('should discover the class right after its definition', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      // Act
+      @testMetadata.classDecorator('testValue')
+      class TestClass {}
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([TestClass]);
+    });
+  });
+
+  describe('#propertyDecorator() - member decorator', () => {
+    it('should store the values of the decorated members', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<PropertyKey, string>(
+        'test:testMetadata',
+      );
+      const decorator = testMetadata.propertyDecorator((key) => String(key));
+      // Act
+      class TestClass {
+        @decorator
+        public static staticField = 1;
+
+        @decorator
+        public field = 1;
+
+        @decorator
+        public method() {}
+      }
+      // Assert
+      expect([...testMetadata.getMap(TestClass)]).toEqual([
+        ['method', 'method'],
+        ['staticField', 'staticField'],
+        ['field', 'field'],
+      ]);
+    });
+
+    it('should discover a class decorated on a static member', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<PropertyKey, string>(
+        'test:testMetadata',
+      );
+      const decorator = testMetadata.propertyDecorator((key) => String(key));
+      // Act
+      class TestClass {
+        @decorator
+        public static staticField = 1;
+      }
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([TestClass]);
+    });
+
+    it('should discover a class decorated on an instance member once instantiated', () => {
+      // Arrange
+      const testMetadata = new MapMetadata<PropertyKey, string>(
+        'test:testMetadata',
+      );
+      const decorator = testMetadata.propertyDecorator((key) => String(key));
+      class TestClass {
+        @decorator
+        public field = 1;
+      }
+      const before = testMetadata.getTargets();
+      // Act
+      new TestClass();
+      // Assert
+      expect(before).toEqual([]);
+      expect(testMetadata.getTargets()).toEqual([TestClass]);
+    });
+  });
+
+  describe('#methodDecorator() - inheritance', () => {
+    it('should inherit the values of a decorated parent class', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<PropertyKey>('test:testMetadata');
+      const decorator = testMetadata.methodDecorator();
+      // Act
+      class ParentClass {
+        @decorator
+        public parentMethod() {}
+      }
+      class ChildClass extends ParentClass {
+        @decorator
+        public childMethod() {}
+      }
+      // Assert
+      expect([...testMetadata.getSet(ParentClass)]).toEqual(['parentMethod']);
+      expect([...testMetadata.getSet(ChildClass)]).toEqual([
+        'parentMethod',
+        'childMethod',
+      ]);
+    });
+
+    it('should run the lifecycle hooks of the decorated methods', async () => {
+      // Arrange
+      const lifecycle = new LifecycleHooks('test:lifecycle', { onInit: {} });
+      const calls: string[] = [];
+      class ParentClass {
+        @lifecycle.hook('onInit')
+        public connect() {
+          calls.push('connect');
+        }
+      }
+      class ChildClass extends ParentClass {
+        @lifecycle.hook('onInit')
+        public warmUp() {
+          calls.push('warmUp');
+        }
+      }
+      // Act
+      await lifecycle.run(new ChildClass(), 'onInit');
+      // Assert
+      expect(calls).toEqual(['connect', 'warmUp']);
+      expect(lifecycle.getMetadata('onInit').getTargets()).toEqual([
+        ParentClass,
+        ChildClass,
+      ]);
+    });
+  });
+});
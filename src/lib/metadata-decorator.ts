@@ -0,0 +1,75 @@
+import type { ClassMemberDecoratorContext } from './property-metadata';
+
+/**
+ * Decorator returned by a metadata helper. The helper which created the
+ * decorator is exposed as the `metadata` property for introspection.
+ *
+ * @template M - Type of the metadata helper.
+ * @template D - Type of the decorator function.
+ */
+export type MetadataDecorator<M, D> = D & {
+  /**
+   * Metadata helper the decorator writes to.
+   */
+  readonly metadata: M;
+};
+/**
+ * Class decorator usable both as a legacy (`experimentalDecorators`) and as
+ * a standard (TC39) decorator.
+ */
+export interface ClassMetadataDecorator {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  (target: Function): void;
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  (value: Function, context: ClassDecoratorContext): void;
+}
+/**
+ * Class member (field, method or accessor) decorator usable both as a legacy
+ * (`experimentalDecorators`) and as a standard (TC39) decorator.
+ */
+export interface MemberMetadataDecorator {
+  (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor?: PropertyDescriptor,
+  ): void;
+  (value: unknown, context: ClassMemberDecoratorContext): void;
+}
+/**
+ * Method decorator usable both as a legacy (`experimentalDecorators`) and as
+ * a standard (TC39) decorator.
+ */
+export interface MethodMetadataDecorator {
+  (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor,
+  ): void;
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  (value: Function, context: ClassMethodDecoratorContext): void;
+}
+/**
+ * Decorator usable on classes as well as on class members, both as a legacy
+ * (`experimentalDecorators`) and as a standard (TC39) decorator.
+ */
+export type ClassOrMemberMetadataDecorator = ClassMetadataDecorator &
+  MemberMetadataDecorator;
+/**
+ * Decorated element resolved from the arguments a decorator was called with.
+ */
+export interface MetadataDecoration {
+  /**
+   * Metadata target to write to: the decorator context for standard
+   * decorators, the class constructor or the prototype for legacy ones.
+   */
+  target: object;
+  /**
+   * Name of the decorated member or `undefined` for a class.
+   */
+  propertyKey: PropertyKey | undefined;
+  /**
+   * The decorated class, prototype or member value as received by the
+   * decorator.
+   */
+  value: unknown;
+}
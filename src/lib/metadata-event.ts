@@ -0,0 +1,84 @@
+/**
+ * Change of a single metadata entry:
+ *
+ * - `'set'` - a value was stored (under a map key, a member or a parameter),
+ * - `'add'` - a value was added to a set or an array,
+ * - `'delete'` - a value was deleted.
+ *
+ * @template E - Type of a single metadata value.
+ */
+export interface MetadataEntryEvent<E> {
+  type: 'set' | 'add' | 'delete';
+  /**
+   * The class (or the decorator metadata object) the metadata belongs to,
+   * the instance itself in the instance target mode.
+   */
+  target: object;
+  /**
+   * Key of the value within the metadata (a map key, an array index,
+   * a property key or a parameter index), `undefined` for plain metadata and
+   * sets.
+   */
+  key: unknown;
+  /**
+   * The new value, `undefined` for deletions.
+   */
+  value: E | undefined;
+  /**
+   * The value before the change, if any.
+   */
+  previousValue: E | undefined;
+}
+/**
+ * Change of a whole metadata collection:
+ *
+ * - `'set'` - the collection was replaced (`ArrayMetadata#set`),
+ * - `'clear'` - the collection was cleared,
+ * - `'init'` - the own collection of a class was initialized, in the
+ *   snapshot mode with a copy of the inherited entries.
+ *
+ * @template S - Type of the collection.
+ */
+export interface MetadataCollectionEvent<S> {
+  type: 'set' | 'clear' | 'init';
+  /**
+   * The class (or the decorator metadata object) the metadata belongs to,
+   * the instance itself in the instance target mode.
+   */
+  target: object;
+  key: undefined;
+  /**
+   * The collection after the change, `undefined` for `'clear'`.
+   */
+  value: S | undefined;
+  /**
+   * The collection before the change, if any.
+   */
+  previousValue: S | undefined;
+}
+/**
+ * Event describing a change of metadata, emitted to the listeners of
+ * a metadata helper after the change was made.
+ *
+ * @template S - Type of the value stored on a single class.
+ * @template E - Type of a single metadata value.
+ */
+export type MetadataEvent<S, E = S> =
+  | MetadataEntryEvent<E>
+  | MetadataCollectionEvent<S>;
+/**
+ * Listener of metadata changes.
+ *
+ * @template S - Type of the value stored on a single class.
+ * @template E - Type of a single metadata value.
+ */
+export type MetadataListener<S, E = S> = (event: MetadataEvent<S, E>) => void;
+/**
+ * Options of a metadata subscription.
+ */
+export interface MetadataSubscribeOptions {
+  /**
+   * Signal ending the subscription once aborted.
+   */
+  signal?: AbortSignal;
+}
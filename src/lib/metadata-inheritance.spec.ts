@@ -0,0 +1,295 @@
+import { inheritValue } from './metadata-inheritance';
+
+describe('(Unit) inheritValue', () => {
+  class TestClass {}
+
+  describe('#inheritValue() - none', () => {
+    it('should return the own value only', () => {
+      // Arrange
+      const parentValue = { parent: true };
+      // Act
+      const value = inheritValue('none', parentValue, undefined, TestClass);
+      // Assert
+      expect(value).toBeUndefined();
+    });
+  });
+
+  describe('#inheritValue() - shallow-copy', () => {
+    it('should copy collections and plain objects of the parent', () => {
+      // Arrange
+      const nested = { nested: true };
+      const parentValues = [
+        new Map([['key', nested]]),
+        new Set([nested]),
+        [nested],
+        { nested },
+        Object.assign(Object.create(null), { nested }),
+      ];
+      // Act
+      const values = parentValues.map((parentValue) =>
+        inheritValue<unknown>(
+          'shallow-copy',
+          parentValue,
+          undefined,
+          TestClass,
+        ),
+      );
+      // Assert
+      values.forEach((value, index) => {
+        expect(value).not.toBe(parentValues[index]);
+        expect(value).toEqual(parentValues[index]);
+      });
+      expect((values[0] as Map<string, object>).get('key')).toBe(nested);
+      expect(Object.getPrototypeOf(values[4])).toBeNull();
+    });
+
+    it('should keep primitives and class instances as they are', () => {
+      // Arrange
+      const instance = new TestClass();
+      // Act
+      const values = [42, instance].map((parentValue) =>
+        inheritValue<unknown>(
+          'shallow-copy',
+          parentValue,
+          undefined,
+          TestClass,
+        ),
+      );
+      // Assert
+      expect(values).toEqual([42, instance]);
+      expect(values[1]).toBe(instance);
+    });
+
+    it('should prefer the own value', () => {
+      // Arrange
+      // Act
+      const value = inheritValue('shallow-copy', 'parent', 'own', TestClass);
+      // Assert
+      expect(value).toBe('own');
+    });
+  });
+
+  describe('#inheritValue() - deep-clone', () => {
+    it('should clone nested values of the parent', () => {
+      // Arrange
+      const parentValue = {
+        array: [{ value: 1 }],
+        map: new Map([['key', { value: 2 }]]),
+        set: new Set([{ value: 3 }]),
+        [Symbol.for('test:symbol')]: { value: 4 },
+      };
+      // Act
+      const value = inheritValue(
+        'deep-clone',
+        parentValue,
+        undefined,
+        TestClass,
+      );
+      // Assert
+      expect(value).toEqual(parentValue);
+      expect(value?.array[0]).not.toBe(parentValue.array[0]);
+      expect(value?.map.get('key')).not.toBe(parentValue.map.get('key'));
+      expect([...(value?.set ?? [])][0]).not.toBe([...parentValue.set][0]);
+    });
+
+    it('should prefer the own value', () => {
+      // Arrange
+      // Act
+      const value = inheritValue('deep-clone', ['parent'], ['own'], TestClass);
+      // Assert
+      expect(value).toEqual(['own']);
+    });
+  });
+
+  describe('#inheritValue() - child-first and parent-first', () => {
+    it('should merge arrays and sets', () => {
+      // Arrange
+      // Act
+      const childFirst = inheritValue('child-first', ['a'], ['b'], TestClass);
+      const parentFirst = inheritValue(
+        'parent-first',
+        new Set(['a']),
+        new Set(['b', 'a']),
+        TestClass,
+      );
+      // Assert
+      expect(childFirst).toEqual(['b', 'a']);
+      expect([...(parentFirst ?? [])]).toEqual(['a', 'b']);
+    });
+
+    it('should merge maps and plain objects respecting the precedence', () => {
+      // Arrange
+      const parentMap = new Map([
+        ['shared', 'parent'],
+        ['parent', 'parent'],
+      ]);
+      const ownMap = new Map([['shared', 'own']]);
+      // Act
+      const childFirst = inheritValue(
+        'child-first',
+        parentMap,
+        ownMap,
+        TestClass,
+      );
+      const childFirstObject = inheritValue(
+        'child-first',
+        { parent: 'parent', shared: 'parent' },
+        { own: 'own', shared: 'own' },
+        TestClass,
+      );
+      const parentFirst = inheritValue(
+        'parent-first',
+        { shared: 'parent', parent: 'parent' },
+        { shared: 'own', own: 'own' },
+        TestClass,
+      );
+      // Assert
+      expect([...(childFirst ?? [])]).toEqual([
+        ['shared', 'own'],
+        ['parent', 'parent'],
+      ]);
+      expect(childFirstObject).toEqual({
+        own: 'own',
+        shared: 'own',
+        parent: 'parent',
+      });
+      expect(Object.keys(childFirstObject ?? {})).toEqual([
+        'own',
+        'shared',
+        'parent',
+      ]);
+      expect(parentFirst).toEqual({
+        shared: 'parent',
+        parent: 'parent',
+        own: 'own',
+      });
+      expect(Object.keys(parentFirst ?? {})).toEqual([
+        'shared',
+        'parent',
+        'own',
+      ]);
+    });
+
+    it('should copy the only defined value', () => {
+      // Arrange
+      const parentValue = ['a'];
+      // Act
+      const childFirst = inheritValue(
+        'child-first',
+        parentValue,
+        undefined,
+        TestClass,
+      );
+      const parentFirst = inheritValue(
+        'parent-first',
+        parentValue,
+        undefined,
+        TestClass,
+      );
+      // Assert
+      expect(childFirst).toEqual(['a']);
+      expect(childFirst).not.toBe(parentValue);
+      expect(parentFirst).toEqual(['a']);
+      expect(parentFirst).not.toBe(parentValue);
+    });
+
+    it('should take primitives as a whole', () => {
+      // Arrange
+      // Act
+      const childFirst = inheritValue('child-first', 1, 2, TestClass);
+      const parentFirst = inheritValue('parent-first', 1, 2, TestClass);
+      // Assert
+      expect(childFirst).toBe(2);
+      expect(parentFirst).toBe(1);
+    });
+  });
+
+  describe('#inheritValue() - deep-merge', () => {
+    it('should merge nested maps and plain objects', () => {
+      // Arrange
+      const parentValue = {
+        timeout: 1000,
+        headers: { accept: 'json', cache: 'none' },
+        roles: new Map([['admin', { read: true, write: true }]]),
+        tags: ['parent'],
+      };
+      const ownValue = {
+        headers: { cache: 'max-age=60' },
+        roles: new Map([
+          ['admin', { write: false }],
+          ['guest', { read: true }],
+        ]),
+        tags: ['own'],
+      };
+      // Act
+      const value = inheritValue(
+        'deep-merge',
+        parentValue as Record<string, unknown>,
+        ownValue,
+        TestClass,
+      );
+      // Assert
+      expect(value).toEqual({
+        timeout: 1000,
+        headers: { accept: 'json', cache: 'max-age=60' },
+        roles: new Map([
+          ['admin', { read: true, write: false }],
+          ['guest', { read: true }],
+        ]),
+        tags: ['own', 'parent'],
+      });
+      expect(Object.keys(value ?? {})).toEqual([
+        'headers',
+        'roles',
+        'tags',
+        'timeout',
+      ]);
+      expect(Object.keys(value?.headers ?? {})).toEqual(['cache', 'accept']);
+      expect(parentValue.headers).toEqual({ accept: 'json', cache: 'none' });
+      expect(parentValue.roles.get('admin')).toEqual({
+        read: true,
+        write: true,
+      });
+    });
+
+    it('should take the own value of a different kind', () => {
+      // Arrange
+      // Act
+      const value = inheritValue<unknown>(
+        'deep-merge',
+        { nested: { value: 1 } },
+        { nested: 'own' },
+        TestClass,
+      );
+      // Assert
+      expect(value).toEqual({ nested: 'own' });
+    });
+
+    it('should copy the only defined value', () => {
+      // Arrange
+      const parentValue = new Map([['key', 'parent']]);
+      // Act
+      const value = inheritValue(
+        'deep-merge',
+        parentValue,
+        undefined,
+        TestClass,
+      );
+      // Assert
+      expect(value).toEqual(parentValue);
+      expect(value).not.toBe(parentValue);
+    });
+  });
+
+  describe('#inheritValue() - custom merger', () => {
+    it('should call the merger with both values and the class', () => {
+      // Arrange
+      const merger = jest.fn(() => 'merged');
+      // Act
+      const value = inheritValue(merger, 'parent', 'own', TestClass);
+      // Assert
+      expect(value).toBe('merged');
+      expect(merger).toHaveBeenCalledWith('parent', 'own', TestClass);
+    });
+  });
+});
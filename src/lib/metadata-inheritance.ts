@@ -0,0 +1,198 @@
+/**
+ * Custom inheritance merger. It is called for every class of an inheritance
+ * chain, from the root class down, and combines the value resolved for the
+ * parent class with the own value of the class.
+ *
+ * @param parentValue - Value resolved for the parent class or `undefined`.
+ * @param ownValue - Own value of the class or `undefined`.
+ * @param ctor - The class the value is resolved for (or the decorator
+ *  metadata object if the class is not known).
+ * @returns The value resolved for the class.
+ * @template V - Type of the value.
+ */
+export type MetadataMerger<V> = (
+  parentValue: V | undefined,
+  ownValue: V | undefined,
+  ctor: object,
+) => V | undefined;
+/**
+ * Strategy of combining the metadata inherited from parent classes with the
+ * own metadata of a class:
+ *
+ * - `'none'` - the class sees its own metadata only,
+ * - `'shallow-copy'` - the class inherits a shallow copy of the parent value,
+ * - `'deep-clone'` - the class inherits a deep clone of the parent value,
+ * - `'child-first'` - own and parent values are merged, own entries take
+ *   precedence and come first,
+ * - `'parent-first'` - own and parent values are merged, parent entries take
+ *   precedence and come first,
+ * - `'deep-merge'` - own and parent values are merged like `'child-first'`,
+ *   but the entries of maps and plain objects defined by both values are
+ *   merged recursively as well,
+ * - a custom `MetadataMerger` function.
+ *
+ * Arrays, sets, maps and plain objects are copied and merged entry by entry,
+ * any other value (a primitive or a class instance) is taken as a whole.
+ *
+ * @template V - Type of the value.
+ */
+export type MetadataInheritance<V> =
+  | 'none'
+  | 'shallow-copy'
+  | 'deep-clone'
+  | 'child-first'
+  | 'parent-first'
+  | 'deep-merge'
+  | MetadataMerger<V>;
+/**
+ * Combine the value resolved for a parent class with the own value of
+ * a class. The parent value is never modified.
+ *
+ * @param inheritance - Inheritance strategy.
+ * @param parentValue - Value resolved for the parent class or `undefined`.
+ * @param ownValue - Own value of the class or `undefined`.
+ * @param ctor - The class the value is resolved for.
+ * @returns The value resolved for the class.
+ * @template V - Type of the value.
+ */
+export function inheritValue<V>(
+  inheritance: MetadataInheritance<V>,
+  parentValue: V | undefined,
+  ownValue: V | undefined,
+  ctor: object,
+): V | undefined {
+  if (typeof inheritance === 'function') {
+    return inheritance(parentValue, ownValue, ctor);
+  }
+  switch (inheritance) {
+    case 'none':
+      return ownValue;
+    case 'shallow-copy':
+      return ownValue !== undefined ? ownValue : shallowCopy(parentValue);
+    case 'deep-clone':
+      return ownValue !== undefined ? ownValue : deepClone(parentValue);
+    case 'child-first':
+      return combine(ownValue, parentValue);
+    case 'parent-first':
+      return combine(parentValue, ownValue);
+    case 'deep-merge':
+      return deepMerge(ownValue, parentValue);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+function shallowCopy<V>(value: V): V {
+  if (value instanceof Map) {
+    return new Map(value) as V;
+  } else if (value instanceof Set) {
+    return new Set(value) as V;
+  } else if (Array.isArray(value)) {
+    return [...value] as V;
+  } else if (isPlainObject(value)) {
+    return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+  }
+  return value;
+}
+
+function deepClone<V>(value: V): V {
+  if (value instanceof Map) {
+    return new Map(
+      [...value].map(([key, entry]) => [key, deepClone(entry)]),
+    ) as V;
+  } else if (value instanceof Set) {
+    return new Set([...value].map((entry) => deepClone(entry))) as V;
+  } else if (Array.isArray(value)) {
+    return value.map((entry) => deepClone(entry)) as V;
+  } else if (isPlainObject(value)) {
+    const clone = Object.create(Object.getPrototypeOf(value));
+
+    Reflect.ownKeys(value).forEach((key) => {
+      clone[key] = deepClone(value[key]);
+    });
+    return clone;
+  }
+  return value;
+}
+/**
+ * Copy the keys of a plain object missing in the target object, after the
+ * keys the target already has.
+ */
+function assignMissing<T extends Record<PropertyKey, unknown>>(
+  target: T,
+  source: Record<PropertyKey, unknown>,
+): T {
+  Reflect.ownKeys(source).forEach((key) => {
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      Reflect.set(target, key, source[key]);
+    }
+  });
+  return target;
+}
+/**
+ * Merge two values of the same kind. Entries of the first value take
+ * precedence and come first.
+ */
+function combine<V>(
+  first: V | undefined,
+  second: V | undefined,
+): V | undefined {
+  if (first === undefined) {
+    return shallowCopy(second);
+  } else if (second === undefined) {
+    return shallowCopy(first);
+  } else if (first instanceof Map && second instanceof Map) {
+    return new Map([
+      ...first,
+      ...[...second].filter(([key]) => !first.has(key)),
+    ]) as V;
+  } else if (first instanceof Set && second instanceof Set) {
+    return new Set([...first, ...second]) as V;
+  } else if (Array.isArray(first) && Array.isArray(second)) {
+    return [...first, ...second] as V;
+  } else if (isPlainObject(first) && isPlainObject(second)) {
+    return assignMissing(
+      Object.assign(Object.create(Object.getPrototypeOf(first)), first),
+      second,
+    );
+  }
+  return first;
+}
+/**
+ * Merge two values of the same kind recursively. Entries of the first value
+ * take precedence and come first, the entries of maps and plain objects
+ * defined by both values are merged as well.
+ */
+function deepMerge<V>(
+  first: V | undefined,
+  second: V | undefined,
+): V | undefined {
+  if (first instanceof Map && second instanceof Map) {
+    const merged = new Map(first);
+
+    second.forEach((entry, key) =>
+      merged.set(
+        key,
+        merged.has(key) ? deepMerge(merged.get(key), entry) : entry,
+      ),
+    );
+    return merged as V;
+  } else if (isPlainObject(first) && isPlainObject(second)) {
+    const merged = Object.create(Object.getPrototypeOf(first));
+
+    Reflect.ownKeys(first).forEach((key) => {
+      merged[key] = Object.prototype.hasOwnProperty.call(second, key)
+        ? deepMerge(first[key], second[key])
+        : first[key];
+    });
+    return assignMissing(merged, second);
+  }
+  return combine(first, second);
+}
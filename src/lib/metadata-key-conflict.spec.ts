@@ -0,0 +1,83 @@
+import { Metadata } from './metadata';
+import {
+  detectMetadataKeyConflict,
+  getMetadataKeyConflictHandler,
+  MetadataKeyConflictHandler,
+  setMetadataKeyConflictHandler,
+} from './metadata-key-conflict';
+
+describe('(Unit) detectMetadataKeyConflict', () => {
+  let defaultHandler: MetadataKeyConflictHandler | undefined;
+
+  beforeEach(() => {
+    defaultHandler = getMetadataKeyConflictHandler();
+  });
+
+  afterEach(() => {
+    setMetadataKeyConflictHandler(defaultHandler);
+  });
+
+  describe('#detectMetadataKeyConflict() - detection', () => {
+    it('should report helpers with the same description writing to a class', () => {
+      // Arrange
+      const handler = jest.fn();
+      const first = new Metadata<string>('test:testMetadata');
+      const second = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      setMetadataKeyConflictHandler(handler);
+      // Act
+      first.set(TestClass, 'first');
+      second.set(TestClass, 'second');
+      second.set(TestClass, 'second');
+      // Assert
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({
+        target: TestClass,
+        description: 'test:testMetadata',
+        keys: [first.metadataKey, second.metadataKey],
+      });
+    });
+
+    it('should not report helpers sharing a global key', () => {
+      // Arrange
+      const handler = jest.fn();
+      const first = Metadata.global<string>('test:conflictMetadata');
+      const second = Metadata.global<string>('test:conflictMetadata');
+      class TestClass {}
+      setMetadataKeyConflictHandler(handler);
+      // Act
+      first.set(TestClass, 'first');
+      second.set(TestClass, 'second');
+      // Assert
+      expect(handler).not.toHaveBeenCalled();
+      expect(first.get(TestClass)).toBe('second');
+    });
+
+    it('should warn on the console by default', () => {
+      // Arrange
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      class TestClass {}
+      // Act
+      detectMetadataKeyConflict(TestClass, Symbol('test:warn'), TestClass);
+      detectMetadataKeyConflict(TestClass, Symbol('test:warn'), TestClass);
+      // Assert
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('Metadata "test:warn" was written'),
+      );
+      warn.mockRestore();
+    });
+
+    it('should not detect anything when disabled', () => {
+      // Arrange
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      class TestClass {}
+      setMetadataKeyConflictHandler(undefined);
+      // Act
+      detectMetadataKeyConflict(TestClass, Symbol('test:warn'), TestClass);
+      detectMetadataKeyConflict(TestClass, Symbol('test:warn'), TestClass);
+      // Assert
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Two metadata helpers with the same description, but different keys, have
+ * written to the same class. This typically happens when two copies of
+ * a library defining the metadata are loaded in one process (e.g. its ESM and
+ * CJS builds) and each of them creates its own unique key.
+ */
+export interface MetadataKeyConflict {
+  /**
+   * The class (or the decorator metadata object) both helpers wrote to.
+   */
+  target: object;
+  /**
+   * Description shared by the keys.
+   */
+  description: string;
+  /**
+   * All the keys with the description which wrote to the class.
+   */
+  keys: symbol[];
+}
+/**
+ * Handler of metadata key conflicts.
+ */
+export type MetadataKeyConflictHandler = (
+  conflict: MetadataKeyConflict,
+) => void;
+
+const defaultHandler: MetadataKeyConflictHandler = (conflict) =>
+  console.warn(
+    `Metadata "${conflict.description}" was written to the same class by ` +
+      `${conflict.keys.length} helpers with different keys. Use a global key ` +
+      'to share the metadata between copies of a library.',
+  );
+
+let conflictHandler: MetadataKeyConflictHandler | undefined = defaultHandler;
+
+/**
+ * Keys written to each holder by their descriptions. The map is shared by all
+ * copies of this library loaded in the process.
+ */
+const writtenKeys = ((
+  globalThis as {
+    [key: symbol]: WeakMap<object, Map<string, Set<symbol>>> | undefined;
+  }
+)[Symbol.for('class-metadata:written-keys')] ??= new WeakMap());
+
+/**
+ * Get the handler of metadata key conflicts.
+ *
+ * @returns The current handler or `undefined` if the detection is disabled.
+ */
+export function getMetadataKeyConflictHandler():
+  | MetadataKeyConflictHandler
+  | undefined {
+  return conflictHandler;
+}
+/**
+ * Set the handler of metadata key conflicts. By default, a warning is printed
+ * to the console.
+ *
+ * @param handler - New handler or `undefined` to disable the detection.
+ */
+export function setMetadataKeyConflictHandler(
+  handler: MetadataKeyConflictHandler | undefined,
+): void {
+  conflictHandler = handler;
+}
+/**
+ * Record a key written to a holder and report a conflict if a different key
+ * with the same description has written to the holder before.
+ *
+ * @param holder - Object the metadata was written to.
+ * @param key - Metadata key.
+ * @param target - The class reported in the conflict.
+ */
+export function detectMetadataKeyConflict(
+  holder: object,
+  key: symbol,
+  target: object,
+): void {
+  const { description } = key;
+
+  if (!conflictHandler || !description) {
+    return;
+  }
+  let keysByDescription = writtenKeys.get(holder);
+
+  if (!keysByDescription) {
+    keysByDescription = new Map();
+    writtenKeys.set(holder, keysByDescription);
+  }
+  const keys = keysByDescription.get(description) ?? new Set<symbol>();
+
+  if (!keys.has(key)) {
+    keys.add(key);
+    keysByDescription.set(description, keys);
+
+    if (keys.size > 1) {
+      conflictHandler({ target, description, keys: [...keys] });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { isMetadataLocked, setMetadataLocked } from './metadata-lock';
+import { Metadata } from './metadata';
+import { MetadataSealedError } from './metadata-sealed-error';
+
+describe('(Unit) setMetadataLocked', () => {
+  afterEach(() => setMetadataLocked(false));
+
+  describe('#setMetadataLocked() - global lock', () => {
+    it('should not lock the metadata by default', () => {
+      // Arrange
+      // Act
+      const locked = isMetadataLocked();
+      // Assert
+      expect(locked).toBe(false);
+    });
+
+    it('should seal the metadata of all helpers', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'testValue');
+      // Act
+      setMetadataLocked(true);
+      // Assert
+      expect(testMetadata.isSealed(TestClass)).toBe(true);
+      expect(() => testMetadata.set(TestClass, 'newValue')).toThrow(
+        MetadataSealedError,
+      );
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+    });
+
+    it('should allow modifications again once unlocked', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      setMetadataLocked(true);
+      // Act
+      setMetadataLocked(false);
+      testMetadata.set(TestClass, 'testValue');
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+    });
+
+    it('should not lock the metadata of instances in the instance target mode', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.set(TestClass, 'class');
+      setMetadataLocked(true);
+      // Act
+      testMetadata.set(instance, 'instance');
+      // Assert
+      expect(testMetadata.get(instance)).toBe('instance');
+      expect(testMetadata.isSealed(instance)).toBe(false);
+      expect(() => testMetadata.set(TestClass, 'newValue')).toThrow(
+        MetadataSealedError,
+      );
+    });
+  });
+});
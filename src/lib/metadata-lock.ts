@@ -0,0 +1,23 @@
+let locked = false;
+
+/**
+ * Check if all metadata is locked (see `setMetadataLocked`).
+ *
+ * @returns `true` if the metadata is locked, `false` otherwise.
+ */
+export function isMetadataLocked(): boolean {
+  return locked;
+}
+/**
+ * Lock or unlock all metadata of all metadata helpers. Locked metadata
+ * behaves as sealed: it can be read, but not modified. The lock is meant to
+ * be switched on once the application has finished its bootstrap.
+ *
+ * The metadata of instances in the instance target mode (see the `target`
+ * option) is not locked, as it changes at runtime.
+ *
+ * @param value - `true` to lock the metadata, `false` to unlock it.
+ */
+export function setMetadataLocked(value: boolean): void {
+  locked = value;
+}
@@ -0,0 +1,47 @@
+import { isClassInstance } from './metadata-target';
+
+/**
+ * Error thrown when the `before` and `after` constraints of the entries of
+ * a `SortedArrayMetadata` form a cycle.
+ */
+export class MetadataOrderError extends Error {
+  /**
+   * The class (or the decorator metadata object) the metadata belongs to,
+   * the instance itself in the instance target mode.
+   */
+  public readonly target: object;
+  /**
+   * Description of the metadata key.
+   */
+  public readonly description: string;
+  /**
+   * Ids of the entries forming the cycle, the first entry is repeated at the
+   * end. Entries without an id are listed as `undefined`.
+   */
+  public readonly cycle: ReadonlyArray<PropertyKey | undefined>;
+
+  constructor(
+    target: object,
+    description: string,
+    cycle: ReadonlyArray<PropertyKey | undefined>,
+  ) {
+    const className =
+      target instanceof Function
+        ? target.name
+        : isClassInstance(target)
+          ? `${target.constructor.name} instance`
+          : 'decorator metadata';
+    const path = cycle
+      .map((id) => (id === undefined ? '<anonymous>' : String(id)))
+      .join(' -> ');
+
+    super(
+      `Metadata "${description}" on "${className}" can not be sorted, the ` +
+        `order constraints form a cycle: ${path}.`,
+    );
+    this.name = 'MetadataOrderError';
+    this.target = target;
+    this.description = description;
+    this.cycle = cycle;
+  }
+}
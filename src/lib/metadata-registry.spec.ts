@@ -0,0 +1,151 @@
+import { metadataSymbol } from '../testing/standard-decorators';
+import { ArrayMetadata } from './array-metadata';
+import { MapMetadata } from './map-metadata';
+import { Metadata } from './metadata';
+import {
+  getDefaultMetadataRegistry,
+  MetadataRegistry,
+  setDefaultMetadataRegistry,
+} from './metadata-registry';
+import { ParameterMetadata } from './parameter-metadata';
+import { PropertyMetadata } from './property-metadata';
+import { SetMetadata } from './set-metadata';
+
+describe('(Unit) MetadataRegistry', () => {
+  describe('#register() - registration', () => {
+    it('should register metadata helpers created with the registry option', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      // Act
+      const helpers = [
+        new Metadata('test:metadata', { registry, package: 'test-package' }),
+        new MapMetadata('test:map', { registry }),
+        new SetMetadata('test:set', { registry }),
+        new ArrayMetadata('test:array', { registry }),
+        new PropertyMetadata('test:property', { registry }),
+        new ParameterMetadata('test:parameter', { registry }),
+      ];
+      // Assert
+      expect(registry.list().map((entry) => entry.metadata)).toEqual(helpers);
+      expect(registry.list().map((entry) => entry.kind)).toEqual([
+        'metadata',
+        'map',
+        'set',
+        'array',
+        'property',
+        'parameter',
+      ]);
+      expect(registry.list()[0]).toMatchObject({
+        description: 'test:metadata',
+        package: 'test-package',
+      });
+    });
+
+    it('should not register metadata helpers by default', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      // Act
+      new Metadata('test:metadata');
+      // Assert
+      expect(getDefaultMetadataRegistry()).toBeUndefined();
+      expect(registry.list()).toEqual([]);
+    });
+
+    it('should register metadata helpers into the default registry', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      setDefaultMetadataRegistry(registry);
+      // Act
+      const testMetadata = new Metadata('test:metadata');
+      setDefaultMetadataRegistry(undefined);
+      new Metadata('test:otherMetadata');
+      // Assert
+      expect(registry.list().map((entry) => entry.metadata)).toEqual([
+        testMetadata,
+      ]);
+    });
+  });
+
+  describe('#unregister() - unregistration', () => {
+    it('should remove a metadata helper from the registry', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      const testMetadata = new Metadata('test:metadata', { registry });
+      // Act
+      const wasRemoved = registry.unregister(testMetadata);
+      const wasRemovedAgain = registry.unregister(testMetadata);
+      // Assert
+      expect(wasRemoved).toBe(true);
+      expect(wasRemovedAgain).toBe(false);
+      expect(registry.list()).toEqual([]);
+    });
+  });
+
+  describe('#find() - lookup', () => {
+    it('should find all metadata helpers with a description', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      const first = new Metadata('test:metadata', { registry });
+      const second = new SetMetadata('test:metadata', { registry });
+      new Metadata('test:otherMetadata', { registry });
+      // Act
+      const entries = registry.find('test:metadata');
+      // Assert
+      expect(entries.map((entry) => entry.metadata)).toEqual([first, second]);
+      expect(registry.find('test:unknown')).toEqual([]);
+    });
+
+    it('should register a metadata helper without a key description', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      // Act
+      new Metadata(Symbol(), { registry });
+      // Assert
+      expect(registry.find('')).toHaveLength(1);
+    });
+  });
+
+  describe('#forClass() - class metadata listing', () => {
+    it('should list own and inherited metadata with their origin', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      const parentMetadata = new Metadata<string>('test:parent', { registry });
+      const childMetadata = new SetMetadata<string>('test:child', {
+        registry,
+      });
+      new Metadata<string>('test:unused', { registry });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      parentMetadata.set(ParentClass, 'parent');
+      childMetadata.add(ChildClass, 'child');
+      // Act
+      const entries = registry.forClass(new ChildClass());
+      // Assert
+      expect(
+        entries.map(({ description, origin, inherited }) => ({
+          description,
+          origin,
+          inherited,
+        })),
+      ).toEqual([
+        { description: 'test:parent', origin: ParentClass, inherited: true },
+        { description: 'test:child', origin: ChildClass, inherited: false },
+      ]);
+    });
+
+    it('should list metadata stored through standard decorators', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      const testMetadata = new Metadata<string>('test:metadata', { registry });
+      const metadata = Object.create(null);
+      class TestClass {}
+      testMetadata.set(metadata, 'testValue');
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Act
+      const entries = registry.forClass(TestClass);
+      // Assert
+      expect(entries).toHaveLength(1);
+      expect(entries[0].origin).toBe(TestClass);
+    });
+  });
+});
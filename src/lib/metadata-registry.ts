@@ -0,0 +1,196 @@
+import type { MetadataStorage } from './metadata-storage';
+import { getMetadataChain, getMetadataLevelOwner } from './metadata-target';
+
+/**
+ * Kind of a metadata helper.
+ */
+export type MetadataKind =
+  | 'metadata'
+  | 'map'
+  | 'set'
+  | 'array'
+  | 'property'
+  | 'parameter';
+/**
+ * Metadata helper as seen by a `MetadataRegistry`.
+ */
+export interface RegisteredMetadata {
+  /**
+   * Unique symbol the metadata is stored under.
+   */
+  readonly metadataKey: symbol;
+  /**
+   * Kind of the metadata helper.
+   */
+  readonly kind: MetadataKind;
+  /**
+   * Storage backend the metadata is persisted in.
+   */
+  readonly storage: MetadataStorage;
+}
+/**
+ * Metadata helper registered in a `MetadataRegistry`.
+ */
+export interface MetadataRegistryEntry {
+  /**
+   * The registered metadata helper.
+   */
+  metadata: RegisteredMetadata;
+  /**
+   * Description of the metadata key (the key the helper was created with).
+   */
+  description: string;
+  /**
+   * Kind of the metadata helper.
+   */
+  kind: MetadataKind;
+  /**
+   * Name of the package owning the metadata, if known.
+   */
+  package: string | undefined;
+}
+/**
+ * Metadata attached to a class, as listed by `MetadataRegistry#forClass`.
+ */
+export interface MetadataClassEntry extends MetadataRegistryEntry {
+  /**
+   * The class (or its decorator metadata object) the metadata is stored on.
+   * It is either the class itself or one of its ancestors.
+   */
+  origin: object;
+  /**
+   * `true` if the metadata is inherited from an ancestor.
+   */
+  inherited: boolean;
+}
+/**
+ * Registry of metadata helpers. It answers the question "what metadata is
+ * attached to this class?", which can not be answered from the unique
+ * metadata keys alone.
+ *
+ * The registry is opt-in: metadata helpers register into the registry passed
+ * in their `registry` option or into the process wide default registry, if one
+ * was set with `setDefaultMetadataRegistry`.
+ *
+ * @example
+ *
+ * ```ts
+ * const registry = new MetadataRegistry();
+ * setDefaultMetadataRegistry(registry);
+ *
+ * const entity = new Metadata<string>('orm:entity', { package: 'my-orm' });
+ *
+ * @entity.classDecorator('users')
+ * class User {}
+ *
+ * console.log(registry.forClass(User)); // [{ description: 'orm:entity', ... }]
+ * ```
+ */
+export class MetadataRegistry {
+  private readonly entries = new Map<
+    RegisteredMetadata,
+    MetadataRegistryEntry
+  >();
+  /**
+   * Register a metadata helper. Registering the same helper again replaces
+   * its entry.
+   *
+   * @param metadata - Metadata helper to register.
+   * @param packageName - Name of the package owning the metadata.
+   * @returns The registry entry.
+   */
+  public register(
+    metadata: RegisteredMetadata,
+    packageName?: string,
+  ): MetadataRegistryEntry {
+    const entry: MetadataRegistryEntry = {
+      metadata,
+      description: metadata.metadataKey.description ?? '',
+      kind: metadata.kind,
+      package: packageName,
+    };
+
+    this.entries.set(metadata, entry);
+
+    return entry;
+  }
+  /**
+   * Remove a metadata helper from the registry.
+   *
+   * @param metadata - Metadata helper to remove.
+   * @returns `true` if the helper was registered, `false` otherwise.
+   */
+  public unregister(metadata: RegisteredMetadata): boolean {
+    return this.entries.delete(metadata);
+  }
+  /**
+   * List all registered metadata helpers in the order of registration.
+   *
+   * @returns Registry entries.
+   */
+  public list(): MetadataRegistryEntry[] {
+    return [...this.entries.values()];
+  }
+  /**
+   * Find the metadata helpers registered under a description. More helpers
+   * can share the same description, as each of them has its own unique key.
+   *
+   * @param description - Description of the metadata key.
+   * @returns Matching registry entries.
+   */
+  public find(description: string): MetadataRegistryEntry[] {
+    return this.list().filter((entry) => entry.description === description);
+  }
+  /**
+   * List the registered metadata attached to a class, including the metadata
+   * inherited from its ancestors.
+   *
+   * @param target - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @returns Entries of the metadata attached to the class, each with the
+   *  class it is stored on.
+   */
+  public forClass(target: object): MetadataClassEntry[] {
+    const levels = getMetadataChain(target);
+    const classEntries: MetadataClassEntry[] = [];
+
+    this.entries.forEach((entry) => {
+      const { storage, metadataKey } = entry.metadata;
+      const index = levels.findIndex((level) =>
+        level.some((holder) => storage.has(holder, metadataKey)),
+      );
+
+      if (index >= 0) {
+        classEntries.push({
+          ...entry,
+          origin: getMetadataLevelOwner(levels[index]),
+          inherited: index > 0,
+        });
+      }
+    });
+    return classEntries;
+  }
+}
+
+let defaultRegistry: MetadataRegistry | undefined;
+
+/**
+ * Get the process wide registry all metadata helpers register into.
+ *
+ * @returns Default metadata registry or `undefined` if none was set.
+ */
+export function getDefaultMetadataRegistry(): MetadataRegistry | undefined {
+  return defaultRegistry;
+}
+/**
+ * Set the process wide registry all metadata helpers register into. Only
+ * helpers created afterwards are registered, so the registry should be set
+ * before any metadata helper is created.
+ *
+ * @param registry - New default registry or `undefined` to stop registering.
+ */
+export function setDefaultMetadataRegistry(
+  registry: MetadataRegistry | undefined,
+): void {
+  defaultRegistry = registry;
+}
@@ -0,0 +1,329 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { ArrayMetadata } from './array-metadata';
+import { MapMetadata } from './map-metadata';
+import { Metadata } from './metadata';
+import {
+  getMetadataScopeContext,
+  MetadataScope,
+  MetadataScopeContext,
+  setMetadataScopeContext,
+} from './metadata-scope';
+import { MemberMetadata, PropertyMetadata } from './property-metadata';
+import { SetMetadata } from './set-metadata';
+
+/**
+ * Load a fresh copy of the scope module, creating its default context again.
+ */
+function loadScopeModule(): typeof import('./metadata-scope') {
+  let scopeModule: typeof import('./metadata-scope') | undefined;
+
+  jest.isolateModules(() => {
+    scopeModule =
+      jest.requireActual<typeof import('./metadata-scope')>('./metadata-scope');
+  });
+  return scopeModule as typeof import('./metadata-scope');
+}
+
+describe('(Unit) MetadataScope', () => {
+  describe('#run() - overrides', () => {
+    it('should read the overridden value inside the scope only', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'original');
+      const scope = new MetadataScope().override(
+        testMetadata,
+        TestClass,
+        'overridden',
+      );
+      // Act
+      const value = scope.run(() => testMetadata.get(TestClass));
+      // Assert
+      expect(value).toBe('overridden');
+      expect(testMetadata.get(TestClass)).toBe('original');
+    });
+
+    it('should override the metadata of all helper kinds', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const mapMetadata = new MapMetadata<string, number>('test:mapMetadata');
+      const setMetadata = new SetMetadata<string>('test:setMetadata');
+      const arrayMetadata = new ArrayMetadata<string>('test:arrayMetadata');
+      class TestClass {}
+      mapMetadata.set(TestClass, 'original', 1);
+      setMetadata.add(TestClass, 'original');
+      arrayMetadata.add(TestClass, 'original');
+      const scope = new MetadataScope()
+        .override(testMetadata, TestClass, 'overridden')
+        .override(mapMetadata, TestClass, new Map([['overridden', 2]]))
+        .override(setMetadata, TestClass, new Set(['overridden']))
+        .override(arrayMetadata, TestClass, ['overridden']);
+      // Act
+      const values = scope.run(() => [
+        testMetadata.get(TestClass),
+        [...mapMetadata.getMap(TestClass)],
+        [...setMetadata.getSet(TestClass)],
+        arrayMetadata.get(TestClass),
+      ]);
+      // Assert
+      expect(values).toEqual([
+        'overridden',
+        [['overridden', 2]],
+        ['overridden'],
+        ['overridden'],
+      ]);
+      expect([...mapMetadata.getMap(TestClass)]).toEqual([['original', 1]]);
+      expect([...setMetadata.getSet(TestClass)]).toEqual(['original']);
+      expect(arrayMetadata.get(TestClass)).toEqual(['original']);
+    });
+
+    it('should replace the inherited entries in the live mode', () => {
+      // Arrange
+      const mapMetadata = new MapMetadata<string, number>('test:mapMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      mapMetadata.set(ParentClass, 'parent', 1);
+      mapMetadata.set(ChildClass, 'child', 2);
+      const scope = new MetadataScope().override(
+        mapMetadata,
+        ChildClass,
+        new Map([['overridden', 3]]),
+      );
+      // Act
+      const entries = scope.run(() => {
+        mapMetadata.set(ChildClass, 'scoped', 4);
+
+        return [...mapMetadata.getMap(ChildClass)];
+      });
+      // Assert
+      expect(entries).toEqual([
+        ['overridden', 3],
+        ['scoped', 4],
+      ]);
+      expect([...mapMetadata.getMap(ChildClass)]).toEqual([
+        ['parent', 1],
+        ['child', 2],
+      ]);
+    });
+
+    it('should let subclasses inherit the overridden value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'original');
+      // Act
+      const value = testMetadata.withOverride(ParentClass, 'overridden', () =>
+        testMetadata.get(ChildClass),
+      );
+      // Assert
+      expect(value).toBe('overridden');
+    });
+
+    it('should override the members of property metadata', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {
+        public name!: string;
+      }
+      testMetadata.set(TestClass.prototype, 'name', 'original');
+      const scope = new MetadataScope().override(testMetadata, TestClass, {
+        static: new Map(),
+        instance: new Map<PropertyKey, MemberMetadata<string>>([
+          [
+            'name',
+            {
+              propertyKey: 'name',
+              kind: 'field',
+              static: false,
+              value: 'overridden',
+            },
+          ],
+        ]),
+      });
+      // Act
+      const value = scope.run(() =>
+        testMetadata.get(TestClass.prototype, 'name'),
+      );
+      // Assert
+      expect(value).toBe('overridden');
+      expect(testMetadata.get(TestClass.prototype, 'name')).toBe('original');
+    });
+
+    it('should override the metadata of a decorator metadata object', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const metadataObject = Object.create(null);
+      testMetadata.set(metadataObject, 'original');
+      // Act
+      const value = testMetadata.withOverride(
+        metadataObject,
+        'overridden',
+        () => testMetadata.get(metadataObject),
+      );
+      // Assert
+      expect(value).toBe('overridden');
+      expect(testMetadata.get(metadataObject)).toBe('original');
+    });
+
+    it('should prefer the innermost scope', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const otherMetadata = new Metadata<string>('test:otherMetadata');
+      class TestClass {}
+      const outer = new MetadataScope()
+        .override(testMetadata, TestClass, 'outer')
+        .override(otherMetadata, TestClass, 'outer');
+      const inner = new MetadataScope().override(
+        testMetadata,
+        TestClass,
+        'inner',
+      );
+      // Act
+      const values = outer.run(() =>
+        inner.run(() => [
+          testMetadata.get(TestClass),
+          otherMetadata.get(TestClass),
+        ]),
+      );
+      // Assert
+      expect(values).toEqual(['inner', 'outer']);
+    });
+
+    it('should stay active across async boundaries', async () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'original');
+      const scope = new MetadataScope().override(
+        testMetadata,
+        TestClass,
+        'overridden',
+      );
+      // Act
+      const scoped = scope.run(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        return testMetadata.get(TestClass);
+      });
+      const outside = testMetadata.get(TestClass);
+      // Assert
+      await expect(scoped).resolves.toBe('overridden');
+      expect(outside).toBe('original');
+    });
+  });
+
+  describe('#get() - overridden values', () => {
+    it('should return the value overridden by the scope', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      class OtherClass {}
+      // Act
+      const scope = new MetadataScope().override(
+        testMetadata,
+        new TestClass(),
+        'overridden',
+      );
+      // Assert
+      expect(scope.get(testMetadata, TestClass)).toBe('overridden');
+      expect(scope.get(testMetadata, OtherClass)).toBeUndefined();
+    });
+  });
+
+  describe('#setMetadataScopeContext() - scope context', () => {
+    let defaultContext: MetadataScopeContext;
+
+    beforeEach(() => {
+      defaultContext = getMetadataScopeContext();
+    });
+
+    afterEach(() => {
+      setMetadataScopeContext(defaultContext);
+    });
+
+    it('should track the scopes by the given context', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      const scope = new MetadataScope().override(
+        testMetadata,
+        TestClass,
+        'overridden',
+      );
+      const context: MetadataScopeContext = {
+        getStore: jest.fn(() => [scope]),
+        run: jest.fn((_scopes, callback) => callback()),
+      };
+      setMetadataScopeContext(context);
+      // Act
+      const value = testMetadata.get(TestClass);
+      // Assert
+      expect(value).toBe('overridden');
+    });
+
+    it('should load AsyncLocalStorage without process.getBuiltinModule', async () => {
+      // Arrange
+      const { getBuiltinModule } = process as { getBuiltinModule?: unknown };
+      Object.assign(process, { getBuiltinModule: undefined });
+      const scopeModule = loadScopeModule();
+      Object.assign(process, { getBuiltinModule });
+      const context = scopeModule.getMetadataScopeContext();
+      // Act
+      const values = await context.run([], async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        return context.getStore();
+      });
+      // Assert
+      expect(context).toBeInstanceOf(AsyncLocalStorage);
+      expect(values).toEqual([]);
+    });
+
+    it('should track the scopes synchronously on Node.js without a module loader', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'original');
+      const { getBuiltinModule } = process as { getBuiltinModule?: unknown };
+      jest.doMock('node:async_hooks', () => {
+        throw new ReferenceError('require is not defined');
+      });
+      Object.assign(process, { getBuiltinModule: undefined });
+      const scopeModule = loadScopeModule();
+      Object.assign(process, { getBuiltinModule });
+      jest.dontMock('node:async_hooks');
+      const context = scopeModule.getMetadataScopeContext();
+      setMetadataScopeContext(context);
+      // Act
+      const value = testMetadata.withOverride(TestClass, 'overridden', () =>
+        testMetadata.get(TestClass),
+      );
+      // Assert
+      expect(context).not.toBeInstanceOf(AsyncLocalStorage);
+      expect(value).toBe('overridden');
+      expect(context.getStore()).toBeUndefined();
+    });
+
+    it('should track the scopes synchronously outside of Node.js', () => {
+      // Arrange
+      const { versions } = process;
+      jest.doMock('node:async_hooks', () => {
+        throw new Error('Not found');
+      });
+      Object.defineProperty(process, 'versions', { value: {} });
+      const scopeModule = loadScopeModule();
+      Object.defineProperty(process, 'versions', { value: versions });
+      jest.dontMock('node:async_hooks');
+      const context = scopeModule.getMetadataScopeContext();
+      // Act
+      const values = context.run([], () => context.getStore());
+      // Assert
+      expect(context).not.toBeInstanceOf(AsyncLocalStorage);
+      expect(values).toEqual([]);
+      expect(context.getStore()).toBeUndefined();
+    });
+  });
+});
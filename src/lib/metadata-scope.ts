@@ -0,0 +1,224 @@
+import type { BaseMetadata } from './base-metadata';
+import {
+  getMetadataChain,
+  getMetadataHolder,
+  MetadataTarget,
+} from './metadata-target';
+
+/**
+ * Context tracking the metadata scopes active in the current execution. The
+ * interface is compatible with `AsyncLocalStorage` of Node.js, so an instance
+ * of it can be passed to `setMetadataScopeContext` directly.
+ */
+export interface MetadataScopeContext {
+  /**
+   * Get the scopes active in the current execution, from the outermost one.
+   */
+  getStore(): readonly MetadataScope[] | undefined;
+  /**
+   * Run a callback with the given scopes active.
+   */
+  run<R>(scopes: readonly MetadataScope[], callback: () => R): R;
+}
+
+/**
+ * Create a context following the execution synchronously only. The scopes are
+ * not active in the callbacks scheduled by the code running in a scope.
+ */
+function createSynchronousContext(): MetadataScopeContext {
+  let active: readonly MetadataScope[] | undefined;
+
+  return {
+    getStore: () => active,
+    run: (scopes, callback) => {
+      const previous = active;
+
+      active = scopes;
+      try {
+        return callback();
+      } finally {
+        active = previous;
+      }
+    },
+  };
+}
+/**
+ * Load `AsyncLocalStorage` of Node.js (and compatible runtimes). CommonJS
+ * builds use `require`, ES module builds `process.getBuiltinModule`.
+ */
+function loadAsyncLocalStorage(): (new () => MetadataScopeContext) | undefined {
+  const load =
+    typeof require === 'function'
+      ? require
+      : (
+          globalThis as unknown as {
+            process?: { getBuiltinModule?: (id: string) => unknown };
+          }
+        ).process?.getBuiltinModule;
+
+  try {
+    return (
+      load?.('node:async_hooks') as
+        | { AsyncLocalStorage?: new () => MetadataScopeContext }
+        | undefined
+    )?.AsyncLocalStorage;
+  } catch {
+    return undefined;
+  }
+}
+/**
+ * Create the default context. On Node.js (and compatible runtimes) the scopes
+ * are tracked across async boundaries by `AsyncLocalStorage`. If it can not
+ * be loaded (e.g. in browsers, or by an ES module build on Node.js without
+ * `process.getBuiltinModule`), the scopes are tracked synchronously.
+ */
+function createDefaultContext(): MetadataScopeContext {
+  const AsyncLocalStorage = loadAsyncLocalStorage();
+
+  return AsyncLocalStorage
+    ? new AsyncLocalStorage()
+    : createSynchronousContext();
+}
+
+let scopeContext = createDefaultContext();
+
+/**
+ * Get the context tracking the active metadata scopes.
+ *
+ * @returns The current scope context.
+ */
+export function getMetadataScopeContext(): MetadataScopeContext {
+  return scopeContext;
+}
+/**
+ * Set the context tracking the active metadata scopes. By default, scopes are
+ * tracked by `AsyncLocalStorage` where it can be loaded and synchronously
+ * otherwise. Pass an `AsyncLocalStorage` instance to track the scopes across
+ * async boundaries where it is not loaded automatically. It should be set
+ * before any scope runs.
+ *
+ * @param context - New scope context, e.g. an `AsyncLocalStorage` instance.
+ */
+export function setMetadataScopeContext(context: MetadataScopeContext): void {
+  scopeContext = context;
+}
+/**
+ * Find the value of a metadata helper overridden for a holder by the active
+ * scopes. The innermost scope takes precedence.
+ *
+ * @param metadata - Metadata helper.
+ * @param holder - Object the metadata is stored on.
+ * @returns Overridden value or `undefined` if no active scope overrides it.
+ * @template S - Type of the value stored on a single class.
+ * @template E - Type of a single metadata value.
+ */
+export function findMetadataOverride<S, E>(
+  metadata: BaseMetadata<S, E>,
+  holder: object,
+): S | undefined {
+  const scopes = scopeContext.getStore() ?? [];
+
+  for (let index = scopes.length - 1; index >= 0; index--) {
+    const value = scopes[index].get(metadata, holder);
+
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+/**
+ * Set of metadata overrides applied to the code running in the scope. Inside
+ * the scope, the metadata helpers read the overridden values instead of the
+ * values stored on the classes, everything outside of the scope sees the
+ * original metadata. The classes are never modified.
+ *
+ * An overridden value replaces the own value of the class (its own collection
+ * for the collection helpers) and it is used as it is: changes of the
+ * overridden collection made inside the scope modify the given collection.
+ * Subclasses see the overridden value as they would see the own value of the
+ * class. Scopes can be nested, the innermost override takes precedence.
+ * Only the class-level metadata can be overridden, the metadata of instances
+ * (see the `target` option) still takes precedence over the override.
+ *
+ * @example
+ *
+ * ```ts
+ * const scope = new MetadataScope()
+ *   .override(route, UserController, '/v2/users')
+ *   .override(cacheTtl, UserController, 0);
+ *
+ * await scope.run(async () => {
+ *   route.get(UserController); // '/v2/users'
+ * });
+ * ```
+ */
+export class MetadataScope {
+  /**
+   * Overridden values by metadata helpers and holders.
+   */
+  private readonly overrides = new Map<object, WeakMap<object, unknown>>();
+  /**
+   * Override the value of a metadata helper for a class.
+   *
+   * @param metadata - Metadata helper.
+   * @param target - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @param value - Value the helper reads for the class inside the scope.
+   * @returns The scope itself.
+   * @template S - Type of the value stored on a single class.
+   * @template E - Type of a single metadata value.
+   * @template T - Class instance type.
+   */
+  public override<S, E, T extends object>(
+    metadata: BaseMetadata<S, E>,
+    target: MetadataTarget<T>,
+    value: S,
+  ): this {
+    let values = this.overrides.get(metadata);
+
+    if (!values) {
+      values = new WeakMap();
+      this.overrides.set(metadata, values);
+    }
+    for (const holder of getMetadataChain(target)[0]) {
+      values.set(holder, value);
+    }
+    return this;
+  }
+  /**
+   * Get the value of a metadata helper overridden by this scope.
+   *
+   * @param metadata - Metadata helper.
+   * @param target - Class constructor, an instance of a class, a standard
+   *  decorator context or its metadata object.
+   * @returns Overridden value or `undefined` if the scope does not override
+   *  the metadata of the class.
+   * @template S - Type of the value stored on a single class.
+   * @template E - Type of a single metadata value.
+   * @template T - Class instance type.
+   */
+  public get<S, E, T extends object>(
+    metadata: BaseMetadata<S, E>,
+    target: MetadataTarget<T>,
+  ): S | undefined {
+    return this.overrides.get(metadata)?.get(getMetadataHolder(target)) as
+      | S
+      | undefined;
+  }
+  /**
+   * Run a callback inside the scope. The scope stays active in the async
+   * continuations of the callback if the scope context supports it (see
+   * `setMetadataScopeContext`).
+   *
+   * @param callback - Callback to run.
+   * @returns Result of the callback.
+   * @template R - Type of the result.
+   */
+  public run<R>(callback: () => R): R {
+    return scopeContext.run(
+      [...(scopeContext.getStore() ?? []), this],
+      callback,
+    );
+  }
+}
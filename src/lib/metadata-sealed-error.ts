@@ -0,0 +1,33 @@
+import { isClassInstance } from './metadata-target';
+
+/**
+ * Error thrown when sealed (or locked) metadata is modified.
+ */
+export class MetadataSealedError extends Error {
+  /**
+   * The class (or the decorator metadata object) the metadata belongs to,
+   * the instance itself in the instance target mode.
+   */
+  public readonly target: object;
+  /**
+   * Description of the metadata key.
+   */
+  public readonly description: string;
+
+  constructor(target: object, description: string) {
+    const className =
+      target instanceof Function
+        ? target.name
+        : isClassInstance(target)
+          ? `${target.constructor.name} instance`
+          : 'decorator metadata';
+
+    super(
+      `Metadata "${description}" on "${className}" is sealed and can not be ` +
+        'modified.',
+    );
+    this.name = 'MetadataSealedError';
+    this.target = target;
+    this.description = description;
+  }
+}
@@ -0,0 +1,311 @@
+import { ArrayMetadata } from './array-metadata';
+import { MapMetadata } from './map-metadata';
+import { Metadata } from './metadata';
+import { createReferenceCodec, defaultMetadataCodecs } from './metadata-codec';
+import {
+  MetadataRegistry,
+  setDefaultMetadataRegistry,
+} from './metadata-registry';
+import {
+  exportSnapshot,
+  importSnapshot,
+  MetadataSnapshot,
+} from './metadata-snapshot';
+import { SetMetadata } from './set-metadata';
+
+describe('(Unit) exportSnapshot', () => {
+  describe('#exportSnapshot() - export', () => {
+    it('should export the own metadata of the classes', () => {
+      // Arrange
+      const entity = new Metadata<{ table: string }>('test:entity');
+      const columns = new MapMetadata<string, string>('test:columns');
+      const tags = new SetMetadata<string>('test:tags');
+      const hooks = new ArrayMetadata<string>('test:hooks');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      entity.set(ParentClass, { table: 'parents' });
+      columns.set(ParentClass, 'name', 'varchar');
+      columns.set(ChildClass, 'age', 'int');
+      tags.add(ChildClass, 'child');
+      hooks.add(ChildClass, 'beforeSave');
+      // Act
+      const snapshot = exportSnapshot(
+        [ParentClass, ChildClass],
+        [entity, columns, tags, hooks],
+      );
+      // Assert
+      expect(snapshot).toEqual({
+        version: 1,
+        classes: [
+          {
+            name: 'ParentClass',
+            metadata: [
+              {
+                key: 'test:entity',
+                kind: 'metadata',
+                value: { table: 'parents' },
+              },
+              {
+                key: 'test:columns',
+                kind: 'map',
+                entries: [['name', 'varchar']],
+              },
+            ],
+          },
+          {
+            name: 'ChildClass',
+            metadata: [
+              {
+                key: 'test:columns',
+                kind: 'map',
+                entries: [
+                  ['name', 'varchar'],
+                  ['age', 'int'],
+                ],
+              },
+              { key: 'test:tags', kind: 'set', values: ['child'] },
+              { key: 'test:hooks', kind: 'array', values: ['beforeSave'] },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should encode non-JSON values with the codecs', () => {
+      // Arrange
+      const trim = (value: string): string => value.trim();
+      const options = new Metadata<unknown>('test:options');
+      class RelatedClass {}
+      class TestClass {}
+      options.set(TestClass, {
+        created: new Date('2024-01-01T00:00:00.000Z'),
+        pattern: /a+/g,
+        related: [RelatedClass],
+        transform: trim,
+      });
+      // Act
+      const snapshot = exportSnapshot([TestClass], [options], {
+        codecs: [
+          ...defaultMetadataCodecs,
+          createReferenceCodec('Transformer', { trim }),
+        ],
+      });
+      // Assert
+      expect(snapshot.classes[0].metadata[0]).toEqual({
+        key: 'test:options',
+        kind: 'metadata',
+        value: {
+          created: { $codec: 'Date', data: '2024-01-01T00:00:00.000Z' },
+          pattern: { $codec: 'RegExp', data: { source: 'a+', flags: 'g' } },
+          related: [{ $codec: 'Class', data: 'RelatedClass' }],
+          transform: { $codec: 'Transformer', data: 'trim' },
+        },
+      });
+    });
+
+    it('should not initialize any collection', () => {
+      // Arrange
+      const columns = new MapMetadata<string, string>('test:columns');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      columns.set(ParentClass, 'name', 'varchar');
+      // Act
+      const snapshot = exportSnapshot([ChildClass], [columns]);
+      // Assert
+      expect(snapshot.classes[0].metadata).toEqual([]);
+      expect(Object.getOwnPropertySymbols(ChildClass)).toEqual([]);
+    });
+
+    it('should throw on values without a codec', () => {
+      // Arrange
+      const options = new Metadata<unknown>('test:options');
+      class TestClass {}
+      options.set(TestClass, { transform: () => undefined });
+      // Act
+      const exportTest = (): unknown => exportSnapshot([TestClass], [options]);
+      // Assert
+      expect(exportTest).toThrow(TypeError);
+    });
+
+    it('should throw on ambiguous names', () => {
+      // Arrange
+      const first = new Metadata<string>('test:metadata');
+      const second = new Metadata<string>('test:metadata');
+      class TestClass {}
+      const OtherClass = class TestClass {};
+      // Act
+      const exportMetadata = (): unknown =>
+        exportSnapshot([TestClass], [first, second]);
+      const exportClasses = (): unknown =>
+        exportSnapshot([TestClass, OtherClass], [first]);
+      // Assert
+      expect(exportMetadata).toThrow(
+        'Metadata description "test:metadata" is empty or not unique.',
+      );
+      expect(exportClasses).toThrow(
+        'Class name "TestClass" is empty or not unique.',
+      );
+    });
+  });
+});
+
+describe('(Unit) importSnapshot', () => {
+  describe('#importSnapshot() - import', () => {
+    it('should restore the exported metadata', () => {
+      // Arrange
+      const entity = new Metadata<unknown>('test:entity');
+      const columns = new MapMetadata<string, unknown>('test:columns');
+      const tags = new SetMetadata<string>('test:tags');
+      const hooks = new ArrayMetadata<string>('test:hooks');
+      const metadatas = [entity, columns, tags, hooks];
+      class RelatedClass {}
+      class TestClass {}
+      entity.set(TestClass, { related: RelatedClass, created: new Date(0) });
+      columns.set(TestClass, 'name', { pattern: /a+/ });
+      tags.add(TestClass, 'tag');
+      hooks.add(TestClass, 'beforeSave');
+      const snapshot = JSON.parse(
+        JSON.stringify(exportSnapshot([TestClass], metadatas)),
+      );
+      const classes: Record<string, object> = {
+        TestClass: class TestClass {},
+        RelatedClass,
+      };
+      // Act
+      importSnapshot(snapshot, (name) => classes[name], { metadatas });
+      // Assert
+      const restored = classes.TestClass;
+      expect(entity.get(restored)).toEqual({
+        related: RelatedClass,
+        created: new Date(0),
+      });
+      expect(columns.get(restored, 'name')).toEqual({ pattern: /a+/ });
+      expect([...tags.getSet(restored)]).toEqual(['tag']);
+      expect(hooks.get(restored)).toEqual(['beforeSave']);
+    });
+
+    it('should replace the collections of the classes', () => {
+      // Arrange
+      const hooks = new SetMetadata<string>('test:hooks', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      hooks.add(ParentClass, 'parent');
+      const snapshot: MetadataSnapshot = {
+        version: 1,
+        classes: [
+          {
+            name: 'ChildClass',
+            metadata: [{ key: 'test:hooks', kind: 'set', values: ['child'] }],
+          },
+        ],
+      };
+      // Act
+      importSnapshot(snapshot, () => ChildClass, { metadatas: [hooks] });
+      // Assert
+      expect([...hooks.getSet(ChildClass)]).toEqual(['child']);
+    });
+
+    it('should resolve the metadata helpers in the registry', () => {
+      // Arrange
+      const registry = new MetadataRegistry();
+      const entity = new Metadata<string>('test:entity', { registry });
+      class TestClass {}
+      const snapshot: MetadataSnapshot = {
+        version: 1,
+        classes: [
+          {
+            name: 'TestClass',
+            metadata: [
+              { key: 'test:entity', kind: 'metadata', value: 'users' },
+            ],
+          },
+        ],
+      };
+      // Act
+      importSnapshot(snapshot, () => TestClass, { registry });
+      // Assert
+      expect(entity.get(TestClass)).toBe('users');
+    });
+
+    it('should throw if the snapshot can not be restored', () => {
+      // Arrange
+      const entity = new Metadata<string>('test:entity');
+      const createSnapshot = (
+        metadata: MetadataSnapshot['classes'][number]['metadata'],
+      ): MetadataSnapshot => ({
+        version: 1,
+        classes: [{ name: 'TestClass', metadata }],
+      });
+      class TestClass {}
+      // Act
+      const imports = [
+        () =>
+          importSnapshot(
+            { version: 2 } as unknown as MetadataSnapshot,
+            () => undefined,
+          ),
+        () => importSnapshot(createSnapshot([]), () => undefined),
+        () =>
+          importSnapshot(
+            createSnapshot([
+              { key: 'test:unknown', kind: 'metadata', value: 1 },
+            ]),
+            () => TestClass,
+          ),
+        () =>
+          importSnapshot(
+            createSnapshot([{ key: 'test:entity', kind: 'set', values: [] }]),
+            () => TestClass,
+            { metadatas: [entity] },
+          ),
+        () =>
+          importSnapshot(
+            createSnapshot([
+              {
+                key: 'test:entity',
+                kind: 'metadata',
+                value: { $codec: 'Unknown', data: null },
+              },
+            ]),
+            () => TestClass,
+            { metadatas: [entity] },
+          ),
+      ];
+      // Assert
+      expect(imports[0]).toThrow('Unsupported metadata snapshot version "2".');
+      expect(imports[1]).toThrow('Class "TestClass" can not be resolved.');
+      expect(imports[2]).toThrow(
+        'Metadata "test:unknown" can not be resolved (0 matching metadata helpers).',
+      );
+      expect(imports[3]).toThrow(
+        'Metadata "test:entity" is of kind "metadata", the snapshot stores kind "set".',
+      );
+      expect(imports[4]).toThrow('Unknown metadata codec "Unknown".');
+    });
+
+    it('should resolve the helpers in the default registry', () => {
+      // Arrange
+      setDefaultMetadataRegistry(new MetadataRegistry());
+      const entity = new Metadata<string>('test:entity');
+      class TestClass {}
+      // Act
+      importSnapshot(
+        {
+          version: 1,
+          classes: [
+            {
+              name: 'TestClass',
+              metadata: [{ key: 'test:entity', kind: 'metadata', value: 'x' }],
+            },
+          ],
+        },
+        () => TestClass,
+      );
+      setDefaultMetadataRegistry(undefined);
+      // Assert
+      expect(entity.get(TestClass)).toBe('x');
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { JsonValue } from 'type-fest';
+import type { ArrayMetadata } from './array-metadata';
+import type { MapMetadata } from './map-metadata';
+import type { Metadata } from './metadata';
+import {
+  defaultMetadataCodecs,
+  MetadataCodec,
+  MetadataDecodeContext,
+  MetadataEncodeContext,
+} from './metadata-codec';
+import {
+  getDefaultMetadataRegistry,
+  MetadataRegistry,
+  RegisteredMetadata,
+} from './metadata-registry';
+import { getMetadataChain } from './metadata-target';
+import type { SetMetadata } from './set-metadata';
+
+/**
+ * Metadata helper which can be stored in a snapshot: `Metadata`,
+ * `MapMetadata`, `SetMetadata` or `ArrayMetadata`.
+ */
+export interface SnapshotMetadata extends RegisteredMetadata {
+  readonly kind: 'metadata' | 'map' | 'set' | 'array';
+}
+/**
+ * Metadata of a class stored in a snapshot, identified by the description
+ * of its metadata key.
+ */
+export type MetadataSnapshotEntry =
+  | { key: string; kind: 'metadata'; value: JsonValue }
+  | { key: string; kind: 'map'; entries: [JsonValue, JsonValue][] }
+  | { key: string; kind: 'set' | 'array'; values: JsonValue[] };
+/**
+ * Versioned JSON document with the metadata of classes.
+ */
+export interface MetadataSnapshot {
+  version: 1;
+  classes: {
+    /**
+     * Name of the class.
+     */
+    name: string;
+    metadata: MetadataSnapshotEntry[];
+  }[];
+}
+/**
+ * Options of `exportSnapshot`.
+ */
+export interface ExportSnapshotOptions {
+  /**
+   * Codecs of values which can not be represented in JSON as they are.
+   * Defaults to `defaultMetadataCodecs`.
+   */
+  codecs?: ReadonlyArray<MetadataCodec>;
+  /**
+   * Get the name a class is stored under. Defaults to the class name.
+   */
+  getClassName?: (ctor: object) => string;
+}
+/**
+ * Options of `importSnapshot`.
+ */
+export interface ImportSnapshotOptions {
+  /**
+   * Metadata helpers to restore the metadata with. If omitted, the helpers
+   * are looked up in the registry by their descriptions.
+   */
+  metadatas?: ReadonlyArray<SnapshotMetadata>;
+  /**
+   * Registry to look the metadata helpers up in. Defaults to the process wide
+   * default registry.
+   */
+  registry?: MetadataRegistry;
+  /**
+   * Codecs the snapshot was exported with. Defaults to
+   * `defaultMetadataCodecs`.
+   */
+  codecs?: ReadonlyArray<MetadataCodec>;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Export the metadata of classes into a JSON document. Only the metadata
+ * the classes own is exported, the collection helpers export the collection
+ * as the class sees it (including the inherited entries). Nothing is
+ * initialized on the classes.
+ *
+ * @param classes - Classes to export the metadata of.
+ * @param metadatas - Metadata helpers to export. Their keys have to have
+ *  unique descriptions.
+ * @param options - Export options.
+ * @returns Snapshot of the metadata.
+ * @throws {TypeError} If a value can not be represented in JSON.
+ * @example
+ *
+ * ```ts
+ * const snapshot = exportSnapshot([User, Order], [entity, columns]);
+ * fs.writeFileSync('metadata.json', JSON.stringify(snapshot));
+ * ```
+ */
+export function exportSnapshot(
+  classes: Iterable<object>,
+  metadatas: ReadonlyArray<SnapshotMetadata>,
+  options: ExportSnapshotOptions = {},
+): MetadataSnapshot {
+  const codecs = options.codecs ?? defaultMetadataCodecs;
+  const getClassName =
+    options.getClassName ?? ((ctor: object) => (ctor as { name: string }).name);
+  const context: MetadataEncodeContext = {
+    encode: (value) => encodeValue(value, codecs, context),
+    getClassName,
+  };
+  const names = new Set<string>();
+
+  assertUniqueDescriptions(metadatas);
+
+  return {
+    version: SNAPSHOT_VERSION,
+    classes: [...classes].map((ctor) => {
+      const name = getClassName(ctor);
+
+      if (!name || names.has(name)) {
+        throw new TypeError(`Class name "${name}" is empty or not unique.`);
+      }
+      names.add(name);
+
+      return {
+        name,
+        metadata: metadatas
+          .filter((metadata) => hasOwnMetadata(metadata, ctor))
+          .map((metadata) => exportEntry(metadata, ctor, context)),
+      };
+    }),
+  };
+}
+/**
+ * Restore the metadata of a snapshot onto the classes. The values are stored
+ * with the regular methods of the metadata helpers (`set`, `add` and
+ * `clear`), so they are validated and reported to the listeners. A restored
+ * collection replaces the collection of the class.
+ *
+ * @param snapshot - Snapshot created by `exportSnapshot`.
+ * @param classResolver - Function resolving a class by its name.
+ * @param options - Import options.
+ * @throws {TypeError} If the snapshot version is not supported, a class or
+ *  a metadata helper can not be resolved.
+ */
+export function importSnapshot(
+  snapshot: MetadataSnapshot,
+  classResolver: (name: string) => object | undefined,
+  options: ImportSnapshotOptions = {},
+): void {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new TypeError(
+      `Unsupported metadata snapshot version "${String(snapshot.version)}".`,
+    );
+  }
+  const codecs = options.codecs ?? defaultMetadataCodecs;
+  const resolveClass = (name: string): object => {
+    const ctor = classResolver(name);
+
+    if (ctor === undefined) {
+      throw new TypeError(`Class "${name}" can not be resolved.`);
+    }
+    return ctor;
+  };
+  const context: MetadataDecodeContext = {
+    decode: (data) => decodeValue(data, codecs, context),
+    resolveClass,
+  };
+  const resolveMetadata = createMetadataResolver(options);
+
+  snapshot.classes.forEach(({ name, metadata: entries }) => {
+    const ctor = resolveClass(name);
+
+    entries.forEach((entry) =>
+      importEntry(resolveMetadata(entry), ctor, entry, context),
+    );
+  });
+}
+
+function assertUniqueDescriptions(
+  metadatas: ReadonlyArray<SnapshotMetadata>,
+): void {
+  const descriptions = metadatas.map(
+    (metadata) => metadata.metadataKey.description ?? '',
+  );
+
+  descriptions.forEach((description, index) => {
+    if (!description || descriptions.indexOf(description) !== index) {
+      throw new TypeError(
+        `Metadata description "${description}" is empty or not unique.`,
+      );
+    }
+  });
+}
+
+function hasOwnMetadata(metadata: SnapshotMetadata, ctor: object): boolean {
+  return getMetadataChain(ctor)[0].some((holder) =>
+    metadata.storage.has(holder, metadata.metadataKey),
+  );
+}
+
+function exportEntry(
+  metadata: SnapshotMetadata,
+  ctor: object,
+  context: MetadataEncodeContext,
+): MetadataSnapshotEntry {
+  const key = metadata.metadataKey.description as string;
+
+  switch (metadata.kind) {
+    case 'map':
+      return {
+        key,
+        kind: 'map',
+        entries: [
+          ...(metadata as MapMetadata<unknown, unknown>).getMap(ctor),
+        ].map(([entryKey, value]) => [
+          context.encode(entryKey),
+          context.encode(value),
+        ]),
+      };
+    case 'set':
+      return {
+        key,
+        kind: 'set',
+        values: [...(metadata as SetMetadata<unknown>).getSet(ctor)].map(
+          context.encode,
+        ),
+      };
+    case 'array':
+      return {
+        key,
+        kind: 'array',
+        values: (metadata as ArrayMetadata<unknown>)
+          .get(ctor)
+          .map(context.encode),
+      };
+    default: {
+      const [ownLevel] = getMetadataChain(ctor);
+      const holder = ownLevel.find((candidate) =>
+        metadata.storage.has(candidate, metadata.metadataKey),
+      ) as object;
+
+      return {
+        key,
+        kind: 'metadata',
+        value: context.encode(
+          metadata.storage.get(holder, metadata.metadataKey),
+        ),
+      };
+    }
+  }
+}
+
+function importEntry(
+  metadata: SnapshotMetadata,
+  ctor: object,
+  entry: MetadataSnapshotEntry,
+  context: MetadataDecodeContext,
+): void {
+  if (metadata.kind !== entry.kind) {
+    throw new TypeError(
+      `Metadata "${entry.key}" is of kind "${metadata.kind}", ` +
+        `the snapshot stores kind "${entry.kind}".`,
+    );
+  }
+  switch (entry.kind) {
+    case 'map': {
+      const map = metadata as MapMetadata<unknown, unknown>;
+
+      map.clear(ctor);
+      entry.entries.forEach(([key, value]) =>
+        map.set(ctor, context.decode(key), context.decode(value)),
+      );
+      break;
+    }
+    case 'set': {
+      const set = metadata as SetMetadata<unknown>;
+
+      set.clear(ctor);
+      entry.values.forEach((value) => set.add(ctor, context.decode(value)));
+      break;
+    }
+    case 'array':
+      (metadata as ArrayMetadata<unknown>).set(
+        ctor,
+        entry.values.map(context.decode),
+      );
+      break;
+    case 'metadata':
+      (metadata as Metadata<unknown>).set(ctor, context.decode(entry.value));
+      break;
+  }
+}
+
+function createMetadataResolver(
+  options: ImportSnapshotOptions,
+): (entry: MetadataSnapshotEntry) => SnapshotMetadata {
+  const candidates =
+    options.metadatas ??
+    (options.registry ?? getDefaultMetadataRegistry())
+      ?.list()
+      .map((registryEntry) => registryEntry.metadata as SnapshotMetadata) ??
+    [];
+
+  return (entry) => {
+    const matches = candidates.filter(
+      (metadata) => metadata.metadataKey.description === entry.key,
+    );
+
+    if (matches.length !== 1) {
+      throw new TypeError(
+        `Metadata "${entry.key}" can not be resolved ` +
+          `(${matches.length} matching metadata helpers).`,
+      );
+    }
+    return matches[0];
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+function encodeValue(
+  value: unknown,
+  codecs: ReadonlyArray<MetadataCodec>,
+  context: MetadataEncodeContext,
+): JsonValue {
+  const codec = codecs.find((candidate) => candidate.test(value));
+
+  if (codec) {
+    return { $codec: codec.name, data: codec.encode(value, context) };
+  } else if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return value;
+  } else if (Array.isArray(value)) {
+    return value.map(context.encode);
+  } else if (isPlainObject(value) && !('$codec' in value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, context.encode(entry)]),
+    );
+  }
+  throw new TypeError(
+    `Value "${String(value)}" can not be stored in a metadata snapshot ` +
+      'without a codec.',
+  );
+}
+
+function decodeValue(
+  data: JsonValue,
+  codecs: ReadonlyArray<MetadataCodec>,
+  context: MetadataDecodeContext,
+): unknown {
+  if (Array.isArray(data)) {
+    return data.map(context.decode);
+  } else if (!isPlainObject(data)) {
+    return data;
+  } else if (typeof data.$codec !== 'string') {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, entry]) => [
+        key,
+        context.decode(entry as JsonValue),
+      ]),
+    );
+  }
+  const codec = codecs.find((candidate) => candidate.name === data.$codec);
+
+  if (!codec) {
+    throw new TypeError(`Unknown metadata codec "${data.$codec}".`);
+  }
+  return codec.decode(data.data as JsonValue, context);
+}
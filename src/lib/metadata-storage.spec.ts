@@ -0,0 +1,45 @@
+import {
+  getDefaultMetadataStorage,
+  setDefaultMetadataStorage,
+} from './metadata-storage';
+import { Metadata } from './metadata';
+import { SymbolPropertyStorage } from './symbol-property-storage';
+import { WeakMapStorage } from './weak-map-storage';
+
+describe('(Unit) MetadataStorage', () => {
+  const initialStorage = getDefaultMetadataStorage();
+
+  afterEach(() => {
+    setDefaultMetadataStorage(initialStorage);
+  });
+
+  it('should use the symbol property storage by default', () => {
+    // Arrange
+    // Act
+    const storage = getDefaultMetadataStorage();
+    // Assert
+    expect(storage).toBeInstanceOf(SymbolPropertyStorage);
+  });
+
+  it('should replace the default storage', () => {
+    // Arrange
+    const storage = new WeakMapStorage();
+    // Act
+    setDefaultMetadataStorage(storage);
+    // Assert
+    expect(getDefaultMetadataStorage()).toBe(storage);
+  });
+
+  it('should be used by metadata created without own storage', () => {
+    // Arrange
+    const storage = new WeakMapStorage();
+    const testMetadata = new Metadata<string>('test:testMetadata');
+    class TestClass {}
+    // Act
+    setDefaultMetadataStorage(storage);
+    testMetadata.set(TestClass, 'testValue');
+    // Assert
+    expect(testMetadata.storage).toBe(storage);
+    expect(storage.get(TestClass, testMetadata.metadataKey)).toBe('testValue');
+  });
+});
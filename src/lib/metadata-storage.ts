@@ -0,0 +1,68 @@
+import { SymbolPropertyStorage } from './symbol-property-storage';
+
+/**
+ * Storage backend used by metadata helpers to persist their values.
+ *
+ * A storage operates on a single object only (a class constructor or a
+ * standard decorator metadata object). It never walks the prototype chain,
+ * the inheritance is resolved by the metadata helpers themselves.
+ */
+export interface MetadataStorage {
+  /**
+   * Check if the object owns a value under the metadata key.
+   *
+   * @param holder - Object holding the metadata.
+   * @param metadataKey - Metadata key.
+   * @returns `true` if the object owns a value, `false` otherwise.
+   */
+  has(holder: object, metadataKey: symbol): boolean;
+  /**
+   * Get the value the object owns under the metadata key.
+   *
+   * @param holder - Object holding the metadata.
+   * @param metadataKey - Metadata key.
+   * @returns Stored value or `undefined` if no value is stored.
+   * @template S - Stored value type.
+   */
+  get<S>(holder: object, metadataKey: symbol): S | undefined;
+  /**
+   * Store a value on the object under the metadata key.
+   *
+   * @param holder - Object holding the metadata.
+   * @param metadataKey - Metadata key.
+   * @param value - Value to store.
+   * @template S - Stored value type.
+   */
+  set<S>(holder: object, metadataKey: symbol, value: S): void;
+  /**
+   * Delete the value the object owns under the metadata key.
+   *
+   * @param holder - Object holding the metadata.
+   * @param metadataKey - Metadata key.
+   * @returns `true` if a value was deleted, `false` otherwise.
+   */
+  delete(holder: object, metadataKey: symbol): boolean;
+}
+
+let defaultStorage: MetadataStorage = new SymbolPropertyStorage();
+
+/**
+ * Get the process wide storage used by all metadata helpers which were not
+ * given their own storage.
+ *
+ * @returns Default metadata storage.
+ */
+export function getDefaultMetadataStorage(): MetadataStorage {
+  return defaultStorage;
+}
+/**
+ * Replace the process wide storage used by all metadata helpers which were
+ * not given their own storage. Values stored in the previous storage will not
+ * be visible anymore, so the storage should be chosen before any metadata is
+ * written.
+ *
+ * @param storage - New default metadata storage.
+ */
+export function setDefaultMetadataStorage(storage: MetadataStorage): void {
+  defaultStorage = storage;
+}
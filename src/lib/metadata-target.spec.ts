@@ -0,0 +1,191 @@
+import { metadataSymbol } from '../testing/standard-decorators';
+import {
+  findDecoratedClass,
+  getMetadataChain,
+  getMetadataHolder,
+  getMetadataSymbol,
+  isDecoratorContext,
+  isDecoratorMetadataObject,
+} from './metadata-target';
+
+function createContext(metadata: object | undefined): ClassDecoratorContext {
+  return {
+    kind: 'class',
+    name: 'TestClass',
+    metadata: metadata as DecoratorMetadataObject,
+    addInitializer: () => undefined,
+  };
+}
+
+describe('(Unit) MetadataTarget', () => {
+  describe('getMetadataSymbol()', () => {
+    it('should return the Symbol.metadata symbol', () => {
+      // Arrange
+      // Act
+      const result = getMetadataSymbol();
+      // Assert
+      expect(result).toBe(metadataSymbol);
+    });
+  });
+
+  describe('isDecoratorContext()', () => {
+    it('should recognize a decorator context', () => {
+      // Arrange
+      const context = createContext(Object.create(null));
+      // Act
+      const result = isDecoratorContext(context);
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it('should not recognize a class or an instance', () => {
+      // Arrange
+      class TestClass {}
+      // Act
+      const results = [
+        isDecoratorContext(TestClass),
+        isDecoratorContext(new TestClass()),
+        isDecoratorContext(null),
+      ];
+      // Assert
+      expect(results).toEqual([false, false, false]);
+    });
+  });
+
+  describe('isDecoratorMetadataObject()', () => {
+    it('should recognize a metadata object', () => {
+      // Arrange
+      const metadata = Object.create(Object.create(null));
+      // Act
+      const result = isDecoratorMetadataObject(metadata);
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it('should not recognize a class, an instance or a context', () => {
+      // Arrange
+      class TestClass {}
+      // Act
+      const results = [
+        isDecoratorMetadataObject(TestClass),
+        isDecoratorMetadataObject(new TestClass()),
+        isDecoratorMetadataObject(TestClass.prototype),
+        isDecoratorMetadataObject(createContext(Object.create(null))),
+      ];
+      // Assert
+      expect(results).toEqual([false, false, false, false]);
+    });
+  });
+
+  describe('getMetadataHolder()', () => {
+    it('should resolve a class to the class itself', () => {
+      // Arrange
+      class TestClass {}
+      // Act
+      const holder = getMetadataHolder(TestClass);
+      // Assert
+      expect(holder).toBe(TestClass);
+    });
+
+    it('should resolve an instance to its constructor', () => {
+      // Arrange
+      class TestClass {}
+      // Act
+      const holder = getMetadataHolder(new TestClass());
+      // Assert
+      expect(holder).toBe(TestClass);
+    });
+
+    it('should resolve a context to its metadata object', () => {
+      // Arrange
+      const metadata = Object.create(null);
+      // Act
+      const holder = getMetadataHolder(createContext(metadata));
+      // Assert
+      expect(holder).toBe(metadata);
+    });
+
+    it('should resolve a decorated class to its metadata object', () => {
+      // Arrange
+      const metadata = Object.create(null);
+      class TestClass {}
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Act
+      const holder = getMetadataHolder(TestClass);
+      // Assert
+      expect(holder).toBe(metadata);
+    });
+
+    it('should not resolve a child class to inherited metadata object', () => {
+      // Arrange
+      class ParentClass {}
+      Object.defineProperty(ParentClass, metadataSymbol, {
+        value: Object.create(null),
+      });
+      class ChildClass extends ParentClass {}
+      // Act
+      const holder = getMetadataHolder(ChildClass);
+      // Assert
+      expect(holder).toBe(ChildClass);
+    });
+
+    it('should throw if a context does not carry a metadata object', () => {
+      // Arrange
+      const context = createContext(undefined);
+      // Act
+      const act = () => getMetadataHolder(context);
+      // Assert
+      expect(act).toThrow(TypeError);
+    });
+  });
+
+  describe('getMetadataChain()', () => {
+    it('should list class hierarchy levels', () => {
+      // Arrange
+      const metadata = Object.create(null);
+      class ParentClass {}
+      Object.defineProperty(ParentClass, metadataSymbol, { value: metadata });
+      class ChildClass extends ParentClass {}
+      // Act
+      const chain = getMetadataChain(new ChildClass());
+      // Assert
+      expect(chain.slice(0, 2)).toEqual([
+        [ChildClass],
+        [metadata, ParentClass],
+      ]);
+    });
+
+    it('should follow prototypes of metadata objects', () => {
+      // Arrange
+      const parentMetadata = Object.create(null);
+      const childMetadata = Object.create(parentMetadata);
+      // Act
+      const chain = getMetadataChain(createContext(childMetadata));
+      // Assert
+      expect(chain).toEqual([[childMetadata], [parentMetadata]]);
+    });
+  });
+
+  describe('findDecoratedClass()', () => {
+    it('should find the ancestor owning the metadata object', () => {
+      // Arrange
+      const metadata = Object.create(null);
+      class ParentClass {}
+      Object.defineProperty(ParentClass, metadataSymbol, { value: metadata });
+      class ChildClass extends ParentClass {}
+      // Act
+      const owner = findDecoratedClass(ChildClass, metadata);
+      // Assert
+      expect(owner).toBe(ParentClass);
+    });
+
+    it('should return undefined if no class owns the metadata object', () => {
+      // Arrange
+      class TestClass {}
+      // Act
+      const owner = findDecoratedClass(TestClass, Object.create(null));
+      // Assert
+      expect(owner).toBeUndefined();
+    });
+  });
+});
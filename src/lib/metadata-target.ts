@@ -0,0 +1,212 @@
+import { Constructor } from 'type-fest';
+
+/**
+ * Anything a metadata helper accepts as a target:
+ *
+ * - a class constructor,
+ * - an instance of a class (resolved to its constructor),
+ * - a standard (TC39) decorator context (resolved to `context.metadata`),
+ * - a standard decorator metadata object (`Class[Symbol.metadata]`).
+ *
+ * @template T - Class instance type.
+ */
+export type MetadataTarget<T extends object> =
+  | T
+  | Constructor<T>
+  | DecoratorContext
+  | DecoratorMetadataObject;
+
+/**
+ * Return the well-known `Symbol.metadata` symbol if the runtime (or a
+ * polyfill) defines it. The symbol is resolved on every call so a polyfill
+ * loaded after this library is still picked up.
+ *
+ * @returns The `Symbol.metadata` symbol or `undefined` if not available.
+ */
+export function getMetadataSymbol(): symbol | undefined {
+  return (Symbol as { metadata?: symbol }).metadata;
+}
+/**
+ * Check if the argument is a standard (TC39) decorator context object.
+ *
+ * @param arg - Value to check.
+ * @returns `true` if the value looks like a decorator context.
+ */
+export function isDecoratorContext(arg: unknown): arg is DecoratorContext {
+  return (
+    typeof arg === 'object' &&
+    arg !== null &&
+    typeof (arg as DecoratorContext).kind === 'string' &&
+    typeof (arg as DecoratorContext).addInitializer === 'function' &&
+    'metadata' in arg
+  );
+}
+/**
+ * Check if the argument is a standard decorator metadata object. Those objects
+ * are created by the runtime with a `null` prototype (or with the metadata
+ * object of the parent class as a prototype), so unlike class instances they
+ * do not expose any constructor.
+ *
+ * @param arg - Value to check.
+ * @returns `true` if the value is a decorator metadata object.
+ */
+export function isDecoratorMetadataObject(
+  arg: unknown,
+): arg is DecoratorMetadataObject {
+  return (
+    typeof arg === 'object' &&
+    arg !== null &&
+    !isDecoratorContext(arg) &&
+    typeof (arg as { constructor?: unknown }).constructor !== 'function'
+  );
+}
+/**
+ * Check if the argument is an instance of a class, i.e. neither a class
+ * constructor, nor a decorator context or a decorator metadata object.
+ *
+ * @param arg - Value to check.
+ * @returns `true` if the value is an instance of a class.
+ */
+export function isClassInstance(arg: object): boolean {
+  return (
+    !(arg instanceof Function) &&
+    !isDecoratorContext(arg) &&
+    !isDecoratorMetadataObject(arg)
+  );
+}
+/**
+ * Get the own decorator metadata object of a class, if the class has been
+ * decorated with standard decorators.
+ *
+ * @param ctor - Class constructor.
+ * @returns The own `Symbol.metadata` object or `undefined`.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getOwnDecoratorMetadata(ctor: Function): object | undefined {
+  const metadataSymbol = getMetadataSymbol();
+
+  if (
+    metadataSymbol === undefined ||
+    !Object.prototype.hasOwnProperty.call(ctor, metadataSymbol)
+  ) {
+    return undefined;
+  }
+  const metadata = Reflect.get(ctor, metadataSymbol);
+
+  return typeof metadata === 'object' && metadata !== null
+    ? metadata
+    : undefined;
+}
+/**
+ * Unwrap a decorator context to its metadata object.
+ *
+ * @param context - Standard decorator context.
+ * @returns The `context.metadata` object.
+ * @throws {TypeError} If the context does not carry a metadata object, which
+ *  happens when `Symbol.metadata` is not defined by the runtime.
+ */
+function getContextMetadata(context: DecoratorContext): object {
+  if (typeof context.metadata !== 'object' || context.metadata === null) {
+    throw new TypeError(
+      `Decorator context of "${String(context.name)}" does not carry a ` +
+        'metadata object. Make sure "Symbol.metadata" is defined (or ' +
+        'polyfilled) before any class is decorated.',
+    );
+  }
+  return context.metadata;
+}
+/**
+ * Resolve a metadata target to the object the metadata should be written to.
+ *
+ * Classes decorated with standard decorators store their metadata on the
+ * `Symbol.metadata` object, all other classes store it on the constructor.
+ *
+ * @param arg - Metadata target.
+ * @returns Object to store the metadata on.
+ */
+export function getMetadataHolder(arg: object): object {
+  if (isDecoratorContext(arg)) {
+    return getContextMetadata(arg);
+  } else if (isDecoratorMetadataObject(arg)) {
+    return arg;
+  }
+  const ctor = arg instanceof Function ? arg : arg.constructor;
+
+  return getOwnDecoratorMetadata(ctor) ?? ctor;
+}
+/**
+ * Resolve a metadata target to its inheritance chain. Each level of the chain
+ * lists all objects the metadata of one class can live on, starting with the
+ * target itself and ending with the root of the prototype chain.
+ *
+ * A class decorated with standard decorators has two such objects: its
+ * `Symbol.metadata` object and the constructor itself (metadata may have been
+ * written to the constructor before the runtime attached the metadata object).
+ * A decorator context or a metadata object has no access to the constructor,
+ * so its chain follows the prototypes of the metadata objects only.
+ *
+ * @param arg - Metadata target.
+ * @returns Levels of the inheritance chain.
+ */
+export function getMetadataChain(arg: object): object[][] {
+  const levels: object[][] = [];
+
+  if (isDecoratorContext(arg) || isDecoratorMetadataObject(arg)) {
+    let metadata: object | null = isDecoratorContext(arg)
+      ? getContextMetadata(arg)
+      : arg;
+
+    while (metadata !== null) {
+      levels.push([metadata]);
+      metadata = Object.getPrototypeOf(metadata);
+    }
+    return levels;
+  }
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  let ctor: Function | null = arg instanceof Function ? arg : arg.constructor;
+
+  while (ctor !== null) {
+    const metadata = getOwnDecoratorMetadata(ctor);
+    levels.push(metadata ? [metadata, ctor] : [ctor]);
+    ctor = Object.getPrototypeOf(ctor);
+  }
+  return levels;
+}
+/**
+ * Find the class owning a decorator metadata object among a class and its
+ * ancestors. The initializers of instance member decorators run with an
+ * instance of the constructed class, which may be a subclass of the class
+ * declaring the decorated member.
+ *
+ * @param ctor - Class constructor to start the search from.
+ * @param metadata - Decorator metadata object of the searched class.
+ * @returns The class with the metadata object as its own `Symbol.metadata`
+ *  or `undefined` if no such class is found.
+ */
+export function findDecoratedClass(
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  ctor: Function,
+  metadata: object,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+): Function | undefined {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  let current: Function | null = ctor;
+
+  while (current !== null) {
+    if (getOwnDecoratorMetadata(current) === metadata) {
+      return current;
+    }
+    current = Object.getPrototypeOf(current);
+  }
+  return undefined;
+}
+/**
+ * Get the class of a level of an inheritance chain, or its decorator metadata
+ * object if the class is not known (e.g. for chains of a decorator context).
+ *
+ * @param level - Level of an inheritance chain (see `getMetadataChain`).
+ * @returns Class constructor or a decorator metadata object.
+ */
+export function getMetadataLevelOwner(level: object[]): object {
+  return level.find((holder) => holder instanceof Function) ?? level[0];
+}
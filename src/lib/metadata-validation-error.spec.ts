@@ -0,0 +1,53 @@
+import { MetadataValidationError } from './metadata-validation-error';
+
+describe('(Unit) MetadataValidationError', () => {
+  describe('#constructor() - initialization', () => {
+    it('should name the class, the description and the key', () => {
+      // Arrange
+      class TestClass {}
+      const cause = new Error('Expected a number.');
+      // Act
+      const error = new MetadataValidationError({
+        target: TestClass,
+        description: 'test:testMetadata',
+        key: 'testKey',
+        value: 'testValue',
+        issues: [{ message: 'Expected a number.' }],
+        cause,
+      });
+      // Assert
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('MetadataValidationError');
+      expect(error.message).toBe(
+        'Invalid value of metadata "test:testMetadata" on "TestClass" ' +
+          'under key "testKey": Expected a number.',
+      );
+      expect(error).toMatchObject({
+        target: TestClass,
+        description: 'test:testMetadata',
+        key: 'testKey',
+        value: 'testValue',
+        cause,
+      });
+    });
+
+    it('should describe a value without a key on a metadata object', () => {
+      // Arrange
+      const target = Object.create(null);
+      // Act
+      const error = new MetadataValidationError({
+        target,
+        description: 'test:testMetadata',
+        key: undefined,
+        value: 42,
+        issues: [{ message: 'First issue.' }, { message: 'Second issue.' }],
+      });
+      // Assert
+      expect(error.message).toBe(
+        'Invalid value of metadata "test:testMetadata" on ' +
+          '"decorator metadata": First issue. Second issue.',
+      );
+      expect(error.issues).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { isClassInstance } from './metadata-target';
+import { MetadataValidationIssue } from './metadata-validator';
+
+/**
+ * Details of a failed metadata validation.
+ */
+export interface MetadataValidationErrorDetails {
+  /**
+   * The class (or the decorator metadata object) the value was stored on,
+   * the instance itself in the instance target mode.
+   */
+  target: object;
+  /**
+   * Description of the metadata key.
+   */
+  description: string;
+  /**
+   * Key of the invalid value within the metadata (a map key, an array index,
+   * a property key or a parameter index), `undefined` for plain metadata.
+   */
+  key: unknown;
+  /**
+   * The invalid value.
+   */
+  value: unknown;
+  /**
+   * Issues reported by the validator.
+   */
+  issues: ReadonlyArray<MetadataValidationIssue>;
+  /**
+   * Error thrown by an assertion function, if any.
+   */
+  cause?: unknown;
+}
+/**
+ * Error thrown when a metadata value does not pass the `validate` hook of
+ * a metadata helper.
+ */
+export class MetadataValidationError extends Error {
+  public readonly target: object;
+  public readonly description: string;
+  public readonly key: unknown;
+  public readonly value: unknown;
+  public readonly issues: ReadonlyArray<MetadataValidationIssue>;
+
+  constructor(details: MetadataValidationErrorDetails) {
+    const className =
+      details.target instanceof Function
+        ? details.target.name
+        : isClassInstance(details.target)
+          ? `${details.target.constructor.name} instance`
+          : 'decorator metadata';
+    const key =
+      details.key === undefined ? '' : ` under key "${String(details.key)}"`;
+    const issues = details.issues.map((issue) => issue.message).join(' ');
+
+    super(
+      `Invalid value of metadata "${details.description}" on ` +
+        `"${className}"${key}: ${issues}`,
+      { cause: details.cause },
+    );
+    this.name = 'MetadataValidationError';
+    this.target = details.target;
+    this.description = details.description;
+    this.key = details.key;
+    this.value = details.value;
+    this.issues = details.issues;
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  StandardSchemaValidator,
+  validateMetadataValue,
+} from './metadata-validator';
+
+/**
+ * Create a Standard Schema validator accepting strings only.
+ */
+function createStringSchema(async = false): StandardSchemaValidator<string> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value: unknown) => {
+        const result =
+          typeof value === 'string'
+            ? { value }
+            : { issues: [{ message: 'Expected a string.', path: ['value'] }] };
+
+        return async ? Promise.resolve(result) : result;
+      },
+    },
+  };
+}
+
+describe('(Unit) validateMetadataValue', () => {
+  describe('#validateMetadataValue() - predicate', () => {
+    it('should accept a value the predicate returns true for', () => {
+      // Arrange
+      const predicate = (value: number): boolean => value > 0;
+      // Act
+      const result = validateMetadataValue(predicate, 1);
+      // Assert
+      expect(result).toEqual({ issues: [] });
+    });
+
+    it('should report a value the predicate returns false for', () => {
+      // Arrange
+      const predicate = (value: number): boolean => value > 0;
+      // Act
+      const result = validateMetadataValue(predicate, -1);
+      // Assert
+      expect(result.issues).toEqual([
+        { message: 'The value does not satisfy the predicate.' },
+      ]);
+    });
+  });
+
+  describe('#validateMetadataValue() - assertion function', () => {
+    it('should accept a value the assertion does not throw for', () => {
+      // Arrange
+      const assertion = (value: unknown): void => {
+        if (typeof value !== 'string') {
+          throw new TypeError('Expected a string.');
+        }
+      };
+      // Act
+      const result = validateMetadataValue(assertion, 'value');
+      // Assert
+      expect(result).toEqual({ issues: [] });
+    });
+
+    it('should report the error thrown by the assertion', () => {
+      // Arrange
+      const error = new TypeError('Expected a string.');
+      const assertion = (): void => {
+        throw error;
+      };
+      // Act
+      const result = validateMetadataValue(assertion, 42);
+      // Assert
+      expect(result).toEqual({
+        issues: [{ message: 'Expected a string.' }],
+        cause: error,
+      });
+    });
+
+    it('should report a thrown non-error value', () => {
+      // Arrange
+      const assertion = (): void => {
+        throw 'Invalid value.';
+      };
+      // Act
+      const result = validateMetadataValue(assertion, 42);
+      // Assert
+      expect(result.issues).toEqual([{ message: 'Invalid value.' }]);
+    });
+  });
+
+  describe('#validateMetadataValue() - Standard Schema', () => {
+    it('should accept a valid value', () => {
+      // Arrange
+      const schema = createStringSchema();
+      // Act
+      const result = validateMetadataValue(schema, 'value');
+      // Assert
+      expect(result).toEqual({ issues: [] });
+    });
+
+    it('should report the issues of an invalid value', () => {
+      // Arrange
+      const schema = createStringSchema();
+      // Act
+      const result = validateMetadataValue(schema, 42);
+      // Assert
+      expect(result.issues).toEqual([
+        { message: 'Expected a string.', path: ['value'] },
+      ]);
+    });
+
+    it('should reject an asynchronous validation', () => {
+      // Arrange
+      const schema = createStringSchema(true);
+      // Act
+      const validate = (): unknown => validateMetadataValue(schema, 'value');
+      // Assert
+      expect(validate).toThrow(TypeError);
+    });
+  });
+});
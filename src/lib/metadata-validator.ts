@@ -0,0 +1,97 @@
+/**
+ * Issue reported by a validator, compatible with the Standard Schema issues.
+ */
+export interface MetadataValidationIssue {
+  /**
+   * Description of the issue.
+   */
+  readonly message: string;
+  /**
+   * Path to the invalid part of the value, if known.
+   */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+/**
+ * Minimal interface of a Standard Schema (https://standardschema.dev)
+ * compatible validator, as implemented by Zod, Valibot, ArkType and others.
+ *
+ * @template V - Type of the valid value.
+ */
+export interface StandardSchemaValidator<V = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<V> | Promise<StandardSchemaResult<V>>;
+  };
+}
+/**
+ * Result of a Standard Schema validation.
+ *
+ * @template V - Type of the valid value.
+ */
+export type StandardSchemaResult<V> =
+  | { readonly value: V; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<MetadataValidationIssue> };
+/**
+ * Validator of metadata values. It can be:
+ *
+ * - a predicate returning `false` for an invalid value,
+ * - an assertion function throwing for an invalid value,
+ * - a Standard Schema compatible validator with a synchronous validation.
+ *
+ * @template V - Type of the valid value.
+ */
+export type MetadataValidator<V> =
+  | ((value: V) => boolean | void)
+  | StandardSchemaValidator<V>;
+/**
+ * Outcome of a metadata value validation.
+ */
+export interface MetadataValidationResult {
+  /**
+   * Issues found, empty for a valid value.
+   */
+  issues: ReadonlyArray<MetadataValidationIssue>;
+  /**
+   * Error thrown by an assertion function, if any.
+   */
+  cause?: unknown;
+}
+/**
+ * Validate a metadata value.
+ *
+ * @param validator - Validator to run.
+ * @param value - Value to validate.
+ * @returns Issues found and the error thrown by an assertion function.
+ * @throws {TypeError} If a Standard Schema validator validates asynchronously.
+ * @template V - Type of the valid value.
+ */
+export function validateMetadataValue<V>(
+  validator: MetadataValidator<V>,
+  value: unknown,
+): MetadataValidationResult {
+  if (typeof validator === 'function') {
+    try {
+      return validator(value as V) === false
+        ? { issues: [{ message: 'The value does not satisfy the predicate.' }] }
+        : { issues: [] };
+    } catch (error) {
+      return {
+        issues: [
+          { message: error instanceof Error ? error.message : String(error) },
+        ],
+        cause: error,
+      };
+    }
+  }
+  const result = validator['~standard'].validate(value);
+
+  if (result instanceof Promise) {
+    throw new TypeError(
+      'Metadata values can be validated only by synchronous validators.',
+    );
+  }
+  return { issues: result.issues ?? [] };
+}
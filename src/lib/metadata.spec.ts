@@ -1,4 +1,8 @@
+import { decorate, metadataSymbol } from '../testing/standard-decorators';
 import { Metadata } from './metadata';
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
+import { WeakMapStorage } from './weak-map-storage';
 
 describe('(Unit) Metadata', () => {
   describe('#constructor() - initialization', () => {
@@ -312,4 +316,906 @@ describe('(Unit) Metadata', () => {
       expect(wasDeleted).toBe(false);
     });
   });
+
+  describe('standard decorators', () => {
+    it('should set a metadata through a decorator context', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      decorate(TestClass, (context) => testMetadata.set(context, 'testValue'));
+      const metadata = testMetadata.get(TestClass);
+      // Assert
+      expect(metadata).toBe('testValue');
+    });
+
+    it('should read a metadata from Symbol.metadata of a class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      decorate(TestClass, (context) => testMetadata.set(context, 'testValue'));
+      const metadata = testMetadata.get(Reflect.get(TestClass, metadataSymbol));
+      // Assert
+      expect(metadata).toBe('testValue');
+    });
+
+    it('should inherit a metadata from a decorated parent class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      decorate(ParentClass, (context) =>
+        testMetadata.set(context, 'testValue'),
+      );
+      decorate(ChildClass);
+      const metadata = testMetadata.get(new ChildClass());
+      // Assert
+      expect(metadata).toBe('testValue');
+    });
+
+    it('should read a metadata set on the constructor before decoration', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass, 'testValue');
+      decorate(TestClass);
+      const hasMetadata = testMetadata.has(TestClass);
+      const wasDeleted = testMetadata.delete(TestClass);
+      // Assert
+      expect(hasMetadata).toBe(true);
+      expect(wasDeleted).toBe(true);
+      expect(testMetadata.get(TestClass)).toBeUndefined();
+    });
+
+    it('should override a parent metadata in a decorated child class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass, 'testValue');
+      decorate(ChildClass, (context) =>
+        testMetadata.set(context, 'testValueChild'),
+      );
+      // Assert
+      expect(testMetadata.get(ParentClass)).toBe('testValue');
+      expect(testMetadata.get(ChildClass)).toBe('testValueChild');
+    });
+  });
+
+  describe('storage', () => {
+    it('should store a metadata in a custom storage', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        storage,
+      });
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass, 'testValue');
+      // Assert
+      expect(Object.getOwnPropertySymbols(TestClass)).toEqual([]);
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+    });
+
+    it('should inherit a metadata from a custom storage', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        storage: new WeakMapStorage(),
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass, 'testValue');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toBe('testValue');
+      expect(testMetadata.has(new ChildClass())).toBe(true);
+    });
+
+    it('should store a metadata on a frozen class in a custom storage', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        storage: new WeakMapStorage(),
+      });
+      class TestClass {}
+      Object.freeze(TestClass);
+      // Act
+      testMetadata.set(TestClass, 'testValue');
+      const wasDeleted = testMetadata.delete(TestClass);
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(testMetadata.has(TestClass)).toBe(false);
+    });
+  });
+
+  describe('#classDecorator() - decorator factory', () => {
+    it('should store a value through a legacy class decorator', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const TestDecorator = testMetadata.classDecorator('testValue');
+      // Act
+      @TestDecorator
+      class TestClass {}
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+      expect(TestDecorator.metadata).toBe(testMetadata);
+    });
+
+    it('should store a value created by a factory', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      // Act
+      @testMetadata.classDecorator((target) => target.name)
+      class TestClass {}
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('TestClass');
+    });
+
+    it('should store a value through a standard class decorator', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const metadata = Object.create(null);
+      class TestClass {}
+      // Act
+      testMetadata.classDecorator('testValue')(TestClass, {
+        kind: 'class',
+        name: 'TestClass',
+        metadata,
+        addInitializer: () => undefined,
+      });
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Assert
+      expect(testMetadata.get(metadata)).toBe('testValue');
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+    });
+
+    it('should store a value on the class without Symbol.metadata support', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      const context = {
+        kind: 'class',
+        name: 'TestClass',
+        metadata: undefined,
+        addInitializer: () => undefined,
+      } as unknown as ClassDecoratorContext;
+      // Act
+      testMetadata.classDecorator('testValue')(TestClass, context);
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+    });
+  });
+
+  describe('inherit option', () => {
+    it('should not inherit a parent value with the none strategy', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        inherit: 'none',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass, 'testValue');
+      // Assert
+      expect(testMetadata.get(ChildClass)).toBeUndefined();
+      expect(testMetadata.has(ChildClass)).toBe(false);
+      expect(testMetadata.has(ParentClass)).toBe(true);
+    });
+
+    it('should inherit a deep clone of a parent value', () => {
+      // Arrange
+      const testMetadata = new Metadata<{ nested: { value: number } }>(
+        'test:testMetadata',
+        { inherit: 'deep-clone' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, { nested: { value: 1 } });
+      // Act
+      const metadata = testMetadata.get(ChildClass);
+      // Assert
+      expect(metadata).toEqual({ nested: { value: 1 } });
+      expect(metadata?.nested).not.toBe(testMetadata.get(ParentClass)?.nested);
+    });
+
+    it('should merge options down a class hierarchy', () => {
+      // Arrange
+      const testMetadata = new Metadata<Record<string, string>>(
+        'test:testMetadata',
+        { inherit: 'child-first' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, { a: 'parent', b: 'parent' });
+      testMetadata.set(ChildClass, { b: 'child', c: 'child' });
+      // Act
+      const metadata = testMetadata.get(GrandChildClass);
+      // Assert
+      expect(metadata).toEqual({ a: 'parent', b: 'child', c: 'child' });
+      expect(testMetadata.get(ParentClass)).toEqual({
+        a: 'parent',
+        b: 'parent',
+      });
+    });
+
+    it('should resolve a value with a custom merger', () => {
+      // Arrange
+      const testMetadata = new Metadata<string[]>('test:testMetadata', {
+        inherit: (parentValue, ownValue, ctor) => [
+          ...(parentValue ?? []),
+          ...(ownValue ?? [(ctor as { name: string }).name]),
+        ],
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, ['parent']);
+      // Act
+      const metadata = testMetadata.get(ChildClass);
+      // Assert
+      expect(metadata).toEqual(['parent', 'ChildClass']);
+    });
+  });
+
+  describe('#getTargets() - class discovery', () => {
+    it('should list classes with an own value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class FirstClass {}
+      class SecondClass {}
+      class DeletedClass {}
+      class ChildClass extends FirstClass {}
+      // Act
+      testMetadata.set(FirstClass, 'first');
+      testMetadata.set(new SecondClass(), 'second');
+      testMetadata.set(DeletedClass, 'deleted');
+      testMetadata.delete(DeletedClass);
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([FirstClass, SecondClass]);
+      expect(testMetadata.getTargets()).not.toContain(ChildClass);
+    });
+
+    it('should list subclasses which only inherit the value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const otherMetadata = new Metadata<string>('test:otherMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class UnrelatedClass {}
+      // Act
+      testMetadata.set(ParentClass, 'parent');
+      otherMetadata.set(ChildClass, 'child');
+      otherMetadata.set(UnrelatedClass, 'unrelated');
+      // Assert
+      expect(testMetadata.getTargets({ inherited: true })).toEqual([
+        ParentClass,
+        ChildClass,
+      ]);
+    });
+
+    it('should capture classes decorated with standard decorators', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const initializers: ((this: unknown) => void)[] = [];
+      const metadata = Object.create(null);
+      const context = {
+        kind: 'class',
+        name: 'TestClass',
+        metadata,
+        addInitializer: (initializer: (this: unknown) => void) =>
+          initializers.push(initializer),
+      } as unknown as ClassDecoratorContext;
+      class TestClass {}
+      // Act
+      testMetadata.set(context, 'testValue');
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      initializers.forEach((initializer) => initializer.call(TestClass));
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([TestClass]);
+    });
+
+    it('should capture a class from an instance member initializer', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const initializers: ((this: unknown) => void)[] = [];
+      const metadata = Object.create(null);
+      const context = {
+        kind: 'field',
+        name: 'testField',
+        static: false,
+        private: false,
+        metadata,
+        addInitializer: (initializer: (this: unknown) => void) =>
+          initializers.push(initializer),
+      } as unknown as ClassFieldDecoratorContext;
+      class TestClass {}
+      // Act
+      testMetadata.set(context, 'testValue');
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      initializers.forEach((initializer) => initializer.call(new TestClass()));
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([TestClass]);
+    });
+
+    it('should ignore contexts of a finished decoration', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const metadata = Object.create(null);
+      const context = {
+        kind: 'class',
+        name: 'TestClass',
+        metadata,
+        addInitializer: () => {
+          throw new TypeError('Decoration has finished');
+        },
+      } as unknown as ClassDecoratorContext;
+      // Act
+      testMetadata.set(context, 'testValue');
+      testMetadata.set(metadata, 'testValue');
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([]);
+      expect(testMetadata.get(metadata)).toBe('testValue');
+    });
+  });
+
+  describe('#discover() - class discovery', () => {
+    it('should find classes matching a predicate', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class FirstClass {}
+      class SecondClass {}
+      testMetadata.set(FirstClass, 'first');
+      testMetadata.set(SecondClass, 'second');
+      // Act
+      const targets = testMetadata.discover(
+        (target) => testMetadata.get(target) === 'second',
+      );
+      // Assert
+      expect(targets).toEqual([SecondClass]);
+      expect(testMetadata.discover()).toEqual([FirstClass, SecondClass]);
+    });
+  });
+
+  describe('validate option', () => {
+    it('should throw a validation error for an invalid value', () => {
+      // Arrange
+      const testMetadata = new Metadata<number>('test:testMetadata', {
+        validate: (value) => value > 0,
+      });
+      class TestClass {}
+      // Act
+      const set = (): void => testMetadata.set(TestClass, -1);
+      // Assert
+      expect(set).toThrow(MetadataValidationError);
+      expect(set).toThrow(/"test:testMetadata" on "TestClass"/);
+      expect(testMetadata.has(TestClass)).toBe(false);
+    });
+
+    it('should validate the values merged from parent classes', () => {
+      // Arrange
+      const testMetadata = new Metadata<{ min?: number; max?: number }>(
+        'test:testMetadata',
+        {
+          inherit: 'child-first',
+          validate: ({ min = 0, max = Infinity }) => min <= max,
+        },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, { max: 10 });
+      testMetadata.set(ChildClass, { min: 20 });
+      // Act
+      const get = (): unknown => testMetadata.get(ChildClass);
+      // Assert
+      expect(get).toThrow(MetadataValidationError);
+      expect(testMetadata.get(ParentClass)).toEqual({ max: 10 });
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed class only', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'testValue');
+      // Act
+      testMetadata.seal(ParentClass);
+      testMetadata.set(ChildClass, 'childValue');
+      // Assert
+      expect(() => testMetadata.set(ParentClass, 'newValue')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.delete(ParentClass)).toThrow(
+        /"test:testMetadata" on "ParentClass" is sealed/,
+      );
+      expect(testMetadata.isSealed(ChildClass)).toBe(false);
+      expect(testMetadata.get(ChildClass)).toBe('childValue');
+    });
+
+    it('should seal a class through its decorator metadata', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      const metadata = Object.create(null);
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(testMetadata.isSealed(metadata)).toBe(true);
+    });
+
+    it('should seal all classes with sealAll', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.sealAll();
+      // Assert
+      expect(() => testMetadata.set(TestClass, 'testValue')).toThrow(
+        MetadataSealedError,
+      );
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about set and delete', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.set(TestClass, 'first');
+      testMetadata.set(TestClass, 'second');
+      testMetadata.delete(TestClass);
+      testMetadata.delete(TestClass);
+      // Assert
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        {
+          type: 'set',
+          target: TestClass,
+          key: undefined,
+          value: 'first',
+          previousValue: undefined,
+        },
+        {
+          type: 'set',
+          target: TestClass,
+          key: undefined,
+          value: 'second',
+          previousValue: 'first',
+        },
+        {
+          type: 'delete',
+          target: TestClass,
+          key: undefined,
+          value: undefined,
+          previousValue: 'second',
+        },
+      ]);
+    });
+
+    it('should notify about the changes of a single class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.subscribe(ParentClass, listener);
+      // Act
+      testMetadata.set(ChildClass, 'childValue');
+      testMetadata.set(new ParentClass(), 'parentValue');
+      // Assert
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ target: ParentClass, value: 'parentValue' }),
+      );
+    });
+
+    it('should stop notifying once unsubscribed', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      const unsubscribe = testMetadata.subscribe(TestClass, listener);
+      // Act
+      unsubscribe();
+      testMetadata.set(TestClass, 'testValue');
+      // Assert
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying once the signal is aborted', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      const controller = new AbortController();
+      class TestClass {}
+      testMetadata.subscribe(listener, { signal: controller.signal });
+      testMetadata.set(TestClass, 'first');
+      // Act
+      controller.abort();
+      testMetadata.set(TestClass, 'second');
+      // Assert
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not subscribe with an already aborted signal', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      // Act
+      testMetadata.subscribe(TestClass, listener, {
+        signal: AbortSignal.abort(),
+      });
+      testMetadata.set(TestClass, 'testValue');
+      // Assert
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should share the key between helpers', () => {
+      // Arrange
+      const first = Metadata.global<string>('test.pkg:globalMetadata');
+      const second = new Metadata<string>('test.pkg:globalMetadata', {
+        global: true,
+      });
+      class TestClass {}
+      // Act
+      first.set(TestClass, 'testValue');
+      // Assert
+      expect(first.metadataKey).toBe(Symbol.for('test.pkg:globalMetadata'));
+      expect(second.get(TestClass)).toBe('testValue');
+    });
+
+    it('should require a namespaced key', () => {
+      // Arrange
+      // Act
+      const createHelpers = ['key', ':key', 'org.pkg:', 'org pkg:key'].map(
+        (key) => () => Metadata.global(key),
+      );
+      // Assert
+      createHelpers.forEach((createHelper) =>
+        expect(createHelper).toThrow(TypeError),
+      );
+    });
+  });
+
+  describe('target option', () => {
+    it('should store the metadata of an instance apart from its class', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+        storage,
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      const otherInstance = new TestClass();
+      testMetadata.set(TestClass, 'class');
+      // Act
+      testMetadata.set(instance, 'instance');
+      // Assert
+      expect(testMetadata.get(instance)).toBe('instance');
+      expect(testMetadata.get(otherInstance)).toBe('class');
+      expect(testMetadata.get(TestClass)).toBe('class');
+      expect(storage.has(instance, testMetadata.metadataKey)).toBe(false);
+    });
+
+    it('should fall back to the class after deleting the instance value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.set(TestClass, 'class');
+      testMetadata.set(instance, 'instance');
+      // Act
+      const deleted = testMetadata.delete(instance);
+      // Assert
+      expect(deleted).toBe(true);
+      expect(testMetadata.get(instance)).toBe('class');
+      expect(testMetadata.has(instance)).toBe(true);
+    });
+
+    it('should merge the instance value with the class value', () => {
+      // Arrange
+      const testMetadata = new Metadata<Record<string, boolean>>(
+        'test:testMetadata',
+        { target: 'instance', inherit: 'child-first' },
+      );
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.set(TestClass, { loaded: false, dirty: false });
+      // Act
+      testMetadata.set(instance, { dirty: true });
+      // Assert
+      expect(testMetadata.get(instance)).toEqual({
+        loaded: false,
+        dirty: true,
+      });
+    });
+
+    it('should not list classes with instance metadata only', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+      });
+      class TestClass {}
+      // Act
+      testMetadata.set(new TestClass(), 'instance');
+      // Assert
+      expect(testMetadata.getTargets()).toEqual([]);
+    });
+
+    it('should seal and validate the metadata of an instance', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+        validate: (value) => value.length > 0,
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      const otherInstance = new TestClass();
+      testMetadata.seal(instance);
+      // Act
+      const setSealed = () => testMetadata.set(instance, 'instance');
+      const setInvalid = () => testMetadata.set(otherInstance, '');
+      // Assert
+      expect(setSealed).toThrow(
+        new MetadataSealedError(instance, 'test:testMetadata'),
+      );
+      expect(setSealed).toThrow('"TestClass instance"');
+      expect(setInvalid).toThrow(MetadataValidationError);
+      expect(setInvalid).toThrow('"TestClass instance"');
+      expect(testMetadata.isSealed(otherInstance)).toBe(false);
+    });
+
+    it('should not seal the metadata of instances with sealAll', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.sealAll();
+      // Act
+      testMetadata.set(instance, 'instance');
+      // Assert
+      expect(testMetadata.get(instance)).toBe('instance');
+      expect(testMetadata.isSealed(instance)).toBe(false);
+      expect(testMetadata.isSealed(TestClass)).toBe(true);
+    });
+  });
+
+  describe('#getOwn() - own value getting', () => {
+    it('should ignore the value of the parent class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parent');
+      // Act
+      const childValue = testMetadata.getOwn(ChildClass);
+      const parentValue = testMetadata.getOwn(new ParentClass());
+      // Assert
+      expect(childValue).toBeUndefined();
+      expect(parentValue).toBe('parent');
+    });
+  });
+
+  describe('#hasOwn() - own value checking', () => {
+    it('should ignore the value of the parent class', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parent');
+      // Act
+      const deleted = testMetadata.delete(ChildClass);
+      // Assert
+      expect(deleted).toBe(false);
+      expect(testMetadata.has(ChildClass)).toBe(true);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+      expect(testMetadata.hasOwn(ParentClass)).toBe(true);
+    });
+  });
+
+  describe('#getOrigin() - value origin', () => {
+    it('should return the nearest class defining the value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class RootClass {}
+      class ParentClass extends RootClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(RootClass, 'root');
+      testMetadata.set(ParentClass, 'parent');
+      // Act
+      const origin = testMetadata.getOrigin(new ChildClass());
+      // Assert
+      expect(origin).toBe(ParentClass);
+      expect(testMetadata.getOrigin(RootClass)).toBe(RootClass);
+    });
+
+    it('should return undefined if no class defines the value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const origin = testMetadata.getOrigin(TestClass);
+      // Assert
+      expect(origin).toBeUndefined();
+    });
+  });
+
+  describe('#getChain() - resolution chain', () => {
+    it('should list the classes defining the value with their own values', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata', {
+        target: 'instance',
+      });
+      class RootClass {}
+      class ParentClass extends RootClass {}
+      class ChildClass extends ParentClass {}
+      const instance = new ChildClass();
+      testMetadata.set(RootClass, 'root');
+      testMetadata.set(ChildClass, 'child');
+      testMetadata.set(instance, 'instance');
+      // Act
+      const chain = testMetadata.getChain(instance);
+      // Assert
+      expect(chain).toEqual([
+        { ctor: instance, value: 'instance' },
+        { ctor: ChildClass, value: 'child' },
+        { ctor: RootClass, value: 'root' },
+      ]);
+    });
+  });
+
+  describe('#mask() - inherited value hiding', () => {
+    it('should hide the value from the class and its subclasses', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class RootClass {}
+      class ParentClass extends RootClass {}
+      class ChildClass extends ParentClass {}
+      class OtherClass extends ParentClass {}
+      testMetadata.set(RootClass, 'root');
+      testMetadata.set(ParentClass, 'parent');
+      testMetadata.set(OtherClass, 'other');
+      // Act
+      testMetadata.mask(ParentClass);
+      // Assert
+      expect(testMetadata.get(ParentClass)).toBeUndefined();
+      expect(testMetadata.has(ChildClass)).toBe(false);
+      expect(testMetadata.hasOwn(ParentClass)).toBe(false);
+      expect(testMetadata.getOrigin(ChildClass)).toBeUndefined();
+      expect(testMetadata.getChain(OtherClass)).toEqual([
+        { ctor: OtherClass, value: 'other' },
+      ]);
+      expect(testMetadata.get(RootClass)).toBe('root');
+    });
+
+    it('should hide the value from the inherit strategies', () => {
+      // Arrange
+      const testMetadata = new Metadata<string[]>('test:testMetadata', {
+        inherit: 'parent-first',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, ['parent']);
+      testMetadata.mask(ChildClass);
+      // Act
+      testMetadata.set(GrandChildClass, ['grandChild']);
+      // Assert
+      expect(testMetadata.get(ChildClass)).toBeUndefined();
+      expect(testMetadata.has(ChildClass)).toBe(false);
+      expect(testMetadata.get(GrandChildClass)).toEqual(['grandChild']);
+    });
+
+    it('should be removed by setting a value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parent');
+      testMetadata.mask(ChildClass);
+      // Act
+      testMetadata.set(ChildClass, 'child');
+      testMetadata.delete(ChildClass);
+      // Assert
+      expect(testMetadata.get(ChildClass)).toBe('parent');
+      expect(testMetadata.unmask(ChildClass)).toBe(false);
+    });
+
+    it('should notify the listeners', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      const listener = jest.fn();
+      testMetadata.set(ParentClass, 'parent');
+      testMetadata.subscribe(ChildClass, listener);
+      // Act
+      testMetadata.mask(ChildClass);
+      testMetadata.mask(ChildClass);
+      testMetadata.unmask(ChildClass);
+      // Assert
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        {
+          type: 'delete',
+          target: ChildClass,
+          key: undefined,
+          value: undefined,
+          previousValue: 'parent',
+        },
+        {
+          type: 'set',
+          target: ChildClass,
+          key: undefined,
+          value: 'parent',
+          previousValue: undefined,
+        },
+      ]);
+    });
+
+    it('should throw if the metadata is sealed', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.seal(TestClass);
+      // Act
+      const mask = () => testMetadata.mask(TestClass);
+      const unmask = () => testMetadata.unmask(TestClass);
+      // Assert
+      expect(mask).toThrow(MetadataSealedError);
+      expect(unmask).toThrow(MetadataSealedError);
+    });
+  });
+
+  describe('#unmask() - inherited value restoring', () => {
+    it('should restore the inherited value', () => {
+      // Arrange
+      const testMetadata = new Metadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'parent');
+      testMetadata.mask(new ChildClass());
+      // Act
+      const unmasked = testMetadata.unmask(ChildClass);
+      // Assert
+      expect(unmasked).toBe(true);
+      expect(testMetadata.get(ChildClass)).toBe('parent');
+      expect(testMetadata.getOrigin(ChildClass)).toBe(ParentClass);
+    });
+
+    it.each([undefined, 'shallow-copy'] as const)(
+      'should restore the value to a descendant read while masked (%s)',
+      (inherit) => {
+        // Arrange
+        const testMetadata = new Metadata<string[]>('test:testMetadata', {
+          inherit,
+        });
+        class ParentClass {}
+        class ChildClass extends ParentClass {}
+        class GrandChildClass extends ChildClass {}
+        testMetadata.set(ParentClass, ['parent']);
+        testMetadata.mask(ChildClass);
+        const masked = testMetadata.get(GrandChildClass);
+        // Act
+        testMetadata.unmask(ChildClass);
+        // Assert
+        expect(masked).toBeUndefined();
+        expect(testMetadata.get(GrandChildClass)).toEqual(['parent']);
+      },
+    );
+  });
 });
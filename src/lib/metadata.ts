@@ -1,4 +1,13 @@
-import { Constructor } from 'type-fest';
+import {
+  BaseMetadata,
+  MetadataChainEntry,
+  MetadataOptions,
+} from './base-metadata';
+import {
+  ClassMetadataDecorator,
+  MetadataDecorator,
+} from './metadata-decorator';
+import { getMetadataLevelOwner, MetadataTarget } from './metadata-target';
 
 /**
  * Define a simple metadata value on a class. The metadata are stored under
@@ -7,6 +16,17 @@ import { Constructor } from 'type-fest';
  *
  * The metadata key can be passed as string or a known symbol.
  *
+ * Besides classes and instances, a standard (TC39) decorator context or its
+ * `metadata` object can be used as a target. Such metadata is stored on the
+ * `Symbol.metadata` object of the decorated class and can be read back from
+ * the class itself.
+ *
+ * By default a class without an own value sees the value of the nearest
+ * parent class (the very same object). The `inherit` option changes how the
+ * parent value is combined with the own value of a class, e.g. to merge
+ * options objects down a class hierarchy. The value is resolved on every read
+ * and the parent value is never modified.
+ *
  * @template V - Metadata value type.
  * @example
  *
@@ -17,20 +37,24 @@ import { Constructor } from 'type-fest';
  * console.log(myMetadata.get(MyClass)); // 'myValue'
  * ```
  */
-export class Metadata<V> {
-  /**
-   * Unique symbol used to store metadata on a class.
-   */
-  public readonly metadataKey: symbol;
+export class Metadata<V> extends BaseMetadata<V> {
+  public get kind(): 'metadata' {
+    return 'metadata';
+  }
   /**
-   * Creates a metadata with a unique symbol key and exposes methods to
-   * interact with the metadata on a class or an instance.
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
    *
-   * @param key - Metadata key used to store the metadata on a class.
-   *    If a string is passed, it will be converted to a symbol.
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
    */
-  constructor(key: string | symbol) {
-    this.metadataKey = typeof key === 'symbol' ? key : Symbol(key);
+  public static global<V>(
+    key: string,
+    options: Omit<MetadataOptions<V>, 'global'> = {},
+  ): Metadata<V> {
+    return new Metadata<V>(key, { ...options, global: true });
   }
   /**
    * Get the metadata value from a class or an instance.
@@ -40,10 +64,19 @@ export class Metadata<V> {
    * @returns Metadata value or `undefined` if no metadata is set.
    * @template T - Class instance type.
    */
-  public get<T extends object>(arg: T | Constructor<T>): V | undefined {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
+  public get<T extends object>(arg: MetadataTarget<T>): V | undefined {
+    const levels = this.resolveChain(arg);
+
+    if (this.options.inherit === undefined) {
+      return this.readValue(levels);
+    }
+    const value = this.resolveValue(levels, this.options.inherit);
 
-    return Reflect.get(ctor, this.metadataKey);
+    // A copied or merged value has not been validated when it was written.
+    if (value !== undefined && value !== this.readValue([levels[0]])) {
+      this.validateValue(arg, value);
+    }
+    return value;
   }
   /**
    * Set the metadata value on a class or an instance.
@@ -51,12 +84,20 @@ export class Metadata<V> {
    * @param arg - Class constructor or an instance of a class. The metadata will
    *   be stored on the class itself or the instance's constructor.
    * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public set<T extends object, V>(arg: T | Constructor<T>, value: V): void {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
+  public set<T extends object>(arg: MetadataTarget<T>, value: V): void {
+    this.assertNotSealed(arg);
+    this.validateValue(arg, value);
 
-    Reflect.set(ctor, this.metadataKey, value);
+    const previousValue = this.isObserved ? this.get(arg) : undefined;
+
+    this.writeValue(arg, value);
+    this.setLevelMasked(arg, false);
+    this.emit(arg, { type: 'set', key: undefined, value, previousValue });
   }
   /**
    * Check if the metadata is set on an instance.
@@ -66,6 +107,14 @@ export class Metadata<V> {
    * @returns `true` if the metadata is set, `false` otherwise.
    */
   public has<TInstance extends object>(instance: TInstance): boolean;
+  /**
+   * Check if the metadata is set on a class through a standard decorator
+   * context or its metadata object.
+   *
+   * @param context - Standard decorator context or its metadata object.
+   * @returns `true` if the metadata is set, `false` otherwise.
+   */
+  public has(context: DecoratorContext | DecoratorMetadataObject): boolean;
   /**
    * Check if the metadata is set on a class.
    *
@@ -83,30 +132,175 @@ export class Metadata<V> {
    * @returns `true` if the metadata is set, `false` otherwise.
    * @template T - Class instance type.
    */
-  public has<T extends object>(arg: T | Constructor<T>): boolean {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
+  public has<T extends object>(arg: MetadataTarget<T>): boolean {
+    return this.options.inherit === undefined
+      ? this.findHolder(this.resolveChain(arg)) !== undefined
+      : this.get(arg) !== undefined;
+  }
+  /**
+   * Get the metadata value stored on the class itself, ignoring the parent
+   * classes.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Own metadata value or `undefined` if the class does not define
+   *  any.
+   * @template T - Class instance type.
+   */
+  public getOwn<T extends object>(arg: MetadataTarget<T>): V | undefined {
+    const [ownLevel] = this.resolveChain(arg);
+
+    return this.readValue([ownLevel]);
+  }
+  /**
+   * Check if the metadata is stored on the class itself, ignoring the parent
+   * classes.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns `true` if the class defines own metadata, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public hasOwn<T extends object>(arg: MetadataTarget<T>): boolean {
+    const [ownLevel] = this.resolveChain(arg);
+
+    return this.findHolder([ownLevel]) !== undefined;
+  }
+  /**
+   * Find the class supplying the metadata value, i.e. the class itself or
+   * its nearest ancestor defining the metadata.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns The class defining the metadata (see `MetadataChainEntry`) or
+   *  `undefined` if no class of the chain defines any.
+   * @template T - Class instance type.
+   */
+  public getOrigin<T extends object>(
+    arg: MetadataTarget<T>,
+  ): object | undefined {
+    const [level] = this.findLevels(arg);
 
-    return Reflect.has(ctor, this.metadataKey);
+    return level ? getMetadataLevelOwner(level) : undefined;
+  }
+  /**
+   * List the own metadata values of the class and all its ancestors defining
+   * the metadata, starting with the class itself.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Classes defining the metadata with their own values.
+   * @template T - Class instance type.
+   */
+  public getChain<T extends object>(
+    arg: MetadataTarget<T>,
+  ): MetadataChainEntry<V>[] {
+    return this.findLevels(arg).map((level) => ({
+      ctor: getMetadataLevelOwner(level),
+      value: this.readValue([level]) as V,
+    }));
   }
   /**
    * Delete the metadata from a class or an instance.
    *
+   * Only the own value of the class is deleted, a value inherited from
+   * a parent class stays visible (see `hasOwn` and `getOrigin`). To hide the
+   * inherited value, use `mask`.
+   *
    * @param arg - Class constructor or an instance of a class. The method
    *  will look for the metadata on the class itself or any parent class.
-   * @returns `true` if the metadata was deleted, `false` otherwise.
+   * @returns `true` if the own value of the class was deleted, `false`
+   *  otherwise (even if a value is still inherited from a parent class).
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public delete<T extends object>(arg: MetadataTarget<T>): boolean {
+    const previousValue = this.isObserved ? this.get(arg) : undefined;
+
+    if (!this.deleteOwnValue(arg)) {
+      return false;
+    }
+    this.emit(arg, {
+      type: 'delete',
+      key: undefined,
+      value: undefined,
+      previousValue,
+    });
+    return true;
+  }
+  /**
+   * Hide the metadata from a class and its subclasses. The own value of the
+   * class is deleted and the value of its parents is no longer inherited,
+   * so the class reads the metadata as absent. Subclasses can still define
+   * their own value. Setting a value on the class removes the mask.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public mask<T extends object>(arg: MetadataTarget<T>): void {
+    this.assertNotSealed(arg);
+
+    const previousValue = this.isObserved ? this.get(arg) : undefined;
+
+    this.deleteOwnValue(arg);
+    this.setLevelMasked(arg, true);
+
+    if (previousValue !== undefined) {
+      this.emit(arg, {
+        type: 'delete',
+        key: undefined,
+        value: undefined,
+        previousValue,
+      });
+    }
+  }
+  /**
+   * Remove the mask of a class, so it inherits the metadata of its parents
+   * again.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns `true` if the class was masked, `false` otherwise.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public delete<T extends object>(arg: T | Constructor<T>): boolean {
-    if (arg instanceof Function) {
-      if (!Reflect.has(arg, this.metadataKey)) {
-        return false;
-      }
-      return Reflect.deleteProperty(arg, this.metadataKey);
-    } else {
-      if (!Reflect.has(arg.constructor, this.metadataKey)) {
-        return false;
-      }
-      return Reflect.deleteProperty(arg.constructor, this.metadataKey);
+  public unmask<T extends object>(arg: MetadataTarget<T>): boolean {
+    this.assertNotSealed(arg);
+
+    if (!this.setLevelMasked(arg, false)) {
+      return false;
     }
+    const value = this.isObserved ? this.get(arg) : undefined;
+
+    if (value !== undefined) {
+      this.emit(arg, {
+        type: 'set',
+        key: undefined,
+        value,
+        previousValue: undefined,
+      });
+    }
+    return true;
+  }
+  /**
+   * Create a class decorator storing the metadata value on the decorated
+   * class. The decorator works both as a legacy and as a standard decorator.
+   *
+   * @param valueOrFactory - Value to store or a function creating the value
+   *  from the decorated class. A function value has to be returned from
+   *  a factory.
+   * @returns Class decorator exposing this metadata as `metadata` property.
+   */
+  public classDecorator(
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    valueOrFactory: V | ((target: Function) => V),
+  ): MetadataDecorator<this, ClassMetadataDecorator> {
+    return this.createDecorator(({ target, value }) => {
+      // eslint-disable-next-line @typescript-eslint/ban-types
+      const ctor = value as Function;
+
+      this.set(
+        target,
+        valueOrFactory instanceof Function
+          ? valueOrFactory(ctor)
+          : valueOrFactory,
+      );
+    });
   }
 }
@@ -0,0 +1,237 @@
+import { MapMetadata } from './map-metadata';
+import { MultiMapMetadata } from './multi-map-metadata';
+
+describe('(Unit) MultiMapMetadata', () => {
+  describe('#constructor() - initialization', () => {
+    it('should be a map metadata helper', () => {
+      // Arrange
+      const key = 'test:testMetadata';
+      // Act
+      const testMetadata = new MultiMapMetadata<string, number>(key);
+      // Assert
+      expect(testMetadata).toBeInstanceOf(MapMetadata);
+      expect(testMetadata.kind).toBe('map');
+      expect(testMetadata.resolution).toBe('live');
+    });
+  });
+
+  describe('#add() - value adding', () => {
+    it('should add the values to the list of the key', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class TestClass {}
+      // Act
+      testMetadata.add(TestClass, 'a', 1);
+      testMetadata.add(new TestClass(), 'a', 2);
+      testMetadata.add(TestClass, 'b', 3);
+      // Assert
+      expect(testMetadata.getAll(TestClass, 'a')).toEqual([1, 2]);
+      expect(testMetadata.getAll(TestClass, 'b')).toEqual([3]);
+      expect(testMetadata.getAll(TestClass, 'c')).toEqual([]);
+    });
+
+    it('should append the own values to the inherited list', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      // Act
+      testMetadata.add(ChildClass, 'a', 2);
+      testMetadata.getMap(ChildClass).get('a')?.push(3);
+      // Assert
+      expect(testMetadata.getAll(ParentClass, 'a')).toEqual([1]);
+      expect(testMetadata.getAll(ChildClass, 'a')).toEqual([1, 2]);
+      expect(testMetadata.getOwn(ChildClass)?.get('a')).toEqual([2]);
+    });
+
+    it('should not expose the stored list', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class TestClass {}
+      testMetadata.add(TestClass, 'a', 1);
+      // Act
+      testMetadata.getAll(TestClass, 'a').push(2);
+      // Assert
+      expect(testMetadata.getAll(TestClass, 'a')).toEqual([1]);
+    });
+
+    it('should resolve the values added to the parent later', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      testMetadata.add(ChildClass, 'a', 2);
+      // Act
+      testMetadata.add(ParentClass, 'a', 3);
+      testMetadata.add(ParentClass, 'b', 4);
+      // Assert
+      expect([...testMetadata.getMap(ChildClass)]).toEqual([
+        ['a', [1, 3, 2]],
+        ['b', [4]],
+      ]);
+      expect(testMetadata.getAll(ParentClass, 'a')).toEqual([1, 3]);
+    });
+
+    it('should use the inherit option if passed', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+        { inherit: 'none' },
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      // Act
+      testMetadata.add(ChildClass, 'a', 2);
+      // Assert
+      expect(testMetadata.getAll(ChildClass, 'a')).toEqual([2]);
+    });
+  });
+
+  describe('#deleteValue() - value deleting', () => {
+    it('should delete the first occurrence of an own value', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      testMetadata.add(ChildClass, 'a', 1);
+      testMetadata.add(ChildClass, 'a', 2);
+      testMetadata.add(ChildClass, 'a', 1);
+      // Act
+      const deleted = testMetadata.deleteValue(ChildClass, 'a', 1);
+      const missing = testMetadata.deleteValue(ChildClass, 'a', 3);
+      // Assert
+      expect(deleted).toBe(true);
+      expect(missing).toBe(false);
+      expect(testMetadata.getAll(ChildClass, 'a')).toEqual([1, 2, 1]);
+      expect(testMetadata.getAll(ParentClass, 'a')).toEqual([1]);
+    });
+
+    it('should not delete an inherited value', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      // Act
+      const deleted = testMetadata.deleteValue(ChildClass, 'a', 1);
+      // Assert
+      expect(deleted).toBe(false);
+      expect(testMetadata.getAll(ChildClass, 'a')).toEqual([1]);
+    });
+
+    it('should delete the key together with its last value', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      testMetadata.add(ChildClass, 'b', 2);
+      // Act
+      const deleted = testMetadata.deleteValue(ChildClass, 'b', 2);
+      // Assert
+      expect(deleted).toBe(true);
+      expect(testMetadata.has(ChildClass, 'b')).toBe(false);
+      expect(testMetadata.getOwn(ChildClass)?.has('b')).toBe(false);
+      expect(testMetadata.has(ChildClass, 'a')).toBe(true);
+    });
+  });
+
+  describe('#deleteKey() - key deleting', () => {
+    it('should delete the whole list of the key', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class TestClass {}
+      testMetadata.add(TestClass, 'a', 1);
+      testMetadata.add(TestClass, 'a', 2);
+      // Act
+      const deleted = testMetadata.deleteKey(TestClass, 'a');
+      const missing = testMetadata.deleteKey(TestClass, 'b');
+      // Assert
+      expect(deleted).toBe(true);
+      expect(missing).toBe(false);
+      expect(testMetadata.getAll(TestClass, 'a')).toEqual([]);
+    });
+
+    it('should keep the inherited list hidden when adding values', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a', 1);
+      testMetadata.deleteKey(ChildClass, 'a');
+      // Act
+      testMetadata.add(ChildClass, 'a', 2);
+      // Assert
+      expect(testMetadata.getAll(ChildClass, 'a')).toEqual([2]);
+      expect(testMetadata.getAll(ParentClass, 'a')).toEqual([1]);
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should emit the whole list of the key', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class TestClass {}
+      testMetadata.add(TestClass, 'a', 1);
+      const listener = jest.fn();
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.add(TestClass, 'a', 2);
+      // Assert
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'set',
+          key: 'a',
+          value: [1, 2],
+          previousValue: [1],
+        }),
+      );
+    });
+
+    it('should emit a delete event once the list is empty', () => {
+      // Arrange
+      const testMetadata = new MultiMapMetadata<string, number>(
+        'test:testMetadata',
+      );
+      class TestClass {}
+      testMetadata.add(TestClass, 'a', 1);
+      const listener = jest.fn();
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.deleteValue(TestClass, 'a', 1);
+      // Assert
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'delete',
+          key: 'a',
+          value: undefined,
+          previousValue: [1],
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { CollectionMetadataOptions } from './collection-metadata';
+import { MapMetadata } from './map-metadata';
+import { MetadataTarget } from './metadata-target';
+
+/**
+ * Combine the lists inherited from a parent class with the own lists of
+ * a class. Every list is copied, an own list is appended to the inherited
+ * list under the same key.
+ */
+function mergeLists<K, V>(
+  parentLists: Map<K, V[]> | undefined,
+  ownLists: Map<K, V[]> | undefined,
+): Map<K, V[]> {
+  const merged = new Map<K, V[]>();
+
+  parentLists?.forEach((list, key) => merged.set(key, [...list]));
+  ownLists?.forEach((list, key) =>
+    merged.set(key, [...(merged.get(key) ?? []), ...list]),
+  );
+
+  return merged;
+}
+
+/**
+ * MultiMapMetadata is a helper class that allows to store a list of values
+ * per key on a class, e.g. handlers by an event name or validators by a field
+ * name. It is a `MapMetadata` of lists which is always resolved in the live
+ * mode: a class stores its own values only and the list of a key is the
+ * inherited list followed by the own values of the class, so the values added
+ * to a parent class later are visible to its subclasses as well.
+ *
+ * The changes emit `'set'` (and `'delete'`) events with the whole list of the
+ * key.
+ *
+ * @template K - Type of the key in the metadata map.
+ * @template V - Type of the values in the lists.
+ *
+ * @example
+ *
+ * ```ts
+ * const handlers = new MultiMapMetadata<string, Function>('events:handlers');
+ * class MyComponent {}
+ * handlers.add(MyComponent, 'click', onClick);
+ * handlers.add(MyComponent, 'click', trackClick);
+ * console.log(handlers.getAll(MyComponent, 'click')); // [onClick, trackClick]
+ * ```
+ */
+export class MultiMapMetadata<K, V> extends MapMetadata<K, V[]> {
+  /**
+   * Creates a multi-map metadata helper.
+   *
+   * @param key - Metadata key used to store the metadata on a class.
+   *    If a string is passed, it will be converted to a symbol.
+   * @param options - Metadata options. The `inherit` option defaults to
+   *  appending the own lists to the inherited lists.
+   */
+  constructor(
+    key: string | symbol,
+    options: Omit<
+      CollectionMetadataOptions<Map<K, V[]>, V[]>,
+      'resolution'
+    > = {},
+  ) {
+    super(key, {
+      ...options,
+      resolution: 'live',
+      inherit: options.inherit ?? mergeLists,
+    });
+  }
+  /**
+   * Add a value to the own list under given key on a class or an instance
+   * constructor. The inherited values of the key are kept.
+   *
+   * @param arg - Class constructor or an instance of a class. The metadata will
+   *  be stored on the class itself or the instance's constructor.
+   * @param key - Key in the metadata map.
+   * @param value - Value to add at the end of the list.
+   * @throws {MetadataValidationError} If the own list does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public add<T extends object>(arg: MetadataTarget<T>, key: K, value: V): void {
+    this.writeOwnList(arg, key, [...this.getOwnList(arg, key), value]);
+  }
+  /**
+   * Get the list of values under given key from a class or an instance
+   * constructor.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @param key - Key in the metadata map.
+   * @returns A copy of the list, empty if no value is stored under the key.
+   * @template T - Class instance type.
+   */
+  public getAll<T extends object>(arg: MetadataTarget<T>, key: K): V[] {
+    return [...(this.get(arg, key) ?? [])];
+  }
+  /**
+   * Delete the first occurrence of a value from the own list under given key
+   * on a class or an instance constructor. The inherited values can not be
+   * deleted one by one, use `deleteKey` to hide them.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param key - Key in the metadata map.
+   * @param value - Value to delete.
+   * @returns `true` if the value was deleted, `false` if the own list does
+   *  not contain it.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public deleteValue<T extends object>(
+    arg: MetadataTarget<T>,
+    key: K,
+    value: V,
+  ): boolean {
+    const list = this.getOwnList(arg, key);
+    const index = list.indexOf(value);
+
+    if (index === -1) {
+      return false;
+    }
+    list.splice(index, 1);
+    this.writeOwnList(arg, key, list);
+
+    return true;
+  }
+  /**
+   * Delete the own list under given key on a class or an instance constructor
+   * and hide the inherited lists of the key (see `delete`).
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param key - Key in the metadata map.
+   * @returns `true` if the key was deleted, `false` otherwise.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public deleteKey<T extends object>(arg: MetadataTarget<T>, key: K): boolean {
+    return this.delete(arg, key);
+  }
+  /**
+   * Get a copy of the own list of a key.
+   */
+  private getOwnList(arg: object, key: K): V[] {
+    return [...(this.getOwn(arg)?.get(key) ?? [])];
+  }
+  /**
+   * Replace the own list of a key, an empty list is removed. Unlike `set`, it
+   * keeps the inherited lists hidden by `deleteKey` hidden.
+   */
+  private writeOwnList(arg: object, key: K, list: V[]): void {
+    this.assertNotSealed(arg);
+    this.validateValue(arg, list, key);
+
+    const previousValue = this.isObserved ? this.get(arg, key) : undefined;
+    const { entries } = this.getOwnLayer(arg);
+
+    if (list.length > 0) {
+      entries.set(key, list);
+    } else {
+      entries.delete(key);
+    }
+    if (this.isObserved) {
+      const value = this.get(arg, key);
+
+      this.emit(
+        arg,
+        value === undefined
+          ? { type: 'delete', key, value, previousValue }
+          : { type: 'set', key, value, previousValue },
+      );
+    }
+  }
+}
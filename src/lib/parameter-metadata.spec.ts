@@ -0,0 +1,423 @@
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
+import { ParameterMetadata } from './parameter-metadata';
+import { ReflectMetadataAdapter } from './reflect-metadata';
+
+describe('(Unit) ParameterMetadata', () => {
+  describe('#constructor() - initialization', () => {
+    it('should create an instance of ParameterMetadata', () => {
+      // Arrange
+      // Act
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      // Assert
+      expect(testMetadata).toBeInstanceOf(ParameterMetadata);
+      expect(typeof testMetadata.metadataKey).toBe('symbol');
+    });
+
+    it('should be usable in a parameter decorator', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      const Inject =
+        (token: string): ParameterDecorator =>
+        (target, propertyKey, parameterIndex) =>
+          testMetadata.set(target, propertyKey, parameterIndex, token);
+
+      class TestClass {
+        constructor(
+          @Inject('first') public first: string,
+          public second: string,
+          @Inject('third') public third: string,
+        ) {}
+
+        public testMethod(@Inject('method') value: string) {
+          return value;
+        }
+
+        public static testStatic(
+          first: string,
+          @Inject('static') second: string,
+        ) {
+          return [first, second];
+        }
+      }
+      // Act
+      const constructorParameters = testMetadata.getAll(TestClass, undefined);
+      const methodParameters = testMetadata.getAll(
+        TestClass.prototype,
+        'testMethod',
+      );
+      const staticParameters = testMetadata.getAll(TestClass, 'testStatic');
+      // Assert
+      expect(constructorParameters).toEqual(['first', undefined, 'third']);
+      expect(1 in constructorParameters).toBe(false);
+      expect(methodParameters).toEqual(['method']);
+      expect(staticParameters).toEqual([undefined, 'static']);
+    });
+  });
+
+  describe('#set() - value setting', () => {
+    it('should set a metadata on a constructor parameter', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass, undefined, 1, 'testValue');
+      // Assert
+      expect(testMetadata.get(TestClass, undefined, 1)).toBe('testValue');
+      expect(testMetadata.get(new TestClass(), undefined, 1)).toBeUndefined();
+      expect(testMetadata.get(TestClass, undefined, 0)).toBeUndefined();
+    });
+
+    it('should keep static and instance methods apart', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass, 'testMethod', 0, 'static');
+      testMetadata.set(TestClass.prototype, 'testMethod', 0, 'instance');
+      // Assert
+      expect(testMetadata.get(TestClass, 'testMethod', 0)).toBe('static');
+      expect(testMetadata.get(new TestClass(), 'testMethod', 0)).toBe(
+        'instance',
+      );
+    });
+  });
+
+  describe('#has() - value checking', () => {
+    it('should check a parameter metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass.prototype, 'testMethod', 1, 'testValue');
+      // Assert
+      expect(testMetadata.has(TestClass.prototype, 'testMethod', 1)).toBe(true);
+      expect(testMetadata.has(TestClass.prototype, 'testMethod', 0)).toBe(
+        false,
+      );
+      expect(testMetadata.has(TestClass.prototype, 'otherMethod', 0)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('#getAll() - parameter listing', () => {
+    it('should return an array as long as the declared parameters', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {
+        public testMethod(first: string, second: string, third: string) {
+          return [first, second, third];
+        }
+      }
+      // Act
+      testMetadata.set(TestClass.prototype, 'testMethod', 1, 'testValue');
+      const parameters = testMetadata.getAll(TestClass.prototype, 'testMethod');
+      // Assert
+      expect(parameters).toHaveLength(3);
+      expect(parameters[1]).toBe('testValue');
+    });
+
+    it('should return a copy of the metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, undefined, 0, 'testValue');
+      // Act
+      testMetadata.getAll(TestClass, undefined).push('otherValue');
+      // Assert
+      expect(testMetadata.getAll(TestClass, undefined)).toEqual(['testValue']);
+    });
+
+    it('should return an empty array if no parameter carries metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const parameters = testMetadata.getAll(TestClass.prototype, 'unknown');
+      // Assert
+      expect(parameters).toEqual([]);
+    });
+  });
+
+  describe('#delete() - value deleting', () => {
+    it('should delete an own parameter metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, undefined, 0, 'testValue');
+      // Act
+      const wasDeleted = testMetadata.delete(TestClass, undefined, 0);
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(testMetadata.has(TestClass, undefined, 0)).toBe(false);
+    });
+
+    it('should not delete an inherited parameter metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, undefined, 0, 'testValue');
+      // Act
+      const wasDeleted = testMetadata.delete(ChildClass, undefined, 0);
+      const wasMissingDeleted = testMetadata.delete(ChildClass, 'unknown', 0);
+      // Assert
+      expect(wasDeleted).toBe(false);
+      expect(wasMissingDeleted).toBe(false);
+      expect(testMetadata.has(ChildClass, undefined, 0)).toBe(true);
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should inherit parameter metadata of an inherited method', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {
+        public testMethod(value: string) {
+          return value;
+        }
+      }
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass.prototype, 'testMethod', 0, 'parent');
+      testMetadata.set(ParentClass, undefined, 0, 'constructor');
+      // Assert
+      expect(testMetadata.getAll(ChildClass.prototype, 'testMethod')).toEqual([
+        'parent',
+      ]);
+      expect(testMetadata.getAll(ChildClass, undefined)).toEqual([
+        'constructor',
+      ]);
+    });
+
+    it('should replace parameter metadata of an overridden method', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {
+        public testMethod(first: string, second?: string) {
+          return [first, second];
+        }
+      }
+      class ChildClass extends ParentClass {
+        public testMethod(first: string, second?: string) {
+          return [first, second];
+        }
+      }
+      // Act
+      testMetadata.set(ParentClass.prototype, 'testMethod', 0, 'parent');
+      testMetadata.set(ChildClass.prototype, 'testMethod', 1, 'child');
+      // Assert
+      expect(testMetadata.getAll(ChildClass.prototype, 'testMethod')).toEqual([
+        undefined,
+        'child',
+      ]);
+      expect(testMetadata.getAll(ParentClass.prototype, 'testMethod')).toEqual([
+        'parent',
+        undefined,
+      ]);
+    });
+
+    it('should hide parameter metadata of an undecorated override', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {
+        public static testStatic(value: string) {
+          return value;
+        }
+      }
+      class ChildClass extends ParentClass {
+        public static testStatic(value: string) {
+          return value;
+        }
+      }
+      // Act
+      testMetadata.set(ParentClass, 'testStatic', 0, 'parent');
+      // Assert
+      expect(testMetadata.has(ChildClass, 'testStatic', 0)).toBe(false);
+      expect(testMetadata.has(ParentClass, 'testStatic', 0)).toBe(true);
+    });
+
+    it('should replace constructor parameter metadata', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass, undefined, 0, 'parent');
+      testMetadata.set(ChildClass, undefined, 1, 'child');
+      // Assert
+      expect(testMetadata.getAll(ChildClass, undefined)).toEqual([
+        undefined,
+        'child',
+      ]);
+    });
+
+    it('should hide constructor parameter metadata of a marked constructor', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {
+        constructor(public value: string) {}
+      }
+      class ChildClass extends ParentClass {
+        constructor() {
+          super('child');
+        }
+      }
+      class GrandChildClass extends ChildClass {}
+      testMetadata.set(ParentClass, undefined, 0, 'parent');
+      // Act
+      testMetadata.overrideConstructor(ChildClass);
+      testMetadata.overrideConstructor(ChildClass);
+      // Assert
+      expect(testMetadata.getAll(ChildClass, undefined)).toEqual([]);
+      expect(testMetadata.getAll(GrandChildClass, undefined)).toEqual([]);
+      expect(testMetadata.getAll(ParentClass, undefined)).toEqual(['parent']);
+    });
+
+    it('should keep own constructor parameter metadata of a marked constructor', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, undefined, 0, 'own');
+      // Act
+      testMetadata.overrideConstructor(TestClass);
+      // Assert
+      expect(testMetadata.getAll(TestClass, undefined)).toEqual(['own']);
+    });
+
+    it('should hide constructor parameter metadata of a constructor with own parameter types', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      const reflect = new ReflectMetadataAdapter();
+      class ParentClass {
+        constructor(public value: string) {}
+      }
+      class ChildClass extends ParentClass {}
+      class GlobalChildClass extends ParentClass {}
+      const getOwnMetadata = jest.fn((key: unknown, target: object) =>
+        key === 'design:paramtypes' && target === GlobalChildClass
+          ? []
+          : undefined,
+      );
+      testMetadata.set(ParentClass, undefined, 0, 'parent');
+      // Act
+      reflect.defineMetadata('design:paramtypes', [], ChildClass);
+      Reflect.set(Reflect, 'getOwnMetadata', getOwnMetadata);
+      const parameters = testMetadata.getAll(ChildClass, undefined);
+      const globalParameters = testMetadata.getAll(GlobalChildClass, undefined);
+      Reflect.deleteProperty(Reflect, 'getOwnMetadata');
+      // Assert
+      expect(parameters).toEqual([]);
+      expect(globalParameters).toEqual([]);
+    });
+
+    it('should inherit constructor parameter metadata of an unmarked constructor', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class ParentClass {
+        constructor(public value: string) {}
+      }
+      class DelegateClass extends ParentClass {
+        constructor(...args: [string]) {
+          super(...args);
+        }
+      }
+      class FactoryClass extends ParentClass {
+        public clone(): ParentClass {
+          return new (this.constructor as typeof FactoryClass)(this.value);
+        }
+      }
+      class LiteralClass extends ParentClass {
+        public describe(): string {
+          return 'constructor(value)';
+        }
+      }
+      // Act
+      testMetadata.set(ParentClass, undefined, 0, 'tok');
+      // Assert
+      expect(testMetadata.getAll(DelegateClass, undefined)).toEqual(['tok']);
+      expect(testMetadata.getAll(FactoryClass, undefined)).toEqual(['tok']);
+      expect(testMetadata.getAll(LiteralClass, undefined)).toEqual(['tok']);
+    });
+  });
+
+  describe('validate option', () => {
+    it('should name the index of an invalid parameter value', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata', {
+        validate: (value) => value.length > 0,
+      });
+      class TestClass {}
+      // Act
+      const set = (): void => testMetadata.set(TestClass, undefined, 1, '');
+      // Assert
+      expect(set).toThrow(MetadataValidationError);
+      expect(set).toThrow(expect.objectContaining({ key: 1 }));
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed class', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, undefined, 0, 'testValue');
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(() => testMetadata.set(TestClass, undefined, 0, 'value')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.delete(TestClass, undefined, 0)).toThrow(
+        MetadataSealedError,
+      );
+      expect(testMetadata.get(TestClass, undefined, 0)).toBe('testValue');
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about set and delete', () => {
+      // Arrange
+      const testMetadata = new ParameterMetadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.subscribe(TestClass, listener);
+      // Act
+      testMetadata.set(TestClass, undefined, 1, 'first');
+      testMetadata.delete(TestClass, undefined, 1);
+      // Assert
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        {
+          type: 'set',
+          target: TestClass,
+          key: 1,
+          value: 'first',
+          previousValue: undefined,
+        },
+        {
+          type: 'delete',
+          target: TestClass,
+          key: 1,
+          value: undefined,
+          previousValue: 'first',
+        },
+      ]);
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should create a helper with a global key', () => {
+      // Arrange
+      // Act
+      const testMetadata = ParameterMetadata.global<string>(
+        'test.pkg:globalParameter',
+      );
+      // Assert
+      expect(testMetadata).toBeInstanceOf(ParameterMetadata);
+      expect(testMetadata.metadataKey).toBe(
+        Symbol.for('test.pkg:globalParameter'),
+      );
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { BaseMetadata, MetadataOptions } from './base-metadata';
+import { MetadataKind } from './metadata-registry';
+import { getMetadataChain } from './metadata-target';
+import { reflectMetadataKey } from './reflect-metadata';
+
+/**
+ * Symbol the constructor parameter types emitted by TypeScript are stored
+ * under by the `reflect-metadata` adapter.
+ */
+const PARAM_TYPES = reflectMetadataKey('design:paramtypes');
+
+/**
+ * Check if the `reflect-metadata` API installed on the global `Reflect`
+ * object (if any) holds own `design:paramtypes` of a constructor.
+ */
+function hasOwnParamTypes(ctor: object): boolean {
+  const getOwnMetadata: unknown = Reflect.get(Reflect, 'getOwnMetadata');
+
+  return (
+    typeof getOwnMetadata === 'function' &&
+    getOwnMetadata.call(Reflect, 'design:paramtypes', ctor) !== undefined
+  );
+}
+
+/**
+ * Parameter metadata stored on a single class, split by static and instance
+ * members. Constructor parameters are stored among static members under the
+ * `undefined` key.
+ *
+ * @template V - Metadata value type.
+ */
+export interface ParameterMetadataMembers<V> {
+  static: Map<PropertyKey | undefined, V[]>;
+  instance: Map<PropertyKey, V[]>;
+}
+/**
+ * Metadata helper storing a value per parameter of a constructor or a method.
+ * A parameter is addressed the same way a legacy parameter decorator receives
+ * it:
+ *
+ * - constructor parameters by the class constructor and `undefined`,
+ * - static method parameters by the class constructor and the method name,
+ * - instance method parameters by a prototype (or an instance) and the
+ *   method name.
+ *
+ * Parameter metadata is inherited from parent classes. A subclass overriding
+ * a method replaces the parameter metadata of the parent instead of merging
+ * with it, even if the override has no parameter metadata of its own.
+ *
+ * A subclass replaces the constructor parameter metadata of its parent if it
+ * has constructor parameter metadata of its own, if TypeScript emitted its
+ * own `design:paramtypes` or if it is marked by `overrideConstructor`.
+ * Otherwise the constructor parameter metadata is inherited.
+ *
+ * @template V - Metadata value type.
+ *
+ * @example
+ *
+ * ```ts
+ * const injectTokens = new ParameterMetadata<string>('di:inject');
+ *
+ * function Inject(token: string): ParameterDecorator {
+ *   return (target, propertyKey, index) =>
+ *     injectTokens.set(target, propertyKey, index, token);
+ * }
+ *
+ * class MyService {
+ *   constructor(@Inject('config') config: unknown) {}
+ * }
+ *
+ * console.log(injectTokens.getAll(MyService, undefined)); // ['config']
+ * ```
+ */
+export class ParameterMetadata<V> extends BaseMetadata<
+  ParameterMetadataMembers<V>,
+  V
+> {
+  public get kind(): MetadataKind {
+    return 'parameter';
+  }
+  /**
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
+   *
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
+   */
+  public static global<V>(
+    key: string,
+    options: Omit<
+      MetadataOptions<ParameterMetadataMembers<V>, V>,
+      'global'
+    > = {},
+  ): ParameterMetadata<V> {
+    return new ParameterMetadata<V>(key, { ...options, global: true });
+  }
+  /**
+   * Set the metadata value of a parameter.
+   *
+   * @param target - Class constructor for constructor and static method
+   *  parameters, a prototype or an instance for instance method parameters.
+   * @param propertyKey - Name of the method or `undefined` for constructor
+   *  parameters.
+   * @param parameterIndex - Index of the parameter.
+   * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option. The parameter index is reported as the key.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  public set(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+    parameterIndex: number,
+    value: V,
+  ): void {
+    this.assertNotSealed(target);
+    this.validateValue(target, value, parameterIndex);
+
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readValue([ownLevel]) ?? {
+      static: new Map(),
+      instance: new Map(),
+    };
+    const side = this.getSide(members, target);
+    const parameters = side.get(propertyKey) ?? [];
+    const previousValue = parameters[parameterIndex];
+
+    parameters[parameterIndex] = value;
+    side.set(propertyKey, parameters);
+    this.writeValue(target, members);
+    this.emit(target, {
+      type: 'set',
+      key: parameterIndex,
+      value,
+      previousValue,
+    });
+  }
+  /**
+   * Get the metadata value of a parameter.
+   *
+   * @param target - Class constructor for constructor and static method
+   *  parameters, a prototype or an instance for instance method parameters.
+   * @param propertyKey - Name of the method or `undefined` for constructor
+   *  parameters.
+   * @param parameterIndex - Index of the parameter.
+   * @returns Metadata value or `undefined` if the parameter has none.
+   */
+  public get(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+    parameterIndex: number,
+  ): V | undefined {
+    return this.findParameters(target, propertyKey)?.[parameterIndex];
+  }
+  /**
+   * Check if a parameter carries the metadata.
+   *
+   * @param target - Class constructor for constructor and static method
+   *  parameters, a prototype or an instance for instance method parameters.
+   * @param propertyKey - Name of the method or `undefined` for constructor
+   *  parameters.
+   * @param parameterIndex - Index of the parameter.
+   * @returns `true` if the parameter carries the metadata, `false` otherwise.
+   */
+  public has(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+    parameterIndex: number,
+  ): boolean {
+    const parameters = this.findParameters(target, propertyKey);
+
+    return parameters !== undefined && parameterIndex in parameters;
+  }
+  /**
+   * Get the metadata values of all parameters of a constructor or a method.
+   *
+   * The returned array is sparse: parameters without metadata are holes. The
+   * array is at least as long as the number of declared parameters (as
+   * reported by the function `length`).
+   *
+   * @param target - Class constructor for constructor and static method
+   *  parameters, a prototype or an instance for instance method parameters.
+   * @param propertyKey - Name of the method or `undefined` for constructor
+   *  parameters.
+   * @returns A copy of the metadata values indexed by the parameter index.
+   */
+  public getAll(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+  ): (V | undefined)[] {
+    const parameters = this.findParameters(target, propertyKey)?.slice() ?? [];
+    const parameterCount = this.countParameters(target, propertyKey);
+
+    if (parameterCount > parameters.length) {
+      parameters.length = parameterCount;
+    }
+    return parameters;
+  }
+  /**
+   * Delete the metadata value of a parameter defined by the class itself.
+   *
+   * @param target - Class constructor for constructor and static method
+   *  parameters, a prototype or an instance for instance method parameters.
+   * @param propertyKey - Name of the method or `undefined` for constructor
+   *  parameters.
+   * @param parameterIndex - Index of the parameter.
+   * @returns `true` if the metadata was deleted, `false` otherwise.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  public delete(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+    parameterIndex: number,
+  ): boolean {
+    this.assertNotSealed(target);
+
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readValue([ownLevel]);
+    const parameters = members
+      ? this.getSide(members, target).get(propertyKey)
+      : undefined;
+
+    if (parameters === undefined || !(parameterIndex in parameters)) {
+      return false;
+    }
+    const previousValue = parameters[parameterIndex];
+
+    delete parameters[parameterIndex];
+    this.emit(target, {
+      type: 'delete',
+      key: parameterIndex,
+      value: undefined,
+      previousValue,
+    });
+    return true;
+  }
+  /**
+   * Mark a class as declaring its own constructor, so it does not inherit the
+   * constructor parameter metadata of its parents. Use it for a constructor
+   * without parameter metadata and without emitted `design:paramtypes`.
+   *
+   * @param target - Class constructor.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  public overrideConstructor(target: Function): void {
+    this.assertNotSealed(target);
+
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readValue([ownLevel]) ?? {
+      static: new Map(),
+      instance: new Map(),
+    };
+
+    if (!members.static.has(undefined)) {
+      members.static.set(undefined, []);
+      this.writeValue(target, members);
+    }
+  }
+  /**
+   * Find the parameter metadata of the nearest class declaring the method.
+   * A class defining its own method without parameter metadata hides the
+   * metadata of its parents.
+   */
+  private findParameters(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+  ): V[] | undefined {
+    const isStatic = target instanceof Function;
+
+    for (const level of getMetadataChain(target)) {
+      const members = this.readValue([level]);
+      const parameters = members
+        ? this.getSide(members, target).get(propertyKey)
+        : undefined;
+
+      if (parameters) {
+        return parameters;
+      } else if (this.declaresMethod(level, isStatic, propertyKey)) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Check if the class of a chain level declares its own method (or its own
+   * constructor if the property key is `undefined`). A constructor counts as
+   * declared if TypeScript emitted its own `design:paramtypes`, constructors
+   * marked by `overrideConstructor` carry own (empty) parameter metadata.
+   */
+  private declaresMethod(
+    level: object[],
+    isStatic: boolean,
+    propertyKey: PropertyKey | undefined,
+  ): boolean {
+    const ctor = level.find((holder) => holder instanceof Function);
+
+    if (!ctor) {
+      return false;
+    } else if (propertyKey === undefined) {
+      return this.storage.has(ctor, PARAM_TYPES) || hasOwnParamTypes(ctor);
+    }
+    const owner = isStatic ? ctor : Reflect.get(ctor, 'prototype');
+
+    return Object.prototype.hasOwnProperty.call(owner, propertyKey);
+  }
+  /**
+   * Count the declared parameters of the constructor or the method.
+   */
+  private countParameters(
+    target: object,
+    propertyKey: PropertyKey | undefined,
+  ): number {
+    const fn =
+      propertyKey === undefined
+        ? target instanceof Function
+          ? target
+          : target.constructor
+        : Reflect.get(target, propertyKey);
+
+    return fn instanceof Function ? fn.length : 0;
+  }
+
+  private getSide(
+    members: ParameterMetadataMembers<V>,
+    target: object,
+  ): Map<PropertyKey | undefined, V[]> {
+    return target instanceof Function ? members.static : members.instance;
+  }
+}
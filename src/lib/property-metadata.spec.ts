@@ -0,0 +1,424 @@
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
+import {
+  ClassMemberDecoratorContext,
+  PropertyMetadata,
+} from './property-metadata';
+
+function createMemberContext(
+  metadata: object,
+  kind: 'field' | 'method',
+  name: string,
+  isStatic = false,
+): ClassMemberDecoratorContext {
+  return {
+    kind,
+    name,
+    static: isStatic,
+    private: false,
+    metadata,
+    addInitializer: () => undefined,
+  } as unknown as ClassMemberDecoratorContext;
+}
+
+describe('(Unit) PropertyMetadata', () => {
+  describe('#constructor() - initialization', () => {
+    it('should create an instance of PropertyMetadata', () => {
+      // Arrange
+      // Act
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      // Assert
+      expect(testMetadata).toBeInstanceOf(PropertyMetadata);
+      expect(typeof testMetadata.metadataKey).toBe('symbol');
+    });
+
+    it('should be usable in a property decorator', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      const Column =
+        (name: string): PropertyDecorator =>
+        (target, propertyKey) =>
+          testMetadata.set(target, propertyKey, name);
+
+      class TestClass {
+        @Column('test_name')
+        public testName?: string;
+      }
+      // Act
+      const value = testMetadata.get(TestClass.prototype, 'testName');
+      // Assert
+      expect(value).toBe('test_name');
+    });
+  });
+
+  describe('#set() - value setting', () => {
+    it('should set a metadata on an instance member', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass.prototype, 'testProperty', 'testValue');
+      // Assert
+      expect(testMetadata.get(new TestClass(), 'testProperty')).toBe(
+        'testValue',
+      );
+      expect(testMetadata.get(TestClass, 'testProperty')).toBeUndefined();
+    });
+
+    it('should set a metadata on a static member', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass, 'testProperty', 'testValue');
+      // Assert
+      expect(testMetadata.get(TestClass, 'testProperty')).toBe('testValue');
+      expect(
+        testMetadata.get(TestClass.prototype, 'testProperty'),
+      ).toBeUndefined();
+    });
+
+    it('should set a metadata on a symbol member', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      const propertyKey = Symbol('testProperty');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass.prototype, propertyKey, 'testValue');
+      // Assert
+      expect(testMetadata.get(TestClass.prototype, propertyKey)).toBe(
+        'testValue',
+      );
+    });
+
+    it('should set a metadata through a standard decorator context', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      const metadata = Object.create(null);
+      // Act
+      testMetadata.set(
+        createMemberContext(metadata, 'method', 'testMethod'),
+        'testValue',
+      );
+      testMetadata.set(
+        createMemberContext(metadata, 'field', 'testField', true),
+        'staticValue',
+      );
+      // Assert
+      expect(testMetadata.getMember(metadata, 'testMethod')).toEqual({
+        propertyKey: 'testMethod',
+        kind: 'method',
+        static: false,
+        value: 'testValue',
+      });
+      expect(testMetadata.getOwnMembers(metadata)).toHaveLength(2);
+    });
+
+    it('should throw when set through a class decorator context', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      const context = {
+        kind: 'class',
+        name: 'TestClass',
+        metadata: Object.create(null),
+        addInitializer: () => undefined,
+      } as unknown as ClassMemberDecoratorContext;
+      // Act
+      const act = () => testMetadata.set(context, 'testValue');
+      // Assert
+      expect(act).toThrow(TypeError);
+    });
+  });
+
+  describe('#getKind() - member kind detection', () => {
+    it('should distinguish fields, methods and accessors', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {
+        public testField = 'field';
+        public testMethod() {}
+        public get testGetter() {
+          return '';
+        }
+        public set testSetter(_: string) {}
+        public get testAccessor() {
+          return '';
+        }
+        public set testAccessor(_: string) {}
+        public static testStatic() {}
+      }
+      // Act
+      (
+        [
+          'testField',
+          'testMethod',
+          'testGetter',
+          'testSetter',
+          'testAccessor',
+        ] as const
+      ).forEach((key) => testMetadata.set(TestClass.prototype, key, key));
+      testMetadata.set(TestClass, 'testStatic', 'testStatic');
+      // Assert
+      expect(testMetadata.getKind(TestClass.prototype, 'testField')).toBe(
+        'field',
+      );
+      expect(testMetadata.getKind(TestClass.prototype, 'testMethod')).toBe(
+        'method',
+      );
+      expect(testMetadata.getKind(TestClass.prototype, 'testGetter')).toBe(
+        'getter',
+      );
+      expect(testMetadata.getKind(TestClass.prototype, 'testSetter')).toBe(
+        'setter',
+      );
+      expect(testMetadata.getKind(TestClass.prototype, 'testAccessor')).toBe(
+        'accessor',
+      );
+      expect(testMetadata.getKind(TestClass, 'testStatic')).toBe('method');
+    });
+
+    it('should detect an inherited method set through an instance', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {
+        public testMethod() {}
+      }
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(new ChildClass(), 'testMethod', 'testValue');
+      // Assert
+      expect(testMetadata.getKind(ChildClass, 'testMethod')).toBeUndefined();
+      expect(testMetadata.getKind(new ChildClass(), 'testMethod')).toBe(
+        'method',
+      );
+    });
+  });
+
+  describe('#has() - value checking', () => {
+    it('should check a member metadata', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      testMetadata.set(TestClass.prototype, 'testProperty', 'testValue');
+      // Assert
+      expect(testMetadata.has(TestClass.prototype, 'testProperty')).toBe(true);
+      expect(testMetadata.has(TestClass.prototype, 'otherProperty')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('#delete() - value deleting', () => {
+    it('should delete an own member metadata', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass.prototype, 'testProperty', 'testValue');
+      // Act
+      const wasDeleted = testMetadata.delete(
+        TestClass.prototype,
+        'testProperty',
+      );
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(testMetadata.has(TestClass.prototype, 'testProperty')).toBe(false);
+    });
+
+    it('should not delete an inherited member metadata', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass.prototype, 'testProperty', 'testValue');
+      // Act
+      const wasDeleted = testMetadata.delete(
+        ChildClass.prototype,
+        'testProperty',
+      );
+      // Assert
+      expect(wasDeleted).toBe(false);
+      expect(testMetadata.has(ChildClass.prototype, 'testProperty')).toBe(true);
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should inherit a member metadata from a parent class', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ChildClass.prototype, 'childProperty', 'child');
+      testMetadata.set(ParentClass.prototype, 'parentProperty', 'parent');
+      // Assert
+      expect(testMetadata.get(ChildClass.prototype, 'parentProperty')).toBe(
+        'parent',
+      );
+      expect(
+        testMetadata.get(ParentClass.prototype, 'childProperty'),
+      ).toBeUndefined();
+    });
+
+    it('should override a member metadata in a child class', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.set(ParentClass.prototype, 'testProperty', 'parent');
+      testMetadata.set(ChildClass.prototype, 'testProperty', 'child');
+      // Assert
+      expect(testMetadata.get(ParentClass.prototype, 'testProperty')).toBe(
+        'parent',
+      );
+      expect(testMetadata.get(ChildClass.prototype, 'testProperty')).toBe(
+        'child',
+      );
+    });
+  });
+
+  describe('#getOwnMembers() - member listing', () => {
+    it('should list own instance and static members', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass.prototype, 'parentProperty', 'parent');
+      testMetadata.set(ChildClass, 'staticProperty', 'static');
+      testMetadata.set(ChildClass.prototype, 'childProperty', 'child');
+      // Act
+      const members = testMetadata.getOwnMembers(ChildClass);
+      // Assert
+      expect(members.map((member) => member.propertyKey)).toEqual([
+        'childProperty',
+        'staticProperty',
+      ]);
+    });
+
+    it('should return an empty list if no member carries the metadata', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const members = testMetadata.getOwnMembers(new TestClass());
+      // Assert
+      expect(members).toEqual([]);
+    });
+  });
+
+  describe('#getAllMembers() - member listing', () => {
+    it('should list inherited members respecting overrides', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass.prototype, 'propertyOne', 'parentOne');
+      testMetadata.set(ParentClass.prototype, 'propertyTwo', 'parentTwo');
+      testMetadata.set(ParentClass, 'staticProperty', 'parentStatic');
+      testMetadata.set(ChildClass.prototype, 'propertyThree', 'childThree');
+      testMetadata.set(ChildClass.prototype, 'propertyOne', 'childOne');
+      // Act
+      const members = testMetadata.getAllMembers(ChildClass.prototype);
+      // Assert
+      expect(
+        members.map((member) => [member.propertyKey, member.value]),
+      ).toEqual([
+        ['propertyOne', 'childOne'],
+        ['propertyTwo', 'parentTwo'],
+        ['propertyThree', 'childThree'],
+        ['staticProperty', 'parentStatic'],
+      ]);
+    });
+  });
+
+  describe('validate option', () => {
+    it('should name the property of an invalid value', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata', {
+        validate: (value) => /^[a-z_]+$/.test(value),
+      });
+      class TestClass {}
+      // Act
+      const set = (): void =>
+        testMetadata.set(TestClass.prototype, 'name', 'User Name');
+      // Assert
+      expect(set).toThrow(MetadataValidationError);
+      expect(set).toThrow(/on "TestClass" under key "name"/);
+      expect(testMetadata.has(TestClass.prototype, 'name')).toBe(false);
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed class', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass.prototype, 'name', 'testValue');
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(() =>
+        testMetadata.set(TestClass.prototype, 'name', 'value'),
+      ).toThrow(MetadataSealedError);
+      expect(() => testMetadata.delete(TestClass.prototype, 'name')).toThrow(
+        MetadataSealedError,
+      );
+      expect(testMetadata.get(TestClass.prototype, 'name')).toBe('testValue');
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about set and delete', () => {
+      // Arrange
+      const testMetadata = new PropertyMetadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.set(TestClass.prototype, 'name', 'first');
+      testMetadata.set(TestClass.prototype, 'name', 'second');
+      testMetadata.delete(TestClass.prototype, 'name');
+      testMetadata.delete(TestClass.prototype, 'name');
+      // Assert
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        {
+          type: 'set',
+          target: TestClass,
+          key: 'name',
+          value: 'first',
+          previousValue: undefined,
+        },
+        {
+          type: 'set',
+          target: TestClass,
+          key: 'name',
+          value: 'second',
+          previousValue: 'first',
+        },
+        {
+          type: 'delete',
+          target: TestClass,
+          key: 'name',
+          value: undefined,
+          previousValue: 'second',
+        },
+      ]);
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should create a helper with a global key', () => {
+      // Arrange
+      // Act
+      const testMetadata = PropertyMetadata.global<string>(
+        'test.pkg:globalProperty',
+      );
+      // Assert
+      expect(testMetadata).toBeInstanceOf(PropertyMetadata);
+      expect(testMetadata.metadataKey).toBe(
+        Symbol.for('test.pkg:globalProperty'),
+      );
+    });
+  });
+});
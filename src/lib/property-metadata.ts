@@ -0,0 +1,360 @@
+import { BaseMetadata, MetadataOptions } from './base-metadata';
+import { MetadataKind } from './metadata-registry';
+import { getMetadataChain, isDecoratorContext } from './metadata-target';
+
+/**
+ * Kind of a class member carrying property metadata.
+ */
+export type MemberKind = 'field' | 'method' | 'getter' | 'setter' | 'accessor';
+/**
+ * Metadata of a single class member.
+ *
+ * @template V - Metadata value type.
+ */
+export interface MemberMetadata<V> {
+  /**
+   * Name of the member.
+   */
+  propertyKey: PropertyKey;
+  /**
+   * Kind of the member.
+   */
+  kind: MemberKind;
+  /**
+   * `true` for static members, `false` for instance members.
+   */
+  static: boolean;
+  /**
+   * Metadata value.
+   */
+  value: V;
+}
+/**
+ * Property metadata stored on a single class, split by static and instance
+ * members.
+ *
+ * @template V - Metadata value type.
+ */
+export interface PropertyMetadataMembers<V> {
+  static: Map<PropertyKey, MemberMetadata<V>>;
+  instance: Map<PropertyKey, MemberMetadata<V>>;
+}
+/**
+ * Standard decorator context of a class member.
+ */
+export type ClassMemberDecoratorContext = Exclude<
+  DecoratorContext,
+  ClassDecoratorContext
+>;
+/**
+ * Metadata helper storing a value per class member (field, method or
+ * accessor). A member is addressed by a target and a property key:
+ *
+ * - a class constructor addresses static members,
+ * - a prototype or an instance addresses instance members,
+ * - a standard decorator context addresses the decorated member.
+ *
+ * The inheritance is resolved per member: a class sees the metadata of all
+ * members declared by its parents, unless it defines its own metadata for the
+ * same member.
+ *
+ * @template V - Metadata value type.
+ *
+ * @example
+ *
+ * ```ts
+ * const columns = new PropertyMetadata<string>('orm:column');
+ *
+ * function Column(name: string): PropertyDecorator {
+ *   return (target, propertyKey) => columns.set(target, propertyKey, name);
+ * }
+ *
+ * class User {
+ *   @Column('user_name')
+ *   public name: string;
+ * }
+ *
+ * console.log(columns.get(User.prototype, 'name')); // 'user_name'
+ * console.log(columns.getAllMembers(User)); // [{ propertyKey: 'name', ... }]
+ * ```
+ */
+export class PropertyMetadata<V> extends BaseMetadata<
+  PropertyMetadataMembers<V>,
+  V
+> {
+  public get kind(): MetadataKind {
+    return 'property';
+  }
+  /**
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
+   *
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
+   */
+  public static global<V>(
+    key: string,
+    options: Omit<
+      MetadataOptions<PropertyMetadataMembers<V>, V>,
+      'global'
+    > = {},
+  ): PropertyMetadata<V> {
+    return new PropertyMetadata<V>(key, { ...options, global: true });
+  }
+  /**
+   * Set the metadata value of a member decorated with a standard decorator.
+   *
+   * @param context - Standard decorator context of the member.
+   * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  public set(context: ClassMemberDecoratorContext, value: V): void;
+  /**
+   * Set the metadata value of a class member.
+   *
+   * The kind of the member is detected from its property descriptor. Members
+   * without a descriptor (class fields) are treated as fields.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  public set(target: object, propertyKey: PropertyKey, value: V): void;
+  public set(
+    target: object,
+    propertyKeyOrValue: PropertyKey | V,
+    value?: V,
+  ): void {
+    this.assertNotSealed(target);
+
+    let member: MemberMetadata<V>;
+
+    if (isDecoratorContext(target)) {
+      member = this.createContextMember(target, propertyKeyOrValue as V);
+    } else {
+      const propertyKey = propertyKeyOrValue as PropertyKey;
+      member = {
+        propertyKey,
+        kind: this.detectKind(target, propertyKey),
+        static: target instanceof Function,
+        value: value as V,
+      };
+    }
+    this.validateValue(target, member.value, member.propertyKey);
+
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readValue([ownLevel]) ?? {
+      static: new Map(),
+      instance: new Map(),
+    };
+
+    const side = this.getSide(members, member.static);
+    const previousValue = side.get(member.propertyKey)?.value;
+
+    side.set(member.propertyKey, member);
+    this.writeValue(target, members);
+    this.emit(target, {
+      type: 'set',
+      key: member.propertyKey,
+      value: member.value,
+      previousValue,
+    });
+  }
+  /**
+   * Get the metadata of a class member, including its kind.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @returns Member metadata or `undefined` if the member has none.
+   */
+  public getMember(
+    target: object,
+    propertyKey: PropertyKey,
+  ): MemberMetadata<V> | undefined {
+    const isStatic = target instanceof Function;
+
+    for (const level of getMetadataChain(target)) {
+      const member = this.readLevel(level, isStatic)?.get(propertyKey);
+
+      if (member) {
+        return member;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Get the metadata value of a class member.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @returns Metadata value or `undefined` if the member has none.
+   */
+  public get(target: object, propertyKey: PropertyKey): V | undefined {
+    return this.getMember(target, propertyKey)?.value;
+  }
+  /**
+   * Check if a class member carries the metadata.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @returns `true` if the member carries the metadata, `false` otherwise.
+   */
+  public has(target: object, propertyKey: PropertyKey): boolean {
+    return this.getMember(target, propertyKey) !== undefined;
+  }
+  /**
+   * Get the kind of a class member carrying the metadata.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @returns Kind of the member or `undefined` if the member has no metadata.
+   */
+  public getKind(
+    target: object,
+    propertyKey: PropertyKey,
+  ): MemberKind | undefined {
+    return this.getMember(target, propertyKey)?.kind;
+  }
+  /**
+   * Delete the metadata of a class member. Only the metadata defined by the
+   * class itself is deleted, the metadata inherited from a parent class stays
+   * visible.
+   *
+   * @param target - Class constructor for static members, a prototype or an
+   *  instance for instance members.
+   * @param propertyKey - Name of the member.
+   * @returns `true` if the metadata was deleted, `false` otherwise.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   */
+  public delete(target: object, propertyKey: PropertyKey): boolean {
+    this.assertNotSealed(target);
+
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readLevel(ownLevel, target instanceof Function);
+    const previousValue = members?.get(propertyKey)?.value;
+
+    if (!members?.delete(propertyKey)) {
+      return false;
+    }
+    this.emit(target, {
+      type: 'delete',
+      key: propertyKey,
+      value: undefined,
+      previousValue,
+    });
+    return true;
+  }
+  /**
+   * List the members carrying the metadata declared by the class itself.
+   *
+   * @param target - Class constructor or an instance of a class.
+   * @returns Instance members followed by static members.
+   */
+  public getOwnMembers(target: object): MemberMetadata<V>[] {
+    const [ownLevel] = getMetadataChain(target);
+    const members = this.readValue([ownLevel]);
+
+    return members
+      ? [...members.instance.values(), ...members.static.values()]
+      : [];
+  }
+  /**
+   * List all members carrying the metadata, including the ones inherited
+   * from parent classes. A member overridden by a subclass is listed once,
+   * with the metadata of the subclass, at the position of the parent member.
+   *
+   * @param target - Class constructor or an instance of a class.
+   * @returns Instance members followed by static members.
+   */
+  public getAllMembers(target: object): MemberMetadata<V>[] {
+    const instanceMembers = new Map<PropertyKey, MemberMetadata<V>>();
+    const staticMembers = new Map<PropertyKey, MemberMetadata<V>>();
+    const levels = getMetadataChain(target).reverse();
+
+    levels.forEach((level) => {
+      const members = this.readValue([level]);
+
+      members?.instance.forEach((member, key) =>
+        instanceMembers.set(key, member),
+      );
+      members?.static.forEach((member, key) => staticMembers.set(key, member));
+    });
+
+    return [...instanceMembers.values(), ...staticMembers.values()];
+  }
+  /**
+   * Read the members of one side (static or instance) stored on one level.
+   */
+  private readLevel(
+    level: object[],
+    isStatic: boolean,
+  ): Map<PropertyKey, MemberMetadata<V>> | undefined {
+    const members = this.readValue([level]);
+
+    return members ? this.getSide(members, isStatic) : undefined;
+  }
+
+  private getSide(
+    members: PropertyMetadataMembers<V>,
+    isStatic: boolean,
+  ): Map<PropertyKey, MemberMetadata<V>> {
+    return isStatic ? members.static : members.instance;
+  }
+  /**
+   * Detect the kind of a member from its property descriptor, looked up on
+   * the prototype chain of the member owner.
+   */
+  private detectKind(target: object, propertyKey: PropertyKey): MemberKind {
+    let owner: object | null =
+      target instanceof Function ? target : target.constructor?.prototype;
+    let descriptor: PropertyDescriptor | undefined;
+
+    while (owner && !descriptor) {
+      descriptor = Object.getOwnPropertyDescriptor(owner, propertyKey);
+      owner = Object.getPrototypeOf(owner);
+    }
+
+    if (descriptor?.get && descriptor.set) {
+      return 'accessor';
+    } else if (descriptor?.get) {
+      return 'getter';
+    } else if (descriptor?.set) {
+      return 'setter';
+    }
+    return typeof descriptor?.value === 'function' ? 'method' : 'field';
+  }
+  /**
+   * Create member metadata from a standard decorator context.
+   *
+   * @throws {TypeError} If the context does not belong to a class member.
+   */
+  private createContextMember(
+    context: DecoratorContext,
+    value: V,
+  ): MemberMetadata<V> {
+    if (context.kind === 'class') {
+      throw new TypeError(
+        `Property metadata "${this.metadataKey.description}" can not be ` +
+          `set on a class "${String(context.name)}".`,
+      );
+    }
+    return {
+      propertyKey: context.name,
+      kind: context.kind,
+      static: context.static,
+      value,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { ReadonlyMapView } from './readonly-map-view';
+
+describe('(Unit) ReadonlyMapView', () => {
+  describe('#get() - reading', () => {
+    it('should read the entries of the wrapped map', () => {
+      // Arrange
+      const source = new Map([['testKey', 'testValue']]);
+      const view = new ReadonlyMapView(source);
+      const visited: unknown[] = [];
+      // Act
+      source.set('newKey', 'newValue');
+      view.forEach(function (this: unknown, value, key, map) {
+        visited.push([key, value, map, this]);
+      }, 'thisArg');
+      // Assert
+      expect(view).toBeInstanceOf(Map);
+      expect(view.size).toBe(2);
+      expect(view.get('testKey')).toBe('testValue');
+      expect(view.has('newKey')).toBe(true);
+      expect([...view]).toEqual([...source]);
+      expect([...view.entries()]).toEqual([...source.entries()]);
+      expect([...view.keys()]).toEqual(['testKey', 'newKey']);
+      expect([...view.values()]).toEqual(['testValue', 'newValue']);
+      expect(visited[0]).toEqual(['testKey', 'testValue', view, 'thisArg']);
+    });
+  });
+
+  describe('#set() - modification', () => {
+    it('should throw on any modification', () => {
+      // Arrange
+      const source = new Map([['testKey', 'testValue']]);
+      const view = new ReadonlyMapView(source);
+      // Act
+      const modifications = [
+        () => view.set(),
+        () => view.delete(),
+        () => view.clear(),
+      ];
+      // Assert
+      modifications.forEach((modify) => expect(modify).toThrow(TypeError));
+      expect(source.size).toBe(1);
+    });
+  });
+});
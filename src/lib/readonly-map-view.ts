@@ -0,0 +1,67 @@
+/**
+ * Read-only view of a map. It is a `Map` instance, so it can be used wherever
+ * a map is expected, but its entries are read from the wrapped map and any
+ * modification throws a `TypeError`.
+ *
+ * @template K - Type of the map keys.
+ * @template V - Type of the map values.
+ */
+export class ReadonlyMapView<K, V> extends Map<K, V> {
+  /**
+   * Creates a read-only view of a map.
+   *
+   * @param source - Map to read the entries from.
+   */
+  constructor(private readonly source: ReadonlyMap<K, V>) {
+    super();
+  }
+
+  public get size(): number {
+    return this.source.size;
+  }
+
+  public get(key: K): V | undefined {
+    return this.source.get(key);
+  }
+
+  public has(key: K): boolean {
+    return this.source.has(key);
+  }
+
+  public forEach(
+    callbackfn: (value: V, key: K, map: Map<K, V>) => void,
+    thisArg?: unknown,
+  ): void {
+    this.source.forEach((value, key) =>
+      callbackfn.call(thisArg, value, key, this),
+    );
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this.source.entries();
+  }
+
+  public keys(): IterableIterator<K> {
+    return this.source.keys();
+  }
+
+  public values(): IterableIterator<V> {
+    return this.source.values();
+  }
+
+  public [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.source.entries();
+  }
+
+  public set(): this {
+    throw new TypeError('The map is read-only.');
+  }
+
+  public delete(): boolean {
+    throw new TypeError('The map is read-only.');
+  }
+
+  public clear(): void {
+    throw new TypeError('The map is read-only.');
+  }
+}
@@ -0,0 +1,43 @@
+import { ReadonlySetView } from './readonly-set-view';
+
+describe('(Unit) ReadonlySetView', () => {
+  describe('#has() - reading', () => {
+    it('should read the values of the wrapped set', () => {
+      // Arrange
+      const source = new Set(['testValue']);
+      const view = new ReadonlySetView(source);
+      const visited: unknown[] = [];
+      // Act
+      source.add('newValue');
+      view.forEach(function (this: unknown, value, value2, set) {
+        visited.push([value, value2, set, this]);
+      }, 'thisArg');
+      // Assert
+      expect(view).toBeInstanceOf(Set);
+      expect(view.size).toBe(2);
+      expect(view.has('newValue')).toBe(true);
+      expect([...view]).toEqual(['testValue', 'newValue']);
+      expect([...view.entries()]).toEqual([...source.entries()]);
+      expect([...view.keys()]).toEqual(['testValue', 'newValue']);
+      expect([...view.values()]).toEqual(['testValue', 'newValue']);
+      expect(visited[0]).toEqual(['testValue', 'testValue', view, 'thisArg']);
+    });
+  });
+
+  describe('#add() - modification', () => {
+    it('should throw on any modification', () => {
+      // Arrange
+      const source = new Set(['testValue']);
+      const view = new ReadonlySetView(source);
+      // Act
+      const modifications = [
+        () => view.add(),
+        () => view.delete(),
+        () => view.clear(),
+      ];
+      // Assert
+      modifications.forEach((modify) => expect(modify).toThrow(TypeError));
+      expect(source.size).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Read-only view of a set. It is a `Set` instance, so it can be used wherever
+ * a set is expected, but its values are read from the wrapped set and any
+ * modification throws a `TypeError`.
+ *
+ * @template V - Type of the set values.
+ */
+export class ReadonlySetView<V> extends Set<V> {
+  /**
+   * Creates a read-only view of a set.
+   *
+   * @param source - Set to read the values from.
+   */
+  constructor(private readonly source: ReadonlySet<V>) {
+    super();
+  }
+
+  public get size(): number {
+    return this.source.size;
+  }
+
+  public has(value: V): boolean {
+    return this.source.has(value);
+  }
+
+  public forEach(
+    callbackfn: (value: V, value2: V, set: Set<V>) => void,
+    thisArg?: unknown,
+  ): void {
+    this.source.forEach((value) =>
+      callbackfn.call(thisArg, value, value, this),
+    );
+  }
+
+  public entries(): IterableIterator<[V, V]> {
+    return this.source.entries();
+  }
+
+  public keys(): IterableIterator<V> {
+    return this.source.keys();
+  }
+
+  public values(): IterableIterator<V> {
+    return this.source.values();
+  }
+
+  public [Symbol.iterator](): IterableIterator<V> {
+    return this.source.values();
+  }
+
+  public add(): this {
+    throw new TypeError('The set is read-only.');
+  }
+
+  public delete(): boolean {
+    throw new TypeError('The set is read-only.');
+  }
+
+  public clear(): void {
+    throw new TypeError('The set is read-only.');
+  }
+}
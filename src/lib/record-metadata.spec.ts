@@ -0,0 +1,156 @@
+import { RecordMetadata } from './record-metadata';
+
+interface TestRoute {
+  path: string;
+  methods: Set<string>;
+  timeout: number;
+}
+
+describe('(Unit) RecordMetadata', () => {
+  describe('#constructor() - initialization', () => {
+    it('should create a map metadata keyed by the fields', () => {
+      // Arrange
+      // Act
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        global: true,
+      });
+      // Assert
+      expect(testMetadata.kind).toBe('map');
+      expect(testMetadata.resolution).toBe('live');
+      expect(testMetadata.metadataKey).toBe(Symbol.for('test:testMetadata'));
+    });
+  });
+
+  describe('#get() - field getting', () => {
+    it('should return the value of a field', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata');
+      class TestClass {}
+      testMetadata.set(TestClass, 'timeout', 1000);
+      // Act
+      const timeout: number | undefined = testMetadata.get(
+        TestClass,
+        'timeout',
+      );
+      // Assert
+      expect(timeout).toBe(1000);
+    });
+
+    it('should return the default value of a field which is not set', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        fields: { timeout: { default: 30_000 } },
+      });
+      class TestClass {}
+      // Act
+      const timeout = testMetadata.get(TestClass, 'timeout');
+      const path = testMetadata.get(TestClass, 'path');
+      // Assert
+      expect(timeout).toBe(30_000);
+      expect(path).toBeUndefined();
+      expect(testMetadata.has(TestClass, 'timeout')).toBe(false);
+    });
+  });
+
+  describe('#getAll() - record getting', () => {
+    it('should return the fields with the default values', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        fields: {
+          path: { default: '/' },
+          methods: { inherit: 'parent-first' },
+          timeout: { default: 30_000 },
+        },
+      });
+      class TestClass {}
+      testMetadata.set(TestClass, 'path', '/test');
+      // Act
+      const record = testMetadata.getAll(TestClass);
+      // Assert
+      expect(record).toEqual({ path: '/test', timeout: 30_000 });
+    });
+  });
+
+  describe('fields inheritance', () => {
+    it('should copy the inherited fields by default', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      const methods = new Set(['GET']);
+      testMetadata.set(ParentClass, 'methods', methods);
+      testMetadata.set(ParentClass, 'path', '/parent');
+      // Act
+      testMetadata.set(ChildClass, 'path', '/child');
+      // Assert
+      expect(testMetadata.getAll(ChildClass)).toEqual({
+        methods: new Set(['GET']),
+        path: '/child',
+      });
+      expect(testMetadata.get(ChildClass, 'methods')).not.toBe(methods);
+      expect(testMetadata.get(ParentClass, 'path')).toBe('/parent');
+    });
+
+    it('should apply the field strategies to the inherited fields', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        fields: { path: { inherit: 'none' } },
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'path', '/parent');
+      testMetadata.set(ParentClass, 'timeout', 1000);
+      // Act
+      const record = testMetadata.getAll(ChildClass);
+      // Assert
+      expect(record).toEqual({ timeout: 1000 });
+    });
+
+    it('should apply the field strategies once the class sets own fields', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        fields: { methods: { inherit: 'parent-first' } },
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'methods', new Set(['GET']));
+      testMetadata.getAll(ChildClass);
+      // Act
+      testMetadata.set(ChildClass, 'methods', new Set(['POST']));
+      // Assert
+      expect(testMetadata.get(ChildClass, 'methods')).toEqual(
+        new Set(['GET', 'POST']),
+      );
+      expect(testMetadata.get(ParentClass, 'methods')).toEqual(
+        new Set(['GET']),
+      );
+    });
+
+    it('should resolve the fields set later on a parent class', () => {
+      // Arrange
+      const testMetadata = new RecordMetadata<TestRoute>('test:testMetadata', {
+        fields: {
+          methods: { inherit: 'parent-first' },
+          timeout: {
+            inherit: (parent, own) =>
+              Math.min(parent ?? Infinity, own ?? Infinity),
+          },
+        },
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.set(ParentClass, 'methods', new Set(['GET']));
+      testMetadata.set(ParentClass, 'timeout', 1000);
+      testMetadata.set(ChildClass, 'methods', new Set(['POST']));
+      testMetadata.set(ChildClass, 'timeout', 5000);
+      // Act
+      testMetadata.set(ParentClass, 'path', '/parent');
+      // Assert
+      expect(testMetadata.getAll(ChildClass)).toEqual({
+        methods: new Set(['GET', 'POST']),
+        timeout: 1000,
+        path: '/parent',
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { CollectionMetadataOptions } from './collection-metadata';
+import { MapMetadata } from './map-metadata';
+import { inheritValue, MetadataInheritance } from './metadata-inheritance';
+import { MetadataTarget } from './metadata-target';
+
+/**
+ * Options of a single field of a `RecordMetadata`.
+ *
+ * @template T - Type of the field.
+ */
+export interface RecordFieldOptions<T> {
+  /**
+   * Value read for the field when no class of the chain defines it. It is
+   * returned as it is, so it should not be modified.
+   */
+  default?: T;
+  /**
+   * Strategy of combining the field inherited from parent classes with the
+   * own field of a class. Defaults to `'shallow-copy'`.
+   */
+  inherit?: MetadataInheritance<T>;
+}
+/**
+ * Options of the fields of a `RecordMetadata`.
+ *
+ * @template Shape - Type of the record.
+ */
+export type RecordFieldsOptions<Shape extends object> = {
+  [F in keyof Shape]?: RecordFieldOptions<Shape[F]>;
+};
+/**
+ * Options of `RecordMetadata`. The inheritance is configured per field and
+ * the record is always resolved in the live mode.
+ *
+ * @template Shape - Type of the record.
+ */
+export interface RecordMetadataOptions<Shape extends object>
+  extends Omit<
+    CollectionMetadataOptions<
+      Map<keyof Shape, Shape[keyof Shape]>,
+      Shape[keyof Shape]
+    >,
+    'inherit' | 'resolution'
+  > {
+  /**
+   * Defaults and inheritance strategies of the fields.
+   */
+  fields?: RecordFieldsOptions<Shape>;
+}
+
+/**
+ * Combine the fields inherited from a parent class with the own fields of
+ * a class, each field with its own inheritance strategy.
+ */
+function mergeFields<Shape extends object>(
+  fields: RecordFieldsOptions<Shape>,
+  parentFields: Map<keyof Shape, Shape[keyof Shape]> | undefined,
+  ownFields: Map<keyof Shape, Shape[keyof Shape]> | undefined,
+  ctor: object,
+): Map<keyof Shape, Shape[keyof Shape]> {
+  const merged = new Map<keyof Shape, Shape[keyof Shape]>();
+  const keys = new Set([
+    ...(parentFields?.keys() ?? []),
+    ...(ownFields?.keys() ?? []),
+  ]);
+
+  keys.forEach((key) => {
+    const value = inheritValue(
+      fields[key]?.inherit ?? 'shallow-copy',
+      parentFields?.get(key),
+      ownFields?.get(key),
+      ctor,
+    );
+
+    if (value !== undefined) {
+      merged.set(key, value);
+    }
+  });
+  return merged;
+}
+
+/**
+ * RecordMetadata is a helper class that allows to store metadata in form of
+ * a record with a distinct type per field on a class, e.g. an options bag of
+ * a decorator. It is a `MapMetadata` keyed by the field names, but each field
+ * can have its own default value and inheritance strategy. A global key is
+ * created with the `global` option.
+ *
+ * The record is always resolved in the live mode: a class stores its own
+ * fields only and every read combines them with the fields resolved for its
+ * parent, field by field, so the field strategies apply to the fields set
+ * later as well.
+ *
+ * @template Shape - Type of the record.
+ *
+ * @example
+ *
+ * ```ts
+ * const route = new RecordMetadata<{
+ *   path: string;
+ *   methods: Set<string>;
+ *   timeout: number;
+ * }>('http:route', {
+ *   fields: {
+ *     methods: { inherit: 'parent-first' },
+ *     timeout: { default: 30_000 },
+ *   },
+ * });
+ * class MyController {}
+ * route.set(MyController, 'path', '/my');
+ * console.log(route.get(MyController, 'timeout')); // 30000
+ * ```
+ */
+export class RecordMetadata<Shape extends object> extends MapMetadata<
+  keyof Shape,
+  Shape[keyof Shape]
+> {
+  /**
+   * Defaults and inheritance strategies of the fields.
+   */
+  private readonly fields: RecordFieldsOptions<Shape>;
+  /**
+   * Creates a record metadata helper.
+   *
+   * @param key - Metadata key used to store the metadata on a class.
+   *    If a string is passed, it will be converted to a symbol.
+   * @param options - Metadata options.
+   */
+  constructor(
+    key: string | symbol,
+    options: RecordMetadataOptions<Shape> = {},
+  ) {
+    const { fields = {}, ...mapOptions } = options;
+
+    super(key, {
+      ...mapOptions,
+      resolution: 'live',
+      inherit: (parentFields, ownFields, ctor) =>
+        mergeFields(fields, parentFields, ownFields, ctor),
+    });
+    this.fields = fields;
+  }
+  /**
+   * Get a field of the record from a class or an instance constructor.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @param key - Name of the field.
+   * @returns Value of the field, its default value or `undefined` if the
+   *  field is not set and has no default.
+   * @template T - Class instance type.
+   * @template F - Name of the field.
+   */
+  public get<T extends object, F extends keyof Shape>(
+    arg: MetadataTarget<T>,
+    key: F,
+  ): Shape[F] | undefined {
+    const value = super.get(arg, key) as Shape[F] | undefined;
+
+    return value === undefined ? this.fields[key]?.default : value;
+  }
+  /**
+   * Set a field of the record on a class or an instance constructor.
+   *
+   * @param arg - Class constructor or an instance of a class. The metadata will
+   *  be stored on the class itself or the instance's constructor.
+   * @param key - Name of the field.
+   * @param value - Value of the field.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   * @template F - Name of the field.
+   */
+  public set<T extends object, F extends keyof Shape>(
+    arg: MetadataTarget<T>,
+    key: F,
+    value: Shape[F],
+  ): void {
+    super.set(arg, key, value);
+  }
+  /**
+   * Get all fields of the record from a class or an instance constructor,
+   * including the default values of the fields which are not set.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @returns A new object with the fields of the record.
+   * @template T - Class instance type.
+   */
+  public getAll<T extends object>(arg: MetadataTarget<T>): Partial<Shape> {
+    const record: Partial<Shape> = {};
+
+    (Reflect.ownKeys(this.fields) as (keyof Shape)[]).forEach((key) => {
+      const defaultValue = this.fields[key]?.default;
+
+      if (defaultValue !== undefined) {
+        record[key] = defaultValue;
+      }
+    });
+    this.getMap(arg).forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+}
@@ -0,0 +1,270 @@
+import { Metadata } from './metadata';
+import {
+  installReflectMetadata,
+  ReflectMetadataAdapter,
+  reflectMetadataKey,
+} from './reflect-metadata';
+import { WeakMapStorage } from './weak-map-storage';
+
+describe('(Unit) ReflectMetadataAdapter', () => {
+  describe('reflectMetadataKey()', () => {
+    it('should map the same key to the same symbol', () => {
+      // Arrange
+      // Act
+      const symbolOne = reflectMetadataKey('test:key');
+      const symbolTwo = reflectMetadataKey('test:key');
+      // Assert
+      expect(symbolOne).toBe(symbolTwo);
+      expect(symbolOne.description).toBe('test:key');
+    });
+
+    it('should keep a symbol key as it is', () => {
+      // Arrange
+      const key = Symbol('test:key');
+      // Act
+      const symbol = reflectMetadataKey(key);
+      // Assert
+      expect(symbol).toBe(key);
+    });
+  });
+
+  describe('#defineMetadata() - class metadata', () => {
+    it('should define and read a metadata on a class', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'testValue', TestClass);
+      // Assert
+      expect(reflect.getMetadata('test:key', TestClass)).toBe('testValue');
+      expect(reflect.getOwnMetadata('test:key', TestClass)).toBe('testValue');
+      expect(reflect.hasMetadata('test:key', TestClass)).toBe(true);
+      expect(reflect.hasOwnMetadata('test:key', TestClass)).toBe(true);
+    });
+
+    it('should inherit a metadata from a parent class', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'testValue', ParentClass);
+      // Assert
+      expect(reflect.getMetadata('test:key', ChildClass)).toBe('testValue');
+      expect(reflect.getOwnMetadata('test:key', ChildClass)).toBeUndefined();
+      expect(reflect.hasOwnMetadata('test:key', ChildClass)).toBe(false);
+    });
+
+    it('should share class metadata with the Metadata helper', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      const testMetadata = new Metadata<string>(reflectMetadataKey('test:key'));
+      class TestClass {}
+      class OtherClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'testValue', TestClass);
+      testMetadata.set(OtherClass, 'otherValue');
+      // Assert
+      expect(testMetadata.get(TestClass)).toBe('testValue');
+      expect(reflect.getMetadata('test:key', OtherClass)).toBe('otherValue');
+    });
+  });
+
+  describe('#defineMetadata() - member metadata', () => {
+    it('should define a metadata on a property', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'a', TestClass.prototype, 'propA');
+      reflect.defineMetadata('test:key', 'b', TestClass.prototype, 'propB');
+      // Assert
+      expect(
+        reflect.getMetadata('test:key', TestClass.prototype, 'propA'),
+      ).toBe('a');
+      expect(
+        reflect.getMetadata('test:key', TestClass.prototype, 'propB'),
+      ).toBe('b');
+      expect(reflect.getMetadata('test:key', TestClass.prototype)).toBe(
+        undefined,
+      );
+    });
+
+    it('should inherit a property metadata from a parent prototype', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'a', ParentClass.prototype, 'prop');
+      // Assert
+      expect(
+        reflect.getMetadata('test:key', ChildClass.prototype, 'prop'),
+      ).toBe('a');
+      expect(reflect.hasMetadata('test:key', new ChildClass(), 'prop')).toBe(
+        true,
+      );
+      expect(
+        reflect.hasOwnMetadata('test:key', ChildClass.prototype, 'prop'),
+      ).toBe(false);
+    });
+
+    it('should keep static and instance members apart', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'static', TestClass, 'prop');
+      reflect.defineMetadata(
+        'test:key',
+        'instance',
+        TestClass.prototype,
+        'prop',
+      );
+      // Assert
+      expect(reflect.getMetadata('test:key', TestClass, 'prop')).toBe('static');
+      expect(reflect.getMetadata('test:key', TestClass.prototype, 'prop')).toBe(
+        'instance',
+      );
+    });
+  });
+
+  describe('#getMetadataKeys() - key listing', () => {
+    it('should list own and inherited keys', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      reflect.defineMetadata('test:parent', 'a', ParentClass);
+      reflect.defineMetadata('test:child', 'b', ChildClass);
+      reflect.defineMetadata('test:shared', 'c', ParentClass);
+      reflect.defineMetadata('test:shared', 'd', ChildClass);
+      // Assert
+      expect(reflect.getOwnMetadataKeys(ChildClass)).toEqual([
+        'test:child',
+        'test:shared',
+      ]);
+      expect(reflect.getMetadataKeys(ChildClass)).toEqual([
+        'test:child',
+        'test:shared',
+        'test:parent',
+      ]);
+    });
+
+    it('should list property keys and skip deleted ones', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      // Act
+      reflect.defineMetadata('test:a', 'a', TestClass.prototype, 'prop');
+      reflect.defineMetadata('test:b', 'b', TestClass.prototype, 'prop');
+      reflect.deleteMetadata('test:a', TestClass.prototype, 'prop');
+      // Assert
+      expect(reflect.getOwnMetadataKeys(TestClass.prototype, 'prop')).toEqual([
+        'test:b',
+      ]);
+      expect(reflect.getOwnMetadataKeys(TestClass.prototype)).toEqual([]);
+    });
+  });
+
+  describe('#deleteMetadata() - metadata deleting', () => {
+    it('should delete an own class metadata', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      reflect.defineMetadata('test:key', 'testValue', TestClass);
+      // Act
+      const wasDeleted = reflect.deleteMetadata('test:key', TestClass);
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(reflect.hasMetadata('test:key', TestClass)).toBe(false);
+    });
+
+    it('should not delete an inherited metadata', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      reflect.defineMetadata('test:key', 'testValue', ParentClass, 'prop');
+      // Act
+      const wasDeleted = reflect.deleteMetadata('test:key', ChildClass, 'prop');
+      // Assert
+      expect(wasDeleted).toBe(false);
+      expect(reflect.hasMetadata('test:key', ChildClass, 'prop')).toBe(true);
+    });
+
+    it('should delete an own property metadata', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      class TestClass {}
+      reflect.defineMetadata('test:key', 'testValue', TestClass, 'prop');
+      // Act
+      const wasDeleted = reflect.deleteMetadata('test:key', TestClass, 'prop');
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(reflect.hasMetadata('test:key', TestClass, 'prop')).toBe(false);
+    });
+  });
+
+  describe('#metadata() - decorator', () => {
+    it('should define a metadata on a class and its members', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter();
+      // Act
+      @reflect.metadata('test:key', 'class')
+      class TestClass {
+        @reflect.metadata('test:key', 'method')
+        public testMethod() {}
+      }
+      // Assert
+      expect(reflect.getMetadata('test:key', TestClass)).toBe('class');
+      expect(
+        reflect.getMetadata('test:key', TestClass.prototype, 'testMethod'),
+      ).toBe('method');
+    });
+  });
+
+  describe('storage', () => {
+    it('should store the metadata in a custom storage', () => {
+      // Arrange
+      const reflect = new ReflectMetadataAdapter({
+        storage: new WeakMapStorage(),
+      });
+      class TestClass {}
+      // Act
+      reflect.defineMetadata('test:key', 'testValue', TestClass);
+      // Assert
+      expect(Object.getOwnPropertySymbols(TestClass)).toEqual([]);
+      expect(reflect.getMetadata('test:key', TestClass)).toBe('testValue');
+    });
+  });
+
+  describe('installReflectMetadata()', () => {
+    it('should store types emitted by TypeScript', () => {
+      // Arrange
+      const reflect = installReflectMetadata();
+      const paramTypes = new Metadata<unknown[]>(
+        reflectMetadataKey('design:paramtypes'),
+      );
+      const noop: PropertyDecorator & ClassDecorator = () => undefined;
+      // Act
+      @noop
+      class TestClass {
+        @noop
+        public testProperty?: string;
+
+        constructor(public name: string) {}
+      }
+      // Assert
+      expect(
+        reflect.getMetadata('design:type', TestClass.prototype, 'testProperty'),
+      ).toBe(String);
+      expect(paramTypes.get(TestClass)).toEqual([String]);
+      expect(reflect.getMetadata('design:paramtypes', TestClass)).toEqual([
+        String,
+      ]);
+      expect(Reflect.get(Reflect, 'getMetadata')).toBe(reflect.getMetadata);
+    });
+  });
+});
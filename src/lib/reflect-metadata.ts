@@ -0,0 +1,451 @@
+import { MetadataOptions } from './base-metadata';
+import { getDefaultMetadataStorage, MetadataStorage } from './metadata-storage';
+import { getMetadataChain, getMetadataHolder } from './metadata-target';
+
+/**
+ * Symbols used to store `reflect-metadata` values, by the original metadata
+ * key. Shared by all adapters so that the same key always maps to the same
+ * symbol.
+ */
+const reflectKeys = new Map<unknown, symbol>();
+/**
+ * Symbols used to store member level `reflect-metadata` values, by the class
+ * level symbol of the metadata key.
+ */
+const memberKeys = new Map<symbol, symbol>();
+/**
+ * Symbol under which each holder keeps the list of `reflect-metadata` keys
+ * defined on it, grouped by the property key.
+ */
+const KEYS_INDEX = Symbol('reflect-metadata:keys');
+/**
+ * Signature of the `Reflect.metadata` decorator.
+ */
+export interface ReflectMetadataDecorator {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  (target: Function): void;
+  (target: object, propertyKey: string | symbol): void;
+}
+
+/**
+ * `reflect-metadata` API installed on the global `Reflect` object by
+ * `installReflectMetadata`.
+ */
+export type ReflectMetadataApi = Pick<
+  ReflectMetadataAdapter,
+  | 'defineMetadata'
+  | 'hasMetadata'
+  | 'hasOwnMetadata'
+  | 'getMetadata'
+  | 'getOwnMetadata'
+  | 'getMetadataKeys'
+  | 'getOwnMetadataKeys'
+  | 'deleteMetadata'
+  | 'metadata'
+>;
+/**
+ * Get the symbol a `reflect-metadata` key is stored under. Symbol keys are
+ * used as they are, any other key is mapped to a symbol of its own.
+ *
+ * Use the symbol to create a metadata helper sharing the values with the
+ * `reflect-metadata` API, e.g. to read the types emitted by TypeScript:
+ *
+ * ```ts
+ * const paramTypes = new Metadata<Function[]>(
+ *   reflectMetadataKey('design:paramtypes'),
+ * );
+ * ```
+ *
+ * @param metadataKey - `reflect-metadata` key.
+ * @returns Symbol the metadata is stored under.
+ */
+export function reflectMetadataKey(metadataKey: unknown): symbol {
+  if (typeof metadataKey === 'symbol') {
+    return metadataKey;
+  }
+  let symbol = reflectKeys.get(metadataKey);
+
+  if (symbol === undefined) {
+    symbol = Symbol(String(metadataKey));
+    reflectKeys.set(metadataKey, symbol);
+  }
+  return symbol;
+}
+/**
+ * Get the symbol member level metadata of a `reflect-metadata` key is stored
+ * under.
+ *
+ * @param metadataKey - `reflect-metadata` key.
+ * @returns Symbol the member level metadata is stored under.
+ */
+function reflectMemberKey(metadataKey: unknown): symbol {
+  const classKey = reflectMetadataKey(metadataKey);
+  let symbol = memberKeys.get(classKey);
+
+  if (symbol === undefined) {
+    symbol = Symbol(`${classKey.description}:members`);
+    memberKeys.set(classKey, symbol);
+  }
+  return symbol;
+}
+/**
+ * Adapter exposing the `reflect-metadata` API on top of a metadata storage.
+ *
+ * Class level metadata (without a property key) defined on a class is stored
+ * exactly like the values of the `Metadata` helper, so both APIs can read
+ * each other's values (see `reflectMetadataKey`). Metadata defined on other
+ * objects (e.g. on a prototype for instance members) follows the prototype
+ * chain of that object, as `reflect-metadata` does.
+ *
+ * Creating an adapter has no side effects. Use `installReflectMetadata` to
+ * expose it on the global `Reflect` object.
+ *
+ * @example
+ *
+ * ```ts
+ * const reflect = new ReflectMetadataAdapter();
+ * reflect.defineMetadata('role', 'admin', MyClass);
+ * console.log(reflect.getMetadata('role', MyClass)); // 'admin'
+ * ```
+ */
+export class ReflectMetadataAdapter {
+  /**
+   * Options the adapter was created with.
+   */
+  protected readonly options: MetadataOptions;
+  /**
+   * @param options - Adapter options. The storage should match the storage
+   *  of the metadata helpers the values are shared with.
+   */
+  constructor(options: MetadataOptions = {}) {
+    this.options = options;
+  }
+  /**
+   * Storage backend the metadata is persisted in.
+   */
+  public get storage(): MetadataStorage {
+    return this.options.storage ?? getDefaultMetadataStorage();
+  }
+  /**
+   * Define a metadata value on a target object or its property.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param metadataValue - Value of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   */
+  public defineMetadata(
+    metadataKey: unknown,
+    metadataValue: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): void {
+    const holder = this.getHolder(target);
+
+    if (propertyKey === undefined) {
+      this.storage.set(holder, reflectMetadataKey(metadataKey), metadataValue);
+    } else {
+      const memberKey = reflectMemberKey(metadataKey);
+      const members =
+        this.storage.get<Map<PropertyKey, unknown>>(holder, memberKey) ??
+        new Map();
+
+      members.set(propertyKey, metadataValue);
+      this.storage.set(holder, memberKey, members);
+    }
+    this.indexKey(holder, metadataKey, propertyKey);
+  }
+  /**
+   * Check if a metadata value is defined on a target object (or its property)
+   * or anywhere on its prototype chain.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns `true` if the metadata is defined, `false` otherwise.
+   */
+  public hasMetadata(
+    metadataKey: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): boolean {
+    return (
+      this.findHolder(this.getLevels(target), metadataKey, propertyKey) !==
+      undefined
+    );
+  }
+  /**
+   * Check if a metadata value is defined on a target object (or its property)
+   * itself.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns `true` if the metadata is defined, `false` otherwise.
+   */
+  public hasOwnMetadata(
+    metadataKey: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): boolean {
+    const [ownLevel] = this.getLevels(target);
+
+    return this.findHolder([ownLevel], metadataKey, propertyKey) !== undefined;
+  }
+  /**
+   * Get a metadata value of a target object (or its property), looking up
+   * the prototype chain.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns Metadata value or `undefined` if not defined.
+   */
+  public getMetadata(
+    metadataKey: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): unknown {
+    return this.readValue(this.getLevels(target), metadataKey, propertyKey);
+  }
+  /**
+   * Get a metadata value defined on a target object (or its property) itself.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns Metadata value or `undefined` if not defined.
+   */
+  public getOwnMetadata(
+    metadataKey: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): unknown {
+    const [ownLevel] = this.getLevels(target);
+
+    return this.readValue([ownLevel], metadataKey, propertyKey);
+  }
+  /**
+   * Get the keys of all metadata defined on a target object (or its property)
+   * and its prototype chain.
+   *
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns Unique metadata keys, own keys first.
+   */
+  public getMetadataKeys(
+    target: object,
+    propertyKey?: string | symbol,
+  ): unknown[] {
+    const keys = new Set<unknown>();
+
+    this.getLevels(target).forEach((level) =>
+      this.readKeys(level, propertyKey).forEach((key) => keys.add(key)),
+    );
+
+    return [...keys];
+  }
+  /**
+   * Get the keys of all metadata defined on a target object (or its property)
+   * itself.
+   *
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns Unique metadata keys.
+   */
+  public getOwnMetadataKeys(
+    target: object,
+    propertyKey?: string | symbol,
+  ): unknown[] {
+    const [ownLevel] = this.getLevels(target);
+
+    return this.readKeys(ownLevel, propertyKey);
+  }
+  /**
+   * Delete a metadata value defined on a target object (or its property)
+   * itself.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param target - Target object.
+   * @param propertyKey - Optional property key of the target.
+   * @returns `true` if the metadata was deleted, `false` otherwise.
+   */
+  public deleteMetadata(
+    metadataKey: unknown,
+    target: object,
+    propertyKey?: string | symbol,
+  ): boolean {
+    const [ownLevel] = this.getLevels(target);
+    const holder = this.findHolder([ownLevel], metadataKey, propertyKey);
+
+    if (holder === undefined) {
+      return false;
+    } else if (propertyKey === undefined) {
+      return this.storage.delete(holder, reflectMetadataKey(metadataKey));
+    }
+    return (
+      this.storage
+        .get<Map<PropertyKey, unknown>>(holder, reflectMemberKey(metadataKey))
+        ?.delete(propertyKey) ?? false
+    );
+  }
+  /**
+   * Create a decorator defining a metadata value on the decorated class or
+   * member.
+   *
+   * @param metadataKey - Key of the metadata.
+   * @param metadataValue - Value of the metadata.
+   * @returns Decorator compatible with `Reflect.metadata`.
+   */
+  public metadata(
+    metadataKey: unknown,
+    metadataValue: unknown,
+  ): ReflectMetadataDecorator {
+    return (target: object, propertyKey?: string | symbol): void =>
+      this.defineMetadata(metadataKey, metadataValue, target, propertyKey);
+  }
+  /**
+   * Resolve a target to the levels of its prototype chain. Classes share the
+   * chain of the metadata helpers, other objects use their own prototypes.
+   */
+  private getLevels(target: object): object[][] {
+    if (target instanceof Function) {
+      return getMetadataChain(target);
+    }
+    const levels: object[][] = [];
+
+    for (
+      let current: object | null = target;
+      current !== null;
+      current = Object.getPrototypeOf(current)
+    ) {
+      levels.push([current]);
+    }
+    return levels;
+  }
+  /**
+   * Resolve a target to the object to write its metadata to.
+   */
+  private getHolder(target: object): object {
+    return target instanceof Function ? getMetadataHolder(target) : target;
+  }
+  /**
+   * Find the first object in the given levels owning the metadata.
+   */
+  private findHolder(
+    levels: object[][],
+    metadataKey: unknown,
+    propertyKey: string | symbol | undefined,
+  ): object | undefined {
+    for (const level of levels) {
+      for (const holder of level) {
+        const isOwned =
+          propertyKey === undefined
+            ? this.storage.has(holder, reflectMetadataKey(metadataKey))
+            : this.storage
+                .get<
+                  Map<PropertyKey, unknown>
+                >(holder, reflectMemberKey(metadataKey))
+                ?.has(propertyKey);
+
+        if (isOwned) {
+          return holder;
+        }
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Read the value of the first object in the given levels owning the
+   * metadata.
+   */
+  private readValue(
+    levels: object[][],
+    metadataKey: unknown,
+    propertyKey: string | symbol | undefined,
+  ): unknown {
+    const holder = this.findHolder(levels, metadataKey, propertyKey);
+
+    if (holder === undefined) {
+      return undefined;
+    } else if (propertyKey === undefined) {
+      return this.storage.get(holder, reflectMetadataKey(metadataKey));
+    }
+    return this.storage
+      .get<Map<PropertyKey, unknown>>(holder, reflectMemberKey(metadataKey))
+      ?.get(propertyKey);
+  }
+  /**
+   * Remember a metadata key defined on the holder, so that it can be listed.
+   */
+  private indexKey(
+    holder: object,
+    metadataKey: unknown,
+    propertyKey: string | symbol | undefined,
+  ): void {
+    const index =
+      this.storage.get<Map<PropertyKey | undefined, Set<unknown>>>(
+        holder,
+        KEYS_INDEX,
+      ) ?? new Map();
+    const keys = index.get(propertyKey) ?? new Set();
+
+    keys.add(metadataKey);
+    index.set(propertyKey, keys);
+    this.storage.set(holder, KEYS_INDEX, index);
+  }
+  /**
+   * List metadata keys still defined on the objects of a single level.
+   */
+  private readKeys(
+    level: object[],
+    propertyKey: string | symbol | undefined,
+  ): unknown[] {
+    const keys = new Set<unknown>();
+
+    level.forEach((holder) =>
+      this.storage
+        .get<Map<PropertyKey | undefined, Set<unknown>>>(holder, KEYS_INDEX)
+        ?.get(propertyKey)
+        ?.forEach((key) => {
+          if (this.findHolder([[holder]], key, propertyKey)) {
+            keys.add(key);
+          }
+        }),
+    );
+
+    return [...keys];
+  }
+}
+/**
+ * Expose a `reflect-metadata` adapter on the global `Reflect` object, so that
+ * decorators emitted by TypeScript (`emitDecoratorMetadata`) and libraries
+ * relying on `reflect-metadata` store their values in the metadata storage.
+ *
+ * Any previously installed `reflect-metadata` functions are replaced. The
+ * type of the global `Reflect` object is left as it is, use the returned API
+ * to call the installed functions with their types.
+ *
+ * @param adapter - Adapter to install. A new adapter using the default
+ *  storage is created if omitted.
+ * @returns The functions installed on the global `Reflect` object.
+ */
+export function installReflectMetadata(
+  adapter: ReflectMetadataAdapter = new ReflectMetadataAdapter(),
+): ReflectMetadataApi {
+  const api: ReflectMetadataApi = {
+    defineMetadata: adapter.defineMetadata.bind(adapter),
+    hasMetadata: adapter.hasMetadata.bind(adapter),
+    hasOwnMetadata: adapter.hasOwnMetadata.bind(adapter),
+    getMetadata: adapter.getMetadata.bind(adapter),
+    getOwnMetadata: adapter.getOwnMetadata.bind(adapter),
+    getMetadataKeys: adapter.getMetadataKeys.bind(adapter),
+    getOwnMetadataKeys: adapter.getOwnMetadataKeys.bind(adapter),
+    deleteMetadata: adapter.deleteMetadata.bind(adapter),
+    metadata: adapter.metadata.bind(adapter),
+  };
+
+  Object.assign(Reflect, api);
+
+  return api;
+}
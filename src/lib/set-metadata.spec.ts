@@ -1,4 +1,8 @@
+import { decorate, metadataSymbol } from '../testing/standard-decorators';
+import { MetadataSealedError } from './metadata-sealed-error';
+import { MetadataValidationError } from './metadata-validation-error';
 import { SetMetadata } from './set-metadata';
+import { WeakMapStorage } from './weak-map-storage';
 
 describe('(Unit) SetMetadata', () => {
   describe('#constructor() - initialization', () => {
@@ -386,4 +390,572 @@ describe('(Unit) SetMetadata', () => {
       expect(size).toBe(0);
     });
   });
+
+  describe('standard decorators', () => {
+    it('should add a metadata through a decorator context', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      decorate(TestClass, (context) =>
+        testMetadata.add(context, String(context.name)),
+      );
+      const hasMetadata = testMetadata.has(TestClass, 'testProperty');
+      // Assert
+      expect(hasMetadata).toBe(true);
+    });
+
+    it('should copy a parent metadata into a decorated child class', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      decorate(ParentClass, (context) => testMetadata.add(context, 'parent'));
+      decorate(ChildClass, (context) => testMetadata.add(context, 'child'));
+      // Assert
+      expect(testMetadata.getSize(ParentClass)).toBe(1);
+      expect(testMetadata.getSet(ChildClass)).toEqual(
+        new Set(['parent', 'child']),
+      );
+    });
+  });
+
+  describe('storage', () => {
+    it('should store a metadata in a custom storage', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        storage: new WeakMapStorage(),
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      testMetadata.add(ParentClass, 'parent');
+      testMetadata.add(ChildClass, 'child');
+      // Assert
+      expect(Object.getOwnPropertySymbols(ChildClass)).toEqual([]);
+      expect(testMetadata.getSize(ParentClass)).toBe(1);
+      expect(testMetadata.getSet(ChildClass)).toEqual(
+        new Set(['parent', 'child']),
+      );
+    });
+  });
+
+  describe('#methodDecorator() - decorator factory', () => {
+    it('should add method names through a legacy method decorator', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<PropertyKey>('test:testMetadata');
+      const Handler = testMetadata.methodDecorator();
+      // Act
+      class TestClass {
+        @Handler
+        public testMethod() {}
+
+        @Handler
+        public otherMethod() {}
+      }
+      // Assert
+      expect([...testMetadata.getSet(TestClass)]).toEqual([
+        'testMethod',
+        'otherMethod',
+      ]);
+      expect(Handler.metadata).toBe(testMetadata);
+    });
+
+    it('should add a value created by a factory', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      // Act
+      class TestClass {
+        @testMetadata.methodDecorator(
+          (propertyKey) => `on:${String(propertyKey)}`,
+        )
+        public testMethod() {}
+      }
+      // Assert
+      expect(testMetadata.has(TestClass, 'on:testMethod')).toBe(true);
+    });
+
+    it('should add a value through a standard method decorator', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<PropertyKey>('test:testMetadata');
+      const metadata = Object.create(null);
+      class TestClass {
+        public testMethod() {}
+      }
+      // Act
+      testMetadata.methodDecorator()(TestClass.prototype.testMethod, {
+        kind: 'method',
+        name: 'testMethod',
+        static: false,
+        private: false,
+        metadata,
+        addInitializer: () => undefined,
+      } as unknown as ClassMethodDecoratorContext);
+      Object.defineProperty(TestClass, metadataSymbol, { value: metadata });
+      // Assert
+      expect(testMetadata.has(TestClass, 'testMethod')).toBe(true);
+    });
+  });
+
+  describe('live resolution', () => {
+    it('should see parent changes made after the child was read', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'first');
+      testMetadata.has(ChildClass, 'first');
+      // Act
+      testMetadata.add(ParentClass, 'second');
+      testMetadata.add(ChildClass, 'child');
+      // Assert
+      expect([...testMetadata.getSet(ChildClass)]).toEqual([
+        'first',
+        'second',
+        'child',
+      ]);
+    });
+
+    it('should not persist anything on reads', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'testValue');
+      // Act
+      testMetadata.has(ChildClass, 'testValue');
+      testMetadata.getSize(ChildClass);
+      testMetadata.getSet(ChildClass).add('otherValue');
+      testMetadata.delete(ChildClass, 'unknownValue');
+      // Assert
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(false);
+      expect(testMetadata.has(ChildClass, 'otherValue')).toBe(false);
+    });
+
+    it('should tombstone parent values', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.add(ParentClass, 'deleted');
+      testMetadata.add(ParentClass, 'kept');
+      // Act
+      const wasDeleted = testMetadata.delete(ChildClass, 'deleted');
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect([...testMetadata.getSet(GrandChildClass)]).toEqual(['kept']);
+      expect(testMetadata.getSize(ParentClass)).toBe(2);
+    });
+
+    it('should restore a tombstoned value when added again', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'testValue');
+      testMetadata.delete(ChildClass, 'testValue');
+      // Act
+      testMetadata.add(ChildClass, 'testValue');
+      // Assert
+      expect(testMetadata.has(ChildClass, 'testValue')).toBe(true);
+    });
+
+    it('should stop inheriting parent values when cleared', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      // Act
+      testMetadata.clear(ChildClass);
+      testMetadata.add(ParentClass, 'other');
+      testMetadata.add(ChildClass, 'child');
+      testMetadata.delete(ChildClass, 'child');
+      // Assert
+      expect(testMetadata.getSize(ChildClass)).toBe(0);
+    });
+
+    it('should store an own layer on init', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      // Act
+      const metadata = testMetadata.init(ChildClass);
+      // Assert
+      expect([...metadata]).toEqual(['parent']);
+      expect(
+        testMetadata.storage.has(ChildClass, testMetadata.metadataKey),
+      ).toBe(true);
+    });
+  });
+
+  describe('inherit option', () => {
+    it('should not inherit parent values in the live none mode', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+        inherit: 'none',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      // Act
+      testMetadata.add(ChildClass, 'child');
+      // Assert
+      expect([...testMetadata.getSet(ChildClass)]).toEqual(['child']);
+    });
+
+    it('should resolve values with a custom merger', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+        inherit: (parentValue, ownValue) =>
+          ownValue?.size ? ownValue : parentValue,
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class OtherChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      // Act
+      testMetadata.add(ChildClass, 'child');
+      testMetadata.init(OtherChildClass);
+      // Assert
+      expect([...testMetadata.getSet(ChildClass)]).toEqual(['child']);
+      expect([...testMetadata.getSet(OtherChildClass)]).toEqual(['parent']);
+    });
+  });
+
+  describe('validate option', () => {
+    it('should throw a validation error for an invalid value', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        validate: (value) => value.length > 0,
+      });
+      class TestClass {}
+      // Act
+      const add = (): void => testMetadata.add(TestClass, '');
+      // Assert
+      expect(add).toThrow(MetadataValidationError);
+      expect(testMetadata.getSize(TestClass)).toBe(0);
+    });
+
+    it('should validate the values copied from a parent class', () => {
+      // Arrange
+      let strict = false;
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        validate: (value) => !strict || value !== 'legacy',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'legacy');
+      strict = true;
+      // Act
+      const init = (): unknown => testMetadata.init(ChildClass);
+      // Assert
+      expect(init).toThrow(
+        expect.objectContaining({ target: ChildClass, value: 'legacy' }),
+      );
+    });
+  });
+
+  describe('sealing', () => {
+    it('should throw on modifications of a sealed set', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, 'testValue');
+      // Act
+      testMetadata.seal(TestClass);
+      // Assert
+      expect(() => testMetadata.add(TestClass, 'value')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.delete(TestClass, 'testValue')).toThrow(
+        MetadataSealedError,
+      );
+      expect(() => testMetadata.clear(TestClass)).toThrow(MetadataSealedError);
+      expect(() => testMetadata.getSet(TestClass).add('value')).toThrow(
+        TypeError,
+      );
+      expect(testMetadata.has(TestClass, 'testValue')).toBe(true);
+    });
+  });
+
+  describe('#subscribe() - change notifications', () => {
+    it('should notify about add, delete and clear', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.add(TestClass, 'first');
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.add(TestClass, 'second');
+      testMetadata.delete(TestClass, 'first');
+      testMetadata.delete(TestClass, 'first');
+      testMetadata.clear(TestClass);
+      // Assert
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events.map(({ type }) => type)).toEqual([
+        'add',
+        'delete',
+        'clear',
+      ]);
+      expect(events[0]).toMatchObject({ target: TestClass, value: 'second' });
+      expect(events[1].previousValue).toBe('first');
+      expect([...events[2].previousValue]).toEqual(['second']);
+    });
+
+    it('should notify about the changes in the live mode', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      const listener = jest.fn();
+      class TestClass {}
+      testMetadata.subscribe(listener);
+      // Act
+      testMetadata.add(TestClass, 'testValue');
+      testMetadata.delete(TestClass, 'testValue');
+      testMetadata.clear(TestClass);
+      // Assert
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+        'init',
+        'add',
+        'delete',
+        'clear',
+      ]);
+    });
+  });
+
+  describe('#global() - global keys', () => {
+    it('should create a helper with a global key', () => {
+      // Arrange
+      // Act
+      const testMetadata = SetMetadata.global<string>('test.pkg:globalSet');
+      // Assert
+      expect(testMetadata).toBeInstanceOf(SetMetadata);
+      expect(testMetadata.metadataKey).toBe(Symbol.for('test.pkg:globalSet'));
+    });
+  });
+
+  describe('target option', () => {
+    it('should store the set of an instance apart from its class', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        target: 'instance',
+        resolution: 'live',
+      });
+      class TestClass {}
+      const instance = new TestClass();
+      testMetadata.add(TestClass, 'class');
+      // Act
+      testMetadata.add(instance, 'instance');
+      // Assert
+      expect([...testMetadata.getSet(instance)]).toEqual(['class', 'instance']);
+      expect([...testMetadata.getSet(new TestClass())]).toEqual(['class']);
+      expect([...testMetadata.getSet(TestClass)]).toEqual(['class']);
+    });
+  });
+
+  describe('own and inherited metadata', () => {
+    it('should introspect the own sets', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'parent');
+      testMetadata.add(ChildClass, 'child');
+      // Act
+      const ownSet = testMetadata.getOwn(ChildClass);
+      // Assert
+      expect([...(ownSet ?? [])]).toEqual(['child']);
+      expect(testMetadata.getOrigin(ChildClass)).toBe(ChildClass);
+      expect(testMetadata.getChain(ChildClass)).toHaveLength(2);
+    });
+  });
+
+  describe('#mask() - inherited value hiding', () => {
+    it('should hide and restore an inherited value in the live mode', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      const listener = jest.fn();
+      testMetadata.add(ParentClass, 'parent');
+      testMetadata.subscribe(ChildClass, listener);
+      // Act
+      testMetadata.mask(ChildClass, 'parent');
+      const masked = [...testMetadata.getSet(ChildClass)];
+      testMetadata.unmask(ChildClass, 'parent');
+      // Assert
+      expect(masked).toEqual([]);
+      expect([...testMetadata.getSet(ChildClass)]).toEqual(['parent']);
+      expect(testMetadata.unmask(ChildClass, 'parent')).toBe(false);
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+        'init',
+        'delete',
+        'add',
+      ]);
+    });
+
+    it('should restore a value to a descendant read while masked', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      testMetadata.add(ParentClass, 'parent');
+      testMetadata.mask(ChildClass, 'parent');
+      const masked = [...testMetadata.getSet(GrandChildClass)];
+      // Act
+      testMetadata.unmask(ChildClass, 'parent');
+      // Assert
+      expect(masked).toEqual([]);
+      expect([...testMetadata.getSet(GrandChildClass)]).toEqual(['parent']);
+    });
+
+    it('should require the live resolution', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class TestClass {}
+      // Act
+      const mask = () => testMetadata.mask(TestClass, 'value');
+      const unmask = () => testMetadata.unmask(TestClass, 'value');
+      // Assert
+      expect(mask).toThrow(
+        new TypeError(
+          'Masking of "test:testMetadata" requires the live resolution.',
+        ),
+      );
+      expect(unmask).toThrow(TypeError);
+      expect(testMetadata.getOwn(TestClass)).toBeUndefined();
+    });
+  });
+
+  describe('iteration', () => {
+    it('should iterate own and inherited values without storing them', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.add(ParentClass, 'b');
+      const callback = jest.fn();
+      // Act
+      testMetadata.forEach(new ChildClass(), callback);
+      const entries = [...testMetadata.entries(ChildClass)];
+      const keys = [...testMetadata.keys(ChildClass)];
+      const values = [...testMetadata.values(ChildClass)];
+      const array = testMetadata.toArray(ChildClass);
+      // Assert
+      expect(callback.mock.calls).toEqual([['a'], ['b']]);
+      expect(entries).toEqual([
+        ['a', 'a'],
+        ['b', 'b'],
+      ]);
+      expect(keys).toEqual(['a', 'b']);
+      expect(values).toEqual(['a', 'b']);
+      expect(array).toEqual(['a', 'b']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should search the values without storing them', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.add(ParentClass, 'bb');
+      // Act
+      const found = testMetadata.find(ChildClass, (value) => value.length > 1);
+      const missing = testMetadata.find(ChildClass, (value) => value === 'c');
+      const filtered = testMetadata.filter(
+        ChildClass,
+        (value) => value !== 'a',
+      );
+      const some = testMetadata.some(ChildClass, (value) => value === 'a');
+      const none = testMetadata.some(ChildClass, (value) => value === 'c');
+      // Assert
+      expect(found).toBe('bb');
+      expect(missing).toBeUndefined();
+      expect([...filtered]).toEqual(['bb']);
+      expect(some).toBe(true);
+      expect(none).toBe(false);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+
+    it('should walk the layers like the resolved set in the live mode', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata', {
+        resolution: 'live',
+      });
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      class GrandChildClass extends ChildClass {}
+      class DetachedClass extends ChildClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.add(ParentClass, 'b');
+      testMetadata.add(ParentClass, 'c');
+      testMetadata.delete(ChildClass, 'b');
+      testMetadata.add(ChildClass, 'a');
+      testMetadata.add(GrandChildClass, 'b');
+      testMetadata.clear(DetachedClass);
+      testMetadata.add(DetachedClass, 'd');
+      // Act
+      const values = testMetadata.toArray(GrandChildClass);
+      // Assert
+      expect(values).toEqual(['a', 'c', 'b']);
+      [ParentClass, ChildClass, GrandChildClass, DetachedClass]
+        .map((ctor) => [
+          testMetadata.toArray(ctor),
+          [...testMetadata.getSet(ctor)],
+        ])
+        .forEach(([walked, resolved]) => expect(walked).toEqual(resolved));
+    });
+
+    it('should iterate the set lazily through the iterable', () => {
+      // Arrange
+      const testMetadata = new SetMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, 'a');
+      testMetadata.add(ParentClass, 'b');
+      const iterator = testMetadata.iterate(ChildClass)[Symbol.iterator]();
+      // Act
+      const first = iterator.next().value;
+      testMetadata.add(ParentClass, 'c');
+      const rest = [...{ [Symbol.iterator]: () => iterator }];
+      // Assert
+      expect(first).toBe('a');
+      expect(rest).toEqual(['b', 'c']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+  });
 });
@@ -1,23 +1,44 @@
-import { Constructor } from 'type-fest';
+import {
+  CollectionMetadata,
+  CollectionMetadataOptions,
+} from './collection-metadata';
+import {
+  MetadataDecorator,
+  MethodMetadataDecorator,
+} from './metadata-decorator';
+import { MetadataTarget } from './metadata-target';
+import { ReadonlySetView } from './readonly-set-view';
 /**
  * A metadata helper to store a set of values on a class or an instance constructor.
  *
+ * A standard (TC39) decorator context or its `metadata` object can be used
+ * as a target as well.
+ *
+ * With the `resolution: 'live'` option, the parent set is not copied to the
+ * class. Reads resolve through the inheritance chain every time and only
+ * writes store own values (and tombstones of deleted parent values) on the
+ * class.
+ *
  * @template V - Metadata value type.
  */
-export class SetMetadata<V> {
-  /**
-   * Unique symbol used to store metadata on a class.
-   */
-  public readonly metadataKey: symbol;
+export class SetMetadata<V> extends CollectionMetadata<Set<V>, V, V> {
+  public get kind(): 'set' {
+    return 'set';
+  }
   /**
-   * Creates a metadata with a unique symbol key and exposes methods to
-   * interact with the metadata on a class or an instance.
+   * Create a metadata helper with a global key shared by all copies of the
+   * library defining the metadata loaded in the process (see the `global`
+   * option).
    *
-   * @param key - Metadata key used to store the metadata on a class.
-   *    If a string is passed, it will be converted to a symbol.
+   * @param key - Namespaced metadata key, e.g. `'org.pkg:key'`.
+   * @param options - Metadata options.
+   * @returns Metadata helper with a global key.
    */
-  constructor(key: string | symbol) {
-    this.metadataKey = typeof key === 'symbol' ? key : Symbol(key);
+  public static global<V>(
+    key: string,
+    options: Omit<CollectionMetadataOptions<Set<V>, V>, 'global'> = {},
+  ): SetMetadata<V> {
+    return new SetMetadata<V>(key, { ...options, global: true });
   }
   /**
    * Initialize metadata on a class. If metadata is already defined on a parent
@@ -25,29 +46,15 @@ export class SetMetadata<V> {
    * set. This way, modifying the parent set will not affect the new set.
    * Later modification of the parent set will not affect the new set.
    *
+   * In the live mode, an empty own layer is stored on the class instead and
+   * the resolved set is returned.
+   *
    * @param arg - Class constructor or an instance of a class.
    * @returns Metadata set.
    * @template T - Class instance type.
    */
-  public init<T extends object>(arg: T | Constructor<T>): Set<V> {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    const metadata = new Set<V>();
-    // There are metadata already defined somewhere on the prototype chain.
-    // We will copy them to the new array and will disconnect the reference
-    // to the parent array. This way we will not accidentally modify the parent
-    // array when adding a new value to the metadata array. Later modification
-    // of the parent array will not affect the new array.
-    if (
-      !Object.prototype.hasOwnProperty.call(ctor, this.metadataKey) &&
-      Reflect.has(ctor, this.metadataKey)
-    ) {
-      const parentMetadata = Reflect.get(ctor, this.metadataKey) as Set<V>;
-      parentMetadata.forEach((value) => metadata.add(value));
-    }
-
-    Reflect.set(ctor, this.metadataKey, metadata);
-
-    return metadata;
+  public init<T extends object>(arg: MetadataTarget<T>): Set<V> {
+    return this.initCollection(arg);
   }
   /**
    * Return the metadata set from a class or an instance constructor.
@@ -56,20 +63,18 @@ export class SetMetadata<V> {
    * set is already defined on a parent class, it will be copied to the new set.
    * Later modification of the parent set will not affect the new set.
    *
+   * In the live mode, the set is resolved from the own and the inherited
+   * values on every call and nothing is persisted. Changes of the returned
+   * set do not affect the metadata.
+   *
+   * The set of a sealed class is a read-only view and it is not persisted.
+   *
    * @param arg - Class constructor or an instance of a class.
    * @returns Metadata set.
    * @template T - Class instance type.
    */
-  public getSet<T extends object>(arg: T | Constructor<T>): Set<V> {
-    const ctor = arg instanceof Function ? arg : arg.constructor;
-    const metadata = Object.prototype.hasOwnProperty.call(
-      ctor,
-      this.metadataKey,
-    )
-      ? Reflect.get(ctor, this.metadataKey)
-      : this.init(arg);
-
-    return metadata;
+  public getSet<T extends object>(arg: MetadataTarget<T>): Set<V> {
+    return this.readCollection(arg, () => this.init(arg));
   }
   /**
    * Add a new value to the metadata set on a class or an instance constructor.
@@ -80,11 +85,30 @@ export class SetMetadata<V> {
    *
    * @param arg - Class constructor or an instance of a class.
    * @param value - Metadata value to store.
+   * @throws {MetadataValidationError} If the value does not pass the
+   *  `validate` option.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public add<T extends object>(arg: T | Constructor<T>, value: V): void {
-    const metadata = this.getSet(arg);
-    metadata.add(value);
+  public add<T extends object>(arg: MetadataTarget<T>, value: V): void {
+    this.assertNotSealed(arg);
+    this.validateValue(arg, value);
+
+    if (this.isLive) {
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.add(value);
+      layer.tombstones.delete(value);
+    } else {
+      const metadata = this.getSet(arg);
+      metadata.add(value);
+    }
+    this.emit(arg, {
+      type: 'add',
+      key: undefined,
+      value,
+      previousValue: undefined,
+    });
   }
   /**
    * Check if the metadata is set on a class or an instance constructor.
@@ -98,7 +122,7 @@ export class SetMetadata<V> {
    * @returns `true` if the metadata is set, `false` otherwise.
    * @template T - Class instance type.
    */
-  public has<T extends object>(arg: T | Constructor<T>, value: V): boolean {
+  public has<T extends object>(arg: MetadataTarget<T>, value: V): boolean {
     const metadata = this.getSet(arg);
     return metadata.has(value);
   }
@@ -109,14 +133,102 @@ export class SetMetadata<V> {
    * set is already defined on a parent class, it will be copied to the new set.
    * Later modification of the parent set will not affect the new set.
    *
+   * In the live mode, a value inherited from a parent class is tombstoned on
+   * the class, so it is no longer visible to the class and its subclasses.
+   *
    * @param instance - Class instance or an instance of a class.
    * @param value - Metadata value to delete.
    * @returns `true` if the metadata was deleted, `false` otherwise.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public delete<T extends object>(arg: T | Constructor<T>, value: V): boolean {
+  public delete<T extends object>(arg: MetadataTarget<T>, value: V): boolean {
+    this.assertNotSealed(arg);
+
     const metadata = this.getSet(arg);
-    return metadata.delete(value);
+
+    if (!metadata.has(value)) {
+      return false;
+    }
+    if (this.isLive) {
+      const [, ...parentLevels] = this.resolveChain(arg);
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.delete(value);
+      if (!layer.detached && this.resolveLayers(parentLevels).has(value)) {
+        layer.tombstones.add(value);
+      }
+    } else {
+      metadata.delete(value);
+    }
+    this.emit(arg, {
+      type: 'delete',
+      key: undefined,
+      value: undefined,
+      previousValue: value,
+    });
+    return true;
+  }
+  /**
+   * Hide a value of the metadata set from a class and its subclasses. The
+   * own value of the class is deleted and the value of its parents is no
+   * longer inherited. Adding the value to the class removes the mask.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param value - Metadata value to hide.
+   * @throws {TypeError} If the helper does not use the live resolution.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public mask<T extends object>(arg: MetadataTarget<T>, value: V): void {
+    this.assertMaskable();
+    this.assertNotSealed(arg);
+
+    const hadValue = this.getSet(arg).has(value);
+    const layer = this.getOwnLayer(arg);
+
+    layer.entries.delete(value);
+    if (!layer.detached) {
+      layer.tombstones.add(value);
+    }
+    if (hadValue) {
+      this.emit(arg, {
+        type: 'delete',
+        key: undefined,
+        value: undefined,
+        previousValue: value,
+      });
+    }
+  }
+  /**
+   * Remove the mask of a value, so the class and its subclasses inherit it
+   * from its parents again.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param value - Masked metadata value.
+   * @returns `true` if the value was masked, `false` otherwise.
+   * @throws {TypeError} If the helper does not use the live resolution.
+   * @throws {MetadataSealedError} If the metadata is sealed.
+   * @template T - Class instance type.
+   */
+  public unmask<T extends object>(arg: MetadataTarget<T>, value: V): boolean {
+    this.assertMaskable();
+    this.assertNotSealed(arg);
+
+    const [ownLevel] = this.resolveChain(arg);
+
+    if (!this.readLayer([ownLevel])?.tombstones.delete(value)) {
+      return false;
+    }
+    if (this.isObserved && this.has(arg, value)) {
+      this.emit(arg, {
+        type: 'add',
+        key: undefined,
+        value,
+        previousValue: undefined,
+      });
+    }
+    return true;
   }
   /**
    * Clear the metadata set on a class or an instance constructor.
@@ -125,12 +237,35 @@ export class SetMetadata<V> {
    * set is already defined on a parent class, it will be copied to the new set.
    * Later modification of the parent set will not affect the new set.
    *
+   * In the live mode, the class stops inheriting the values of its parents.
+   *
    * @param arg - Class constructor or an instance of a class.
+   * @throws {MetadataSealedError} If the metadata is sealed.
    * @template T - Class instance type.
    */
-  public clear<T extends object>(arg: T | Constructor<T>): void {
-    const metadata = this.getSet(arg);
-    metadata.clear();
+  public clear<T extends object>(arg: MetadataTarget<T>): void {
+    this.assertNotSealed(arg);
+
+    const previousValue = this.isObserved
+      ? new Set(this.getSet(arg))
+      : undefined;
+
+    if (this.isLive) {
+      const layer = this.getOwnLayer(arg);
+
+      layer.entries.clear();
+      layer.tombstones.clear();
+      layer.detached = true;
+    } else {
+      const metadata = this.getSet(arg);
+      metadata.clear();
+    }
+    this.emit(arg, {
+      type: 'clear',
+      key: undefined,
+      value: undefined,
+      previousValue,
+    });
   }
   /**
    * Get the size of the metadata set on a class or an instance constructor.
@@ -143,8 +278,196 @@ export class SetMetadata<V> {
    * @returns Size of the metadata set.
    * @template T - Class instance type.
    */
-  public getSize<T extends object>(arg: T | Constructor<T>): number {
+  public getSize<T extends object>(arg: MetadataTarget<T>): number {
     const metadata = this.getSet(arg);
     return metadata.size;
   }
+  /**
+   * Call a callback for every value of the metadata set of a class or an
+   * instance constructor, including the inherited values. Unlike `getSet`,
+   * nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @param callback - Callback receiving a value of the set.
+   * @template T - Class instance type.
+   */
+  public forEach<T extends object>(
+    arg: MetadataTarget<T>,
+    callback: (value: V) => void,
+  ): void {
+    for (const [, value] of this.walkEntries(arg)) {
+      callback(value);
+    }
+  }
+  /**
+   * Iterate the entries of the metadata set of a class or an instance
+   * constructor lazily, without storing anything on the class. Like
+   * `Set.entries`, both items of an entry are the value.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the `[value, value]` pairs.
+   * @template T - Class instance type.
+   */
+  public *entries<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<[V, V]> {
+    yield* this.walkEntries(arg);
+  }
+  /**
+   * Iterate the values of the metadata set of a class or an instance
+   * constructor lazily, without storing anything on the class. Same as
+   * `values`.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the values.
+   * @template T - Class instance type.
+   */
+  public keys<T extends object>(arg: MetadataTarget<T>): IterableIterator<V> {
+    return this.values(arg);
+  }
+  /**
+   * Iterate the values of the metadata set of a class or an instance
+   * constructor lazily, without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterator of the values.
+   * @template T - Class instance type.
+   */
+  public *values<T extends object>(
+    arg: MetadataTarget<T>,
+  ): IterableIterator<V> {
+    for (const [, value] of this.walkEntries(arg)) {
+      yield value;
+    }
+  }
+  /**
+   * Get an iterable of the metadata set of a class or an instance
+   * constructor, e.g. for a `for...of` loop or a spread. Each iteration walks
+   * the values lazily (see `values`).
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns Iterable of the values.
+   * @template T - Class instance type.
+   */
+  public iterate<T extends object>(arg: MetadataTarget<T>): Iterable<V> {
+    return { [Symbol.iterator]: () => this.values(arg) };
+  }
+  /**
+   * List the values of the metadata set of a class or an instance constructor
+   * without storing anything on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @returns A new array of the values.
+   * @template T - Class instance type.
+   */
+  public toArray<T extends object>(arg: MetadataTarget<T>): V[] {
+    return [...this.values(arg)];
+  }
+  /**
+   * Find the first value of the metadata set of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value of the set.
+   * @returns The first matching value or `undefined` if none matches.
+   * @template T - Class instance type.
+   */
+  public find<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V) => boolean,
+  ): V | undefined {
+    for (const value of this.values(arg)) {
+      if (predicate(value)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Select the values of the metadata set of a class or an instance
+   * constructor matching a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value of the set.
+   * @returns A new set of the matching values.
+   * @template T - Class instance type.
+   */
+  public filter<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V) => boolean,
+  ): Set<V> {
+    return new Set(this.toArray(arg).filter((value) => predicate(value)));
+  }
+  /**
+   * Check if any value of the metadata set of a class or an instance
+   * constructor matches a predicate. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class.
+   * @param predicate - Function receiving a value of the set.
+   * @returns `true` if a value matches, `false` otherwise.
+   * @template T - Class instance type.
+   */
+  public some<T extends object>(
+    arg: MetadataTarget<T>,
+    predicate: (value: V) => boolean,
+  ): boolean {
+    for (const value of this.values(arg)) {
+      if (predicate(value)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  /**
+   * Create a method decorator adding a value to the metadata set of the
+   * class. The decorator works both as a legacy and as a standard decorator.
+   *
+   * @param valueFactory - Function creating the value from the method name.
+   *  If omitted, the method name itself is added to the set.
+   * @returns Method decorator exposing this metadata as `metadata` property.
+   */
+  public methodDecorator(
+    valueFactory: (propertyKey: PropertyKey) => V = (propertyKey) =>
+      propertyKey as V,
+  ): MetadataDecorator<this, MethodMetadataDecorator> {
+    return this.createDecorator(({ target, propertyKey }) =>
+      this.add(target, valueFactory(propertyKey as PropertyKey)),
+    );
+  }
+
+  protected createCollection(): Set<V> {
+    return new Set();
+  }
+
+  protected removeEntries(collection: Set<V>, values: Set<V>): Set<V> {
+    values.forEach((value) => collection.delete(value));
+
+    return collection;
+  }
+
+  protected appendEntries(collection: Set<V>, entries: Set<V>): Set<V> {
+    entries.forEach((value) => collection.add(value));
+
+    return collection;
+  }
+
+  protected createReadonlyView(collection: Set<V>): Set<V> {
+    return new ReadonlySetView(collection);
+  }
+
+  protected iterateCollection(collection: Set<V>): Iterable<[V, V]> {
+    return collection.entries();
+  }
+
+  protected findEntry(collection: Set<V>, value: V): [V] | undefined {
+    return collection.has(value) ? [value] : undefined;
+  }
+
+  protected forEachEntry(
+    collection: Set<V>,
+    callback: (entry: V, key: unknown) => void,
+  ): void {
+    collection.forEach((value) => callback(value, undefined));
+  }
 }
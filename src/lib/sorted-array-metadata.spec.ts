@@ -0,0 +1,169 @@
+import { MetadataOrderError } from './metadata-order-error';
+import { SortedArrayMetadata } from './sorted-array-metadata';
+
+describe('(Unit) SortedArrayMetadata', () => {
+  describe('#getSorted() - sorted values', () => {
+    it('should keep the insertion order of unconstrained entries', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, { value: 'a' }, { value: 'b' });
+      testMetadata.add(TestClass, { value: 'c' });
+      // Act
+      const values = testMetadata.getSorted(TestClass);
+      // Assert
+      expect(values).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should order the entries by priority', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(
+        TestClass,
+        { value: 'a', priority: 10 },
+        { value: 'b' },
+        { value: 'c', priority: -10 },
+        { value: 'd', priority: 10 },
+      );
+      // Act
+      const values = testMetadata.getSorted(TestClass);
+      // Assert
+      expect(values).toEqual(['c', 'b', 'a', 'd']);
+    });
+
+    it('should satisfy the before and after constraints', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(
+        TestClass,
+        { value: 'log', id: 'log', after: ['auth'] },
+        { value: 'auth', id: 'auth', priority: 10 },
+        { value: 'cors', before: ['auth', 'missing'] },
+        { value: 'metrics', priority: -10 },
+      );
+      // Act
+      const values = testMetadata.getSorted(TestClass);
+      // Assert
+      expect(values).toEqual(['metrics', 'cors', 'auth', 'log']);
+    });
+
+    it('should apply a constraint to all entries sharing an id', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(
+        TestClass,
+        { value: 'a', id: 'guard' },
+        { value: 'b', id: 'guard' },
+        { value: 'c', before: ['guard'] },
+      );
+      // Act
+      const values = testMetadata.getSorted(TestClass);
+      // Assert
+      expect(values).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should sort the entries across the inheritance chain', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, { value: 'parent', id: 'parent' });
+      testMetadata.add(ChildClass, { value: 'child', before: ['parent'] });
+      // Act
+      const parentValues = testMetadata.getSorted(ParentClass);
+      const childValues = testMetadata.getSorted(new ChildClass());
+      // Assert
+      expect(parentValues).toEqual(['parent']);
+      expect(childValues).toEqual(['child', 'parent']);
+    });
+
+    it('should not store anything on the class', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      testMetadata.add(ParentClass, { value: 'parent' });
+      // Act
+      const values = testMetadata.getSorted(ChildClass);
+      // Assert
+      expect(values).toEqual(['parent']);
+      expect(testMetadata.hasOwn(ChildClass)).toBe(false);
+    });
+  });
+
+  describe('#getSortedEntries() - sorted entries', () => {
+    it('should return the sorted entries', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      const first = { value: 'a', id: 'a', after: ['b'] };
+      const second = { value: 'b', id: 'b' };
+      testMetadata.add(TestClass, first, second);
+      // Act
+      const entries = testMetadata.getSortedEntries(TestClass);
+      // Assert
+      expect(entries).toEqual([second, first]);
+    });
+
+    it('should throw an error if the constraints form a cycle', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(
+        TestClass,
+        { value: 'free' },
+        { value: 'a', id: 'a', before: ['b'] },
+        { value: 'b', id: 'b', before: ['c'] },
+        { value: 'c', id: 'c', before: ['a'] },
+      );
+      // Act
+      const act = () => testMetadata.getSortedEntries(TestClass);
+      // Assert
+      expect(act).toThrow(MetadataOrderError);
+      expect(act).toThrow(
+        'Metadata "test:testMetadata" on "TestClass" can not be sorted, the ' +
+          'order constraints form a cycle: a -> b -> c -> a.',
+      );
+    });
+
+    it('should report an entry constrained against itself', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      class TestClass {}
+      testMetadata.add(TestClass, { value: 'a', id: 'a', after: ['a'] });
+      // Act
+      let error: MetadataOrderError | undefined;
+      try {
+        testMetadata.getSorted(new TestClass());
+      } catch (e) {
+        error = e as MetadataOrderError;
+      }
+      // Assert
+      expect(error?.target).toBe(TestClass);
+      expect(error?.description).toBe('test:testMetadata');
+      expect(error?.cycle).toEqual(['a', 'a']);
+    });
+
+    it('should name the anonymous entries of a cycle', () => {
+      // Arrange
+      const testMetadata = new SortedArrayMetadata<string>('test:testMetadata');
+      const metadata = Object.create(null);
+      testMetadata.add(
+        metadata,
+        { value: 'a', id: 'a' },
+        { value: 'anonymous', before: ['a'], after: ['a'] },
+      );
+      // Act
+      const act = () => testMetadata.getSorted(metadata);
+      // Assert
+      expect(act).toThrow(
+        'Metadata "test:testMetadata" on "decorator metadata" can not be ' +
+          'sorted, the order constraints form a cycle: ' +
+          'a -> <anonymous> -> a.',
+      );
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { ArrayMetadata } from './array-metadata';
+import { MetadataOrderError } from './metadata-order-error';
+import { getMetadataLevelOwner, MetadataTarget } from './metadata-target';
+
+/**
+ * Entry of a `SortedArrayMetadata` carrying a value with its ordering.
+ *
+ * @template V - Metadata value type.
+ */
+export interface SortedArrayEntry<V> {
+  /**
+   * The metadata value.
+   */
+  value: V;
+  /**
+   * Id other entries can refer to in their `before` and `after` constraints.
+   * Several entries can share an id, a constraint then applies to all of them.
+   */
+  id?: PropertyKey;
+  /**
+   * Priority of the entry, entries with a lower priority come first.
+   * Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * Ids of the entries this entry has to precede. Ids of missing entries are
+   * ignored.
+   */
+  before?: readonly PropertyKey[];
+  /**
+   * Ids of the entries this entry has to follow. Ids of missing entries are
+   * ignored.
+   */
+  after?: readonly PropertyKey[];
+}
+
+/**
+ * Result of sorting the entries, either the sorted indexes or the indexes of
+ * entries forming a cycle.
+ */
+type SortResult = { sorted: number[] } | { cycle: number[] };
+
+/**
+ * Sort the entries topologically by their `before` and `after` constraints.
+ * Among the entries which are free to go next, the one with the lowest
+ * priority and then the lowest index is taken, so the sort is stable.
+ */
+function sortEntries<V>(entries: SortedArrayEntry<V>[]): SortResult {
+  const successors = entries.map((): number[] => []);
+  const predecessors = entries.map((): number[] => []);
+  const indexesById = new Map<PropertyKey, number[]>();
+
+  entries.forEach(({ id }, index) => {
+    if (id !== undefined) {
+      indexesById.set(id, [...(indexesById.get(id) ?? []), index]);
+    }
+  });
+  const addEdge = (from: number, to: number): void => {
+    successors[from].push(to);
+    predecessors[to].push(from);
+  };
+  entries.forEach(({ before = [], after = [] }, index) => {
+    before.forEach((id) =>
+      indexesById.get(id)?.forEach((other) => addEdge(index, other)),
+    );
+    after.forEach((id) =>
+      indexesById.get(id)?.forEach((other) => addEdge(other, index)),
+    );
+  });
+
+  const inDegrees = predecessors.map((indexes) => indexes.length);
+  const ready = entries.map((_, index) => index).filter((i) => !inDegrees[i]);
+  const sorted: number[] = [];
+  const compare = (a: number, b: number): number =>
+    (entries[a].priority ?? 0) - (entries[b].priority ?? 0) || a - b;
+
+  while (ready.length > 0) {
+    const next = ready.reduce((best, index) =>
+      compare(index, best) < 0 ? index : best,
+    );
+
+    ready.splice(ready.indexOf(next), 1);
+    sorted.push(next);
+    successors[next].forEach((index) => {
+      inDegrees[index]--;
+
+      if (inDegrees[index] === 0) {
+        ready.push(index);
+      }
+    });
+  }
+  if (sorted.length === entries.length) {
+    return { sorted };
+  }
+  // Every entry left has a predecessor which is left as well, so walking the
+  // predecessors has to end up in a cycle.
+  const left = new Set(entries.keys());
+
+  sorted.forEach((index) => left.delete(index));
+
+  const path: number[] = [];
+  let current = left.values().next().value as number;
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = predecessors[current].find((index) => left.has(index)) as number;
+  }
+  const cycle = path.slice(path.indexOf(current) + 1).reverse();
+
+  return { cycle: [current, ...cycle, current] };
+}
+
+/**
+ * SortedArrayMetadata is an `ArrayMetadata` of entries carrying a priority
+ * and `before` / `after` constraints against the ids of other entries, e.g.
+ * for handlers or interceptors whose order should not depend on the order
+ * the decorators are evaluated in. The entries are stored (and inherited)
+ * like the values of an `ArrayMetadata`, `getSorted` reads them ordered.
+ *
+ * The order is topological with respect to the constraints. Entries which
+ * are not constrained against each other are ordered by their priority and
+ * then by their position in the array, parent entries first.
+ *
+ * @template V - Metadata value type.
+ *
+ * @example
+ *
+ * ```ts
+ * const interceptors = new SortedArrayMetadata<Interceptor>('http:interceptors');
+ * class MyController {}
+ * interceptors.add(MyController, { value: log, after: ['auth'] });
+ * interceptors.add(MyController, { value: auth, id: 'auth' });
+ * interceptors.add(MyController, { value: metrics, priority: -10 });
+ * console.log(interceptors.getSorted(MyController)); // [metrics, auth, log]
+ * ```
+ */
+export class SortedArrayMetadata<V> extends ArrayMetadata<SortedArrayEntry<V>> {
+  /**
+   * Get the entries of a class or an instance constructor, including the
+   * inherited ones, in the sorted order. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @returns A new array of the sorted entries.
+   * @throws {MetadataOrderError} If the order constraints form a cycle.
+   * @template T - Class instance type.
+   */
+  public getSortedEntries<T extends object>(
+    arg: MetadataTarget<T>,
+  ): SortedArrayEntry<V>[] {
+    const entries = this.toArray(arg);
+    const result = sortEntries(entries);
+
+    if ('cycle' in result) {
+      throw new MetadataOrderError(
+        getMetadataLevelOwner(this.resolveChain(arg)[0]),
+        this.metadataKey.description ?? '',
+        result.cycle.map((index) => entries[index].id),
+      );
+    }
+    return result.sorted.map((index) => entries[index]);
+  }
+  /**
+   * Get the values of a class or an instance constructor, including the
+   * inherited ones, in the sorted order. Nothing is stored on the class.
+   *
+   * @param arg - Class constructor or an instance of a class. The method
+   *  will look for the metadata on the class itself or any parent class.
+   * @returns A new array of the sorted values.
+   * @throws {MetadataOrderError} If the order constraints form a cycle.
+   * @template T - Class instance type.
+   */
+  public getSorted<T extends object>(arg: MetadataTarget<T>): V[] {
+    return this.getSortedEntries(arg).map(({ value }) => value);
+  }
+}
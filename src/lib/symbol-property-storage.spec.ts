@@ -0,0 +1,68 @@
+import { SymbolPropertyStorage } from './symbol-property-storage';
+
+describe('(Unit) SymbolPropertyStorage', () => {
+  describe('#set() - value storing', () => {
+    it('should store a value as own symbol property', () => {
+      // Arrange
+      const storage = new SymbolPropertyStorage();
+      const key = Symbol('test:key');
+      class TestClass {}
+      // Act
+      storage.set(TestClass, key, 'testValue');
+      // Assert
+      expect(Object.getOwnPropertySymbols(TestClass)).toContain(key);
+      expect(storage.get(TestClass, key)).toBe('testValue');
+    });
+
+    it('should throw when storing a value on a frozen class', () => {
+      // Arrange
+      const storage = new SymbolPropertyStorage();
+      class TestClass {}
+      Object.freeze(TestClass);
+      // Act
+      const act = () => storage.set(TestClass, Symbol('test:key'), 'value');
+      // Assert
+      expect(act).toThrow(TypeError);
+    });
+  });
+
+  describe('#has() - value checking', () => {
+    it('should not see a value stored on a parent class', () => {
+      // Arrange
+      const storage = new SymbolPropertyStorage();
+      const key = Symbol('test:key');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      storage.set(ParentClass, key, 'testValue');
+      // Assert
+      expect(storage.has(ChildClass, key)).toBe(false);
+      expect(storage.get(ChildClass, key)).toBeUndefined();
+    });
+  });
+
+  describe('#delete() - value deleting', () => {
+    it('should delete an own value', () => {
+      // Arrange
+      const storage = new SymbolPropertyStorage();
+      const key = Symbol('test:key');
+      class TestClass {}
+      storage.set(TestClass, key, 'testValue');
+      // Act
+      const wasDeleted = storage.delete(TestClass, key);
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(storage.has(TestClass, key)).toBe(false);
+    });
+
+    it('should return false if no value is stored', () => {
+      // Arrange
+      const storage = new SymbolPropertyStorage();
+      class TestClass {}
+      // Act
+      const wasDeleted = storage.delete(TestClass, Symbol('test:key'));
+      // Assert
+      expect(wasDeleted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import type { MetadataStorage } from './metadata-storage';
+
+/**
+ * Metadata storage keeping the values as own symbol properties of the holder
+ * object. This is the default storage. The values are visible through
+ * `Object.getOwnPropertySymbols` and can not be written to frozen or sealed
+ * classes.
+ */
+export class SymbolPropertyStorage implements MetadataStorage {
+  public has(holder: object, metadataKey: symbol): boolean {
+    return Object.prototype.hasOwnProperty.call(holder, metadataKey);
+  }
+
+  public get<S>(holder: object, metadataKey: symbol): S | undefined {
+    return this.has(holder, metadataKey)
+      ? Reflect.get(holder, metadataKey)
+      : undefined;
+  }
+  /**
+   * @throws {TypeError} If the property can not be defined on the holder,
+   *  e.g. because the class is frozen.
+   */
+  public set<S>(holder: object, metadataKey: symbol, value: S): void {
+    const isDefined = Reflect.defineProperty(holder, metadataKey, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+
+    if (!isDefined) {
+      throw new TypeError(
+        `Cannot store metadata "${metadataKey.description}" on a frozen or ` +
+          'sealed object. Use a WeakMapStorage instead.',
+      );
+    }
+  }
+
+  public delete(holder: object, metadataKey: symbol): boolean {
+    return this.has(holder, metadataKey)
+      ? Reflect.deleteProperty(holder, metadataKey)
+      : false;
+  }
+}
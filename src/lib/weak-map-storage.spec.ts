@@ -0,0 +1,71 @@
+import { WeakMapStorage } from './weak-map-storage';
+
+describe('(Unit) WeakMapStorage', () => {
+  describe('#set() - value storing', () => {
+    it('should store a value without touching the class', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const key = Symbol('test:key');
+      class TestClass {}
+      // Act
+      storage.set(TestClass, key, 'testValue');
+      // Assert
+      expect(Object.getOwnPropertySymbols(TestClass)).not.toContain(key);
+      expect(storage.get(TestClass, key)).toBe('testValue');
+    });
+
+    it('should store a value on a frozen class', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const key = Symbol('test:key');
+      class TestClass {}
+      Object.freeze(TestClass);
+      // Act
+      storage.set(TestClass, key, 'testValue');
+      storage.set(TestClass, key, 'otherValue');
+      // Assert
+      expect(storage.get(TestClass, key)).toBe('otherValue');
+    });
+  });
+
+  describe('#has() - value checking', () => {
+    it('should not see a value stored on a parent class', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const key = Symbol('test:key');
+      class ParentClass {}
+      class ChildClass extends ParentClass {}
+      // Act
+      storage.set(ParentClass, key, 'testValue');
+      // Assert
+      expect(storage.has(ParentClass, key)).toBe(true);
+      expect(storage.has(ChildClass, key)).toBe(false);
+      expect(storage.get(ChildClass, key)).toBeUndefined();
+    });
+  });
+
+  describe('#delete() - value deleting', () => {
+    it('should delete an own value', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      const key = Symbol('test:key');
+      class TestClass {}
+      storage.set(TestClass, key, 'testValue');
+      // Act
+      const wasDeleted = storage.delete(TestClass, key);
+      // Assert
+      expect(wasDeleted).toBe(true);
+      expect(storage.has(TestClass, key)).toBe(false);
+    });
+
+    it('should return false if no value is stored', () => {
+      // Arrange
+      const storage = new WeakMapStorage();
+      class TestClass {}
+      // Act
+      const wasDeleted = storage.delete(TestClass, Symbol('test:key'));
+      // Assert
+      expect(wasDeleted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import type { MetadataStorage } from './metadata-storage';
+
+/**
+ * Metadata storage keeping the values in a `WeakMap` keyed by the holder
+ * object. The class object is never touched, so the metadata is invisible to
+ * reflection, works with frozen or sealed classes and does not leak into
+ * copies of static properties. Holders can still be garbage collected.
+ *
+ * @example
+ *
+ * ```ts
+ * const myMetadata = new Metadata<string>('myFeature:myMetadata', {
+ *   storage: new WeakMapStorage(),
+ * });
+ * ```
+ */
+export class WeakMapStorage implements MetadataStorage {
+  private readonly entries = new WeakMap<object, Map<symbol, unknown>>();
+
+  public has(holder: object, metadataKey: symbol): boolean {
+    return this.entries.get(holder)?.has(metadataKey) ?? false;
+  }
+
+  public get<S>(holder: object, metadataKey: symbol): S | undefined {
+    return this.entries.get(holder)?.get(metadataKey) as S | undefined;
+  }
+
+  public set<S>(holder: object, metadataKey: symbol, value: S): void {
+    let values = this.entries.get(holder);
+
+    if (!values) {
+      values = new Map();
+      this.entries.set(holder, values);
+    }
+    values.set(metadataKey, value);
+  }
+
+  public delete(holder: object, metadataKey: symbol): boolean {
+    return this.entries.get(holder)?.delete(metadataKey) ?? false;
+  }
+}
@@ -0,0 +1,60 @@
+import { WeakTargetSet } from './weak-target-set';
+
+describe('(Unit) WeakTargetSet', () => {
+  describe('#add() - adding members', () => {
+    it('should add a member only once', () => {
+      // Arrange
+      const targetSet = new WeakTargetSet<object>();
+      const member = {};
+      // Act
+      targetSet.add(member);
+      targetSet.add(member);
+      // Assert
+      expect(targetSet.values()).toEqual([member]);
+    });
+  });
+
+  describe('#has() - membership checking', () => {
+    it('should check if an object is a member', () => {
+      // Arrange
+      const targetSet = new WeakTargetSet<object>();
+      const member = {};
+      // Act
+      targetSet.add(member);
+      // Assert
+      expect(targetSet.has(member)).toBe(true);
+      expect(targetSet.has({})).toBe(false);
+    });
+  });
+
+  describe('#values() - listing members', () => {
+    it('should list members in the order they were added', () => {
+      // Arrange
+      const targetSet = new WeakTargetSet<object>();
+      const first = { name: 'first' };
+      const second = { name: 'second' };
+      // Act
+      targetSet.add(second);
+      targetSet.add(first);
+      // Assert
+      expect(targetSet.values()).toEqual([second, first]);
+    });
+
+    it('should skip members which were garbage collected', () => {
+      // Arrange
+      const targetSet = new WeakTargetSet<object>();
+      const member = {};
+      const derefSpy = jest
+        .spyOn(WeakRef.prototype, 'deref')
+        .mockReturnValueOnce(undefined);
+      targetSet.add({});
+      targetSet.add(member);
+      // Act
+      const values = targetSet.values();
+      // Assert
+      expect(values).toEqual([member]);
+      expect(targetSet.values()).toEqual([member]);
+      derefSpy.mockRestore();
+    });
+  });
+});
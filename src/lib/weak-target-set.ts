@@ -0,0 +1,50 @@
+/**
+ * Iterable set of objects holding its members weakly. Unlike a `WeakSet`, the
+ * members can be listed, but a member is still garbage collected once nothing
+ * else references it.
+ *
+ * @template T - Type of the members.
+ */
+export class WeakTargetSet<T extends object> {
+  private readonly members = new WeakSet<T>();
+  private references: WeakRef<T>[] = [];
+  /**
+   * Add a member to the set.
+   *
+   * @param member - Object to add.
+   */
+  public add(member: T): void {
+    if (!this.members.has(member)) {
+      this.members.add(member);
+      this.references.push(new WeakRef(member));
+    }
+  }
+  /**
+   * Check if an object is a member of the set.
+   *
+   * @param member - Object to check.
+   * @returns `true` if the object is a member, `false` otherwise.
+   */
+  public has(member: T): boolean {
+    return this.members.has(member);
+  }
+  /**
+   * List the members which have not been garbage collected yet, in the order
+   * they were added.
+   *
+   * @returns Living members of the set.
+   */
+  public values(): T[] {
+    const values: T[] = [];
+
+    this.references = this.references.filter((reference) => {
+      const value = reference.deref();
+
+      if (value !== undefined) {
+        values.push(value);
+      }
+      return value !== undefined;
+    });
+    return values;
+  }
+}
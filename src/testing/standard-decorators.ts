@@ -0,0 +1,40 @@
+declare global {
+  interface SymbolConstructor {
+    /**
+     * Well-known symbol of the standard decorator metadata, polyfilled below
+     * on runtimes which do not define it.
+     */
+    metadata?: symbol;
+  }
+}
+
+/**
+ * The `Symbol.metadata` symbol, polyfilled if the runtime does not define it.
+ */
+export const metadataSymbol: symbol = (Symbol.metadata ??=
+  Symbol('Symbol.metadata'));
+/**
+ * Emulate a class decorated with standard decorators: run the decorator
+ * callbacks against a fresh metadata object and attach it to the class.
+ *
+ * @param target - Class constructor to decorate.
+ * @param decorators - Decorator callbacks receiving a field decorator context.
+ */
+export function decorate(
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  target: Function,
+  ...decorators: ((context: DecoratorContext) => void)[]
+): void {
+  const metadata = Object.create(Reflect.get(target, metadataSymbol) ?? null);
+  const context = {
+    kind: 'field',
+    name: 'testProperty',
+    static: false,
+    private: false,
+    metadata,
+    addInitializer: () => undefined,
+  } as unknown as ClassFieldDecoratorContext;
+
+  decorators.forEach((decorator) => decorator(context));
+  Object.defineProperty(target, metadataSymbol, { value: metadata });
+}